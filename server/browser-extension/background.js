@@ -0,0 +1,56 @@
+// Reports the active tab of the focused window to the desktop app's loopback bridge
+const BRIDGE_URL = 'http://127.0.0.1:37891/active-tab';
+const HEARTBEAT_ALARM = 'mindful-heartbeat';
+
+// Identify the browser so the desktop app can match the report to the focused window
+function getBrowserFamily() {
+  const brands = (navigator.userAgentData?.brands || []).map(brand => brand.brand.toLowerCase());
+  if (brands.some(brand => brand.includes('brave'))) return 'brave';
+  if (brands.some(brand => brand.includes('edge'))) return 'edge';
+  if (brands.some(brand => brand.includes('opera'))) return 'opera';
+
+  const userAgent = navigator.userAgent;
+  if (/Edg\//.test(userAgent)) return 'edge';
+  if (/OPR\//.test(userAgent)) return 'opera';
+  if (/Vivaldi/.test(userAgent)) return 'vivaldi';
+  if (/Firefox\//.test(userAgent)) return 'firefox';
+  return 'chrome';
+}
+
+async function reportActiveTab() {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    if (!tab || !tab.url) return;
+
+    await fetch(BRIDGE_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        url: tab.url,
+        title: tab.title || '',
+        browser: getBrowserFamily()
+      })
+    });
+  } catch (error) {
+    // The desktop app isn't running - try again on the next change or heartbeat
+  }
+}
+
+chrome.tabs.onActivated.addListener(reportActiveTab);
+chrome.windows.onFocusChanged.addListener(reportActiveTab);
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  if (tab.active && (changeInfo.url || changeInfo.status === 'complete')) {
+    reportActiveTab();
+  }
+});
+
+// Keep the bridge from treating us as disconnected while the tab doesn't change
+chrome.alarms.create(HEARTBEAT_ALARM, { periodInMinutes: 0.5 });
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === HEARTBEAT_ALARM) {
+    reportActiveTab();
+  }
+});
+
+chrome.runtime.onStartup.addListener(reportActiveTab);
+chrome.runtime.onInstalled.addListener(reportActiveTab);
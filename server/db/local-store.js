@@ -0,0 +1,132 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const clone = (doc) => JSON.parse(JSON.stringify(doc));
+
+// Plain equality on every field of the query, which is all the routes need
+const matches = (doc, query) => Object.keys(query).every(key => doc[key] === query[key]);
+
+// A document collection for running without MongoDB. Documents live in memory
+// and, when a file path is given, are written to disk as JSON after every
+// change. It offers the same methods as MongoCollection.
+class LocalCollection {
+  constructor(name, options = {}) {
+    this.name = name;
+    this.filePath = options.dataDir ? path.join(options.dataDir, `${name}.json`) : null;
+    this.documents = [];
+
+    this.load();
+  }
+
+  async findOne(query) {
+    const doc = this.documents.find(item => matches(item, query));
+    return doc ? clone(doc) : null;
+  }
+
+  async find(query = {}) {
+    return this.documents.filter(item => matches(item, query)).map(clone);
+  }
+
+  async insertOne(doc) {
+    const stored = { _id: crypto.randomUUID(), ...clone(doc) };
+    this.documents.push(stored);
+    this.save();
+    return clone(stored);
+  }
+
+  // Returns the updated document, or null if nothing matched and upsert is off
+  async updateOne(query, changes, options = {}) {
+    const index = this.documents.findIndex(item => matches(item, query));
+
+    if (index === -1) {
+      return options.upsert ? this.insertOne({ ...query, ...changes }) : null;
+    }
+
+    this.documents[index] = { ...this.documents[index], ...clone(changes) };
+    this.save();
+    return clone(this.documents[index]);
+  }
+
+  async deleteOne(query) {
+    const index = this.documents.findIndex(item => matches(item, query));
+    if (index === -1) return false;
+
+    this.documents.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  async deleteMany(query) {
+    const remaining = this.documents.filter(item => !matches(item, query));
+    const deletedCount = this.documents.length - remaining.length;
+
+    if (deletedCount > 0) {
+      this.documents = remaining;
+      this.save();
+    }
+    return deletedCount;
+  }
+
+  load() {
+    if (!this.filePath) return;
+
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.documents = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      }
+    } catch (error) {
+      console.error(`Error loading ${this.name} store:`, error);
+    }
+  }
+
+  save() {
+    if (!this.filePath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write to a temporary file first so a crash can't leave half a file behind
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.documents, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Error saving ${this.name} store:`, error);
+    }
+  }
+}
+
+// The same methods backed by a mongoose model
+class MongoCollection {
+  constructor(model) {
+    this.model = model;
+  }
+
+  async findOne(query) {
+    return this.model.findOne(query).lean();
+  }
+
+  async find(query = {}) {
+    return this.model.find(query).lean();
+  }
+
+  async insertOne(doc) {
+    const created = await this.model.create(doc);
+    return created.toObject();
+  }
+
+  async updateOne(query, changes, options = {}) {
+    return this.model.findOneAndUpdate(query, { $set: changes }, { new: true, upsert: Boolean(options.upsert) }).lean();
+  }
+
+  async deleteOne(query) {
+    const result = await this.model.deleteOne(query);
+    return result.deletedCount > 0;
+  }
+
+  async deleteMany(query) {
+    const result = await this.model.deleteMany(query);
+    return result.deletedCount;
+  }
+}
+
+module.exports = { LocalCollection, MongoCollection };
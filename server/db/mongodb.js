@@ -1,7 +1,27 @@
 const mongoose = require('mongoose');
+const { DEFAULT_DATA_DIR, useLocalStore, useMongoStore } = require('./store');
+
+let connection = null;
+
+// Pick the data store. DATA_STORE can be 'mongo', 'file' or 'memory'; without
+// it MongoDB is used when MONGO_URI is set. If MongoDB can't be reached the
+// file store is used instead, so the API still runs for local testing.
+const connect = async () => {
+  const storeType = process.env.DATA_STORE || (process.env.MONGO_URI ? 'mongo' : 'file');
+  const dataDir = process.env.DATA_DIR || DEFAULT_DATA_DIR;
+
+  if (storeType === 'memory') {
+    console.log('Using the in-memory data store');
+    useLocalStore(null);
+    return null;
+  }
+
+  if (storeType === 'file') {
+    console.log(`Using the file data store in ${dataDir}`);
+    useLocalStore(dataDir);
+    return null;
+  }
 
-// Connect to MongoDB
-const connectDB = async () => {
   try {
     // Use the environment variable or fall back to a default local MongoDB URI
     const mongoUri = process.env.MONGO_URI || 'mongodb://localhost:27017/attentionPlease';
@@ -9,16 +29,26 @@ const connectDB = async () => {
     console.log(`Attempting to connect to MongoDB at: ${mongoUri}`);
     
     const conn = await mongoose.connect(mongoUri, {
-      // Keeping the connection options clean (deprecated options removed)
+      serverSelectionTimeoutMS: 5000
     });
     
     console.log(`MongoDB Connected: ${conn.connection.host}`);
+    useMongoStore();
     return conn;
   } catch (error) {
     console.error(`Error connecting to MongoDB: ${error.message}`);
-    console.error('MongoDB connection is required for this application to run.');
-    process.exit(1); // Exit the application if MongoDB connection fails
+    console.warn(`Falling back to the file data store in ${dataDir}`);
+    useLocalStore(dataDir);
+    return null;
+  }
+};
+
+// Both the API server and the Electron main process call this, so connect once
+const connectDB = () => {
+  if (!connection) {
+    connection = connect();
   }
+  return connection;
 };
 
 module.exports = { connectDB };
@@ -0,0 +1,42 @@
+const path = require('path');
+const { LocalCollection, MongoCollection } = require('./local-store');
+const User = require('../models/User');
+const ResetRequest = require('../models/ResetRequest');
+const Preference = require('../models/Preference');
+const Session = require('../models/Session');
+
+// Where the file store keeps its JSON files
+const DEFAULT_DATA_DIR = path.join(__dirname, '..', 'data');
+
+const COLLECTION_MODELS = {
+  users: User,
+  resetRequests: ResetRequest,
+  preferences: Preference,
+  sessions: Session
+};
+
+let collections = null;
+
+// Use the connected MongoDB for every collection
+const useMongoStore = () => {
+  collections = Object.fromEntries(
+    Object.entries(COLLECTION_MODELS).map(([name, model]) => [name, new MongoCollection(model)])
+  );
+};
+
+// Use JSON files in dataDir, or memory only if dataDir is null
+const useLocalStore = (dataDir = DEFAULT_DATA_DIR) => {
+  collections = Object.fromEntries(
+    Object.keys(COLLECTION_MODELS).map(name => [name, new LocalCollection(name, { dataDir })])
+  );
+};
+
+// The routes get their collections from here, whichever store is in use
+const getCollection = (name) => {
+  if (!collections) {
+    useLocalStore();
+  }
+  return collections[name];
+};
+
+module.exports = { DEFAULT_DATA_DIR, getCollection, useLocalStore, useMongoStore };
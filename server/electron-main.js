@@ -1,25 +1,48 @@
-const { app, BrowserWindow, Tray, Menu, ipcMain, nativeImage, Notification, screen } = require('electron');
+const { app, BrowserWindow, Tray, Menu, ipcMain, nativeImage, Notification, screen, safeStorage } = require('electron');
 const path = require('path');
 const activeWin = require('active-win'); // Updated from get-windows
 const express = require('express');
-const { BlinkDetector } = require('./services/blink-detector');
+const { BrowserBridge } = require('./services/browser-bridge');
+const { TimerEngine } = require('./services/timer-engine');
+const { IdleMonitor } = require('./services/idle-monitor');
+const { DoNotDisturb } = require('./services/do-not-disturb');
+const { QuietMode } = require('./services/quiet-mode');
+const { SessionStore } = require('./services/session-store');
 const { connectDB } = require('./db/mongodb');
+
+// Without MongoDB, keep the local data store with the rest of the app's data
+process.env.DATA_DIR = process.env.DATA_DIR || path.join(app.getPath('userData'), 'data');
+
 const { app: expressApp } = require('./index');
 require('dotenv').config(); // Load environment variables from .env file
 
 let mainWindow;
 let tray = null;
 let activeWindowInterval;
-let blinkDetector;
+let browserBridge;
+let timerEngine;
+let idleMonitor;
+let doNotDisturb;
+let quietMode;
+let sessionStore;
+let lastTimerMenuKey = null;
 let server;
 let isMonitoring = true;
 let isAppQuitting = false;
 let lastActiveWindow = null;
 let lastActiveWindowTime = Date.now();
 let isFocusMode = false;
+let focusSchedules = { schedules: [], nextScheduleName: null, nextScheduleStart: null };
+let whitelistProfiles = { profiles: [], activeProfileId: null };
+let cameraState = { isActive: false, isPaused: false };
 let notificationWindow = null;
 let focusPopupWindow = null;
+let focusBlockWindow = null;
+let focusBlockState = null;
+let lastExternalWindowBounds = null;
 let lastProcessedNotificationId = null;
+// Reminders that can still be snoozed or skipped, by notification ID
+let activeReminders = new Map();
 
 async function createWindow() {
   try {
@@ -45,6 +68,8 @@ async function createWindow() {
         preload: path.join(__dirname, 'preload.js'),
         contextIsolation: true,
         nodeIntegration: false,
+        // Keeps the blink monitor's camera frames coming while minimized to the tray
+        backgroundThrottling: false,
       }
     });
 
@@ -65,12 +90,22 @@ async function createWindow() {
     // Initialize system tray
     createTray();
     
+    // Start the Pomodoro and eye care timers
+    startTimerEngine();
+    
+    // Watch for the user going idle, locking the screen or suspending
+    startIdleMonitor();
+    
+    // Restore Do Not Disturb, which may still be running from before a restart
+    startDoNotDisturb();
+    
+    // Hold reminders back during meetings, presentations and full screen apps
+    startQuietMode();
+    
     // Start monitoring active windows
+    startBrowserBridge();
     startActiveWindowMonitoring();
     
-    // Initialize blink detection
-    initializeBlinkDetection();
-    
     // Handle window close event - hide instead of closing
     mainWindow.on('close', (event) => {
       if (!isAppQuitting) {
@@ -189,6 +224,241 @@ function createFocusPopupWindow() {
   console.log("Focus popup window created with system-level overlay settings");
 }
 
+// Create a full-screen, always-on-top window used to block a non-whitelisted app.
+// Unlike the focus popup it is focusable, so the reason gate can take input.
+function createFocusBlockWindow(display) {
+  const { x, y, width, height } = display.bounds;
+  
+  focusBlockWindow = new BrowserWindow({
+    x,
+    y,
+    width,
+    height,
+    alwaysOnTop: true,
+    frame: false,
+    transparent: true,
+    fullscreenable: false,
+    skipTaskbar: true,
+    focusable: true,
+    resizable: false,
+    movable: false,
+    minimizable: false,
+    show: false,
+    webPreferences: {
+      nodeIntegration: true,
+      contextIsolation: false
+    }
+  });
+  
+  focusBlockWindow.setVisibleOnAllWorkspaces(true);
+  focusBlockWindow.setAlwaysOnTop(true, 'screen-saver', 2);
+  
+  focusBlockWindow.on('closed', () => {
+    focusBlockWindow = null;
+    focusBlockState = null;
+  });
+}
+
+// Escape text before putting it into generated overlay HTML
+function escapeHtml(text) {
+  return String(text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Cover the display showing the offending app until the user switches to a
+// whitelisted app. In 'reason' mode the user can continue after typing a reason
+// of at least minReasonLength characters and waiting waitSeconds.
+function showFocusBlock({ appName, mode = 'overlay', minReasonLength = 20, waitSeconds = 0, profileName = '' }) {
+  try {
+    // Keep the current overlay if it is already blocking the same app
+    if (focusBlockWindow && !focusBlockWindow.isDestroyed() && focusBlockState?.appName === appName && focusBlockWindow.isVisible()) {
+      return;
+    }
+    
+    const display = lastExternalWindowBounds
+      ? screen.getDisplayMatching(lastExternalWindowBounds)
+      : screen.getPrimaryDisplay();
+    
+    if (!focusBlockWindow || focusBlockWindow.isDestroyed()) {
+      createFocusBlockWindow(display);
+    } else {
+      focusBlockWindow.setBounds(display.bounds);
+    }
+    
+    focusBlockState = { appName, mode };
+    
+    const safeAppName = escapeHtml(appName);
+    const listName = profileName ? `${escapeHtml(profileName)} whitelist` : 'whitelist';
+    const reasonGate = mode === 'reason' ? `
+          <div class="gate">
+            <label for="reason">Need ${safeAppName} right now? Tell your future self why (at least ${minReasonLength} characters).</label>
+            <textarea id="reason" rows="3" placeholder="I need this because..."></textarea>
+            <div class="gate-footer">
+              <span id="counter">0 / ${minReasonLength}</span>
+              <button id="continue" class="secondary" disabled>Continue to ${safeAppName}</button>
+            </div>
+          </div>` : '';
+    
+    const blockContent = `
+      <html>
+      <head>
+        <style>
+          body {
+            margin: 0;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+            background-color: rgba(10, 10, 10, 0.96);
+            color: white;
+            height: 100vh;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            animation: fadeIn 0.3s ease;
+          }
+          .panel {
+            max-width: 560px;
+            padding: 32px;
+            text-align: center;
+          }
+          .title {
+            font-size: 32px;
+            font-weight: 700;
+            color: #FF9500;
+            margin-bottom: 12px;
+          }
+          .body {
+            font-size: 18px;
+            line-height: 1.6;
+            opacity: 0.9;
+            margin-bottom: 28px;
+          }
+          .gate {
+            text-align: left;
+            margin-bottom: 24px;
+          }
+          .gate label {
+            display: block;
+            font-size: 14px;
+            margin-bottom: 8px;
+            opacity: 0.85;
+          }
+          textarea {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 12px;
+            border-radius: 8px;
+            border: 1px solid rgba(255, 149, 0, 0.4);
+            background: rgba(255, 255, 255, 0.06);
+            color: white;
+            font-size: 14px;
+            resize: none;
+          }
+          .gate-footer {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-top: 12px;
+            font-size: 13px;
+            opacity: 0.8;
+          }
+          button {
+            border: none;
+            padding: 12px 20px;
+            border-radius: 8px;
+            cursor: pointer;
+            font-size: 14px;
+            font-weight: 600;
+          }
+          button:disabled {
+            opacity: 0.4;
+            cursor: not-allowed;
+          }
+          .secondary {
+            background: rgba(255, 255, 255, 0.12);
+            color: white;
+          }
+          .link {
+            background: none;
+            color: rgba(255, 255, 255, 0.6);
+            text-decoration: underline;
+            font-weight: 400;
+          }
+          @keyframes fadeIn {
+            from { opacity: 0; }
+            to { opacity: 1; }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="panel">
+          <div class="title">${safeAppName} is blocked</div>
+          <div class="body">It isn't in your ${listName}. Switch to an allowed app to get back to work.</div>
+          ${reasonGate}
+          <button id="end-focus" class="link">End Focus Mode</button>
+        </div>
+        <script>
+          const { ipcRenderer } = require('electron');
+          const minLength = ${Number(minReasonLength) || 0};
+          let secondsLeft = ${Number(waitSeconds) || 0};
+          
+          function sendOverride(action, reason) {
+            ipcRenderer.send('focus-block-override', { appName: ${JSON.stringify(String(appName || '')).replace(/</g, '\\u003c')}, action, reason });
+          }
+          
+          document.getElementById('end-focus').addEventListener('click', () => sendOverride('end-focus-mode', ''));
+          
+          const reasonInput = document.getElementById('reason');
+          if (reasonInput) {
+            const counter = document.getElementById('counter');
+            const continueButton = document.getElementById('continue');
+            
+            const refresh = () => {
+              const length = reasonInput.value.trim().length;
+              counter.textContent = secondsLeft > 0
+                ? length + ' / ' + minLength + ' - wait ' + secondsLeft + 's'
+                : length + ' / ' + minLength;
+              continueButton.disabled = length < minLength || secondsLeft > 0;
+            };
+            
+            // Escalating cool-down before the gate can be passed
+            const timer = setInterval(() => {
+              secondsLeft = Math.max(0, secondsLeft - 1);
+              refresh();
+              if (secondsLeft === 0) clearInterval(timer);
+            }, 1000);
+            
+            reasonInput.addEventListener('input', refresh);
+            continueButton.addEventListener('click', () => sendOverride('reason', reasonInput.value.trim()));
+            reasonInput.focus();
+            refresh();
+          }
+        </script>
+      </body>
+      </html>
+    `;
+    
+    focusBlockWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(blockContent)}`);
+    focusBlockWindow.setAlwaysOnTop(true, 'screen-saver', 2);
+    focusBlockWindow.show();
+    focusBlockWindow.moveTop();
+    
+    console.log(`Blocking ${appName} with ${mode} overlay`);
+  } catch (error) {
+    console.error("Error showing focus block:", error);
+    showFocusPopup("Focus Mode Alert", `${appName} is not in your whitelist.`, `focus-block-${Date.now()}`, 'text');
+  }
+}
+
+function hideFocusBlock() {
+  if (focusBlockWindow && !focusBlockWindow.isDestroyed()) {
+    focusBlockWindow.hide();
+  }
+  focusBlockState = null;
+}
+
 function createTray() {
   try {
     // Use a proper icon path that works in production
@@ -237,6 +507,27 @@ function updateTrayMenu() {
         label: isFocusMode ? 'Disable Focus Mode' : 'Enable Focus Mode', 
         click: toggleFocusMode 
       },
+      {
+        label: 'Pomodoro',
+        submenu: buildPomodoroMenu()
+      },
+      {
+        label: 'Eye Care',
+        submenu: buildEyeCareMenu()
+      },
+      ...buildCameraMenu(),
+      {
+        label: 'Whitelist Profile',
+        submenu: buildWhitelistProfileMenu()
+      },
+      {
+        label: 'Focus Schedules',
+        submenu: buildFocusScheduleMenu()
+      },
+      {
+        label: 'Do Not Disturb',
+        submenu: buildDoNotDisturbMenu()
+      },
       { 
         label: 'Show Test Notification', 
         click: () => showNotification("Test", "This is a test notification") 
@@ -254,6 +545,415 @@ function updateTrayMenu() {
   }
 }
 
+// Pause or resume the camera behind the blink and posture monitors, shown only
+// while one of them is on
+function buildCameraMenu() {
+  if (!cameraState.isActive) return [];
+  
+  return [{
+    label: cameraState.isPaused ? 'Resume Camera' : 'Pause Camera',
+    click: () => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('camera-pause', { paused: !cameraState.isPaused });
+      }
+    }
+  }];
+}
+
+// Build the tray submenu for switching whitelist profiles
+function buildWhitelistProfileMenu() {
+  const { profiles, activeProfileId } = whitelistProfiles;
+  
+  if (profiles.length === 0) {
+    return [{ label: 'Default', type: 'radio', checked: true, enabled: false }];
+  }
+  
+  return profiles.map(profile => ({
+    label: profile.name,
+    type: 'radio',
+    checked: profile.id === activeProfileId,
+    click: () => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('set-whitelist-profile', profile.id);
+      }
+    }
+  }));
+}
+
+const SNOOZE_MINUTES = [5, 10, 30];
+
+const DO_NOT_DISTURB_OPTIONS = [
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '2 hours', minutes: 120 },
+  { label: 'Until turned off', minutes: null }
+];
+
+// Build the tray submenu for silencing every reminder for a while
+function buildDoNotDisturbMenu() {
+  if (!doNotDisturb) {
+    return [{ label: 'Not available', enabled: false }];
+  }
+  
+  const { isActive, until } = doNotDisturb.getState();
+  const status = !isActive
+    ? 'Off'
+    : until
+      ? `On until ${new Date(until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : 'On until turned off';
+  
+  const items = [
+    { label: status, enabled: false },
+    { type: 'separator' },
+    ...DO_NOT_DISTURB_OPTIONS.map(option => ({
+      label: option.label,
+      click: () => doNotDisturb.enable(option.minutes)
+    }))
+  ];
+  
+  if (isActive) {
+    items.push({ type: 'separator' });
+    items.push({ label: 'Turn Off', click: () => doNotDisturb.disable() });
+  }
+  
+  return items;
+}
+
+// Build the tray submenu listing the renderer's focus schedules
+function buildFocusScheduleMenu() {
+  const { schedules, nextScheduleName, nextScheduleStart } = focusSchedules;
+  
+  if (schedules.length === 0) {
+    return [{ label: 'No schedules - add them in Settings', enabled: false }];
+  }
+  
+  const items = schedules.map(schedule => ({
+    label: `${schedule.isRunning ? '● ' : ''}${schedule.name} (${schedule.summary})`,
+    type: 'checkbox',
+    checked: schedule.isActive,
+    click: () => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('toggle-focus-schedule', schedule.id);
+      }
+    }
+  }));
+  
+  if (nextScheduleName && nextScheduleStart) {
+    const startLabel = new Date(nextScheduleStart).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+    items.push({ type: 'separator' });
+    items.push({ label: `Next: ${nextScheduleName}, ${startLabel}`, enabled: false });
+  }
+  
+  return items;
+}
+
+const POMODORO_PHASE_LABELS = { focus: 'Focus', break: 'Break', long_break: 'Long Break' };
+
+// The tray menu is only rebuilt when the minute changes, so show whole minutes
+const formatRemainingTime = (remainingMs) => `${Math.ceil(remainingMs / 60000)} min`;
+
+// Build the tray submenu controlling the Pomodoro timer
+function buildPomodoroMenu() {
+  if (!timerEngine) {
+    return [{ label: 'Timer not running', enabled: false }];
+  }
+  
+  const { pomodoro } = timerEngine.getState();
+  const status = `${POMODORO_PHASE_LABELS[pomodoro.phase]} · ${formatRemainingTime(pomodoro.remainingMs)} left${pomodoro.isRunning ? '' : ' (paused)'}`;
+  
+  return [
+    { label: status, enabled: false },
+    { type: 'separator' },
+    {
+      label: pomodoro.isRunning ? 'Pause' : 'Start',
+      click: () => pomodoro.isRunning ? timerEngine.pauseTimer('pomodoro') : timerEngine.startTimer('pomodoro')
+    },
+    {
+      label: pomodoro.phase === 'focus' ? 'Skip to Break' : 'Skip to Focus',
+      click: () => timerEngine.skipPhase('pomodoro')
+    },
+    { label: 'Reset', click: () => timerEngine.resetTimer('pomodoro') }
+  ];
+}
+
+// Build the tray submenu controlling the eye care timer
+function buildEyeCareMenu() {
+  if (!timerEngine) {
+    return [{ label: 'Timer not running', enabled: false }];
+  }
+  
+  const { eyeCare } = timerEngine.getState();
+  const isResting = eyeCare.phase !== 'work';
+  const restLabel = eyeCare.phase === 'long_rest' ? 'Long break' : 'Resting';
+  const status = `${isResting ? restLabel : 'Next break in'} ${formatRemainingTime(eyeCare.remainingMs)}${eyeCare.isRunning ? '' : ' (paused)'}`;
+  
+  const items = [
+    { label: status, enabled: false },
+    { type: 'separator' },
+    {
+      label: eyeCare.isRunning ? 'Pause' : 'Start',
+      click: () => eyeCare.isRunning ? timerEngine.pauseTimer('eyeCare') : timerEngine.startTimer('eyeCare')
+    },
+    {
+      label: isResting ? 'Skip Break' : 'Take Break Now',
+      click: () => timerEngine.skipPhase('eyeCare')
+    }
+  ];
+  
+  if (isResting) {
+    items.push({
+      label: 'Snooze',
+      submenu: SNOOZE_MINUTES.map(minutes => ({
+        label: `${minutes} min`,
+        click: () => timerEngine.snoozeBreak(minutes)
+      }))
+    });
+  }
+  
+  items.push({ label: 'Reset', click: () => timerEngine.resetTimer('eyeCare', 'work') });
+  return items;
+}
+
+// Rebuilding the tray menu every second is wasteful, so only do it when
+// what the timer submenus show has changed
+function updateTimerTrayMenu(state) {
+  const key = ['pomodoro', 'eyeCare'].map(name => {
+    const timer = state[name];
+    return `${timer.phase}:${timer.isRunning}:${Math.ceil(timer.remainingMs / 60000)}`;
+  }).join('|');
+  
+  if (key !== lastTimerMenuKey) {
+    lastTimerMenuKey = key;
+    updateTrayMenu();
+  }
+}
+
+// Run the timers in the main process and mirror their state to the dashboard
+function startTimerEngine() {
+  try {
+    timerEngine = new TimerEngine({
+      statePath: path.join(app.getPath('userData'), 'timer-state.json')
+    });
+    
+    timerEngine.on('change', (state) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('timer-state', state);
+      }
+      updateTimerTrayMenu(state);
+    });
+    
+    timerEngine.on('phase-ended', (event) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('timer-phase-ended', event);
+      }
+      
+      // The dashboard shows its own toast, which can't be seen while it's hidden
+      const isHidden = !mainWindow || mainWindow.isDestroyed() || !mainWindow.isVisible();
+      if (isHidden && event.timer === 'eyeCare' && event.reason === 'completed') {
+        const reminder = { source: 'eye_care', canSkip: true };
+        if (event.nextPhase === 'long_rest') {
+          showNotification("Time for a longer break", "Stand up, stretch and give your eyes a rest.", null, reminder);
+        } else if (event.nextPhase === 'rest') {
+          showNotification("Eye Care Break", "Time to rest your eyes! Look 20ft away for a moment.", null, reminder);
+        }
+      }
+      
+      if (isHidden && event.timer === 'pomodoro' && event.reason === 'completed') {
+        if (event.phase === 'focus') {
+          showNotification(
+            event.nextPhase === 'long_break' ? "Time for a long break" : "Time for a break",
+            "Focus session complete. Take a moment to rest your eyes and stretch.",
+            null,
+            { source: 'pomodoro', canSkip: true }
+          );
+        } else {
+          showNotification("Break time is over!", "Time to get back to work!", null, { source: 'pomodoro' });
+        }
+      }
+    });
+    
+    timerEngine.start();
+  } catch (error) {
+    console.error("Error starting timer engine:", error);
+  }
+}
+
+// Forward system idle, lock and suspend to the dashboard and pause the timers
+function startIdleMonitor() {
+  try {
+    idleMonitor = new IdleMonitor();
+    
+    idleMonitor.on('away', ({ reason, since }) => {
+      console.log(`User away (${reason}) since ${new Date(since).toLocaleTimeString()}`);
+      if (timerEngine) {
+        timerEngine.handleAway(since);
+      }
+      
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('system-idle-changed', { isAway: true, reason, since });
+      }
+    });
+    
+    idleMonitor.on('return', ({ reason, since, at, duration }) => {
+      console.log(`User back after ${Math.round(duration / 1000)}s (${reason})`);
+      const wasPomodoroPaused = timerEngine ? timerEngine.handleReturn(duration) : false;
+      
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('system-idle-changed', { isAway: false, reason, since, at });
+      }
+      
+      if (wasPomodoroPaused) {
+        showNotification("Welcome back", "Your Pomodoro was paused while you were away. Resume it when you're ready.", null, { source: 'pomodoro' });
+      }
+    });
+    
+    idleMonitor.start();
+  } catch (error) {
+    console.error("Error starting idle monitor:", error);
+  }
+}
+
+// Keep the dashboard and tray in step with Do Not Disturb, including when it runs out
+function startDoNotDisturb() {
+  try {
+    doNotDisturb = new DoNotDisturb({
+      statePath: path.join(app.getPath('userData'), 'dnd-state.json')
+    });
+    
+    doNotDisturb.on('change', (state) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('dnd-state', state);
+      }
+      updateTrayMenu();
+    });
+    
+    doNotDisturb.start();
+    updateTrayMenu();
+  } catch (error) {
+    console.error("Error starting Do Not Disturb:", error);
+  }
+}
+
+const isDoNotDisturbActive = () => Boolean(doNotDisturb && doNotDisturb.isActive());
+
+const QUIET_RELEASE_SPACING = 10000;
+
+// Keep the dashboard told about quiet periods, and show what was held back
+// once one is over, a few seconds apart
+function startQuietMode() {
+  try {
+    quietMode = new QuietMode();
+    
+    quietMode.on('change', (state) => {
+      console.log(state.isActive ? `Quiet mode on (${state.reason})` : 'Quiet mode off');
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('quiet-mode-state', state);
+      }
+    });
+    
+    quietMode.on('release', (reminders) => {
+      reminders.forEach((reminder, index) => {
+        setTimeout(() => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('reminder-released', {
+              notificationId: reminder.notificationId,
+              source: reminder.source,
+              time: Date.now()
+            });
+          }
+          if (reminder.kind === 'popup') {
+            showFocusPopup(reminder.title, reminder.body, reminder.notificationId, reminder.mediaType, reminder.mediaContent, reminder.source);
+          } else {
+            showNotification(reminder.title, reminder.body, reminder.notificationId, { source: reminder.source, canSkip: reminder.canSkip });
+          }
+        }, index * QUIET_RELEASE_SPACING);
+      });
+    });
+  } catch (error) {
+    console.error("Error starting quiet mode:", error);
+  }
+}
+
+const isQuietModeActive = () => Boolean(quietMode && quietMode.isActive());
+
+// Hold a reminder back until quiet mode is over, and tell the dashboard so the
+// notification center shows it as waiting. It's told again once it's released.
+function deferReminder(reminder) {
+  quietMode.defer(reminder);
+  
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('reminder-deferred', {
+      notificationId: reminder.notificationId,
+      source: reminder.source,
+      title: reminder.title,
+      body: reminder.body,
+      reason: quietMode.reason,
+      time: Date.now()
+    });
+  }
+}
+
+// Handle a button on a reminder window: snooze, skip, Do Not Disturb, or just
+// closing it. Eye care and Pomodoro breaks are snoozed and skipped on the timers
+// themselves; other reminders are shown again once the snooze is up.
+function handleReminderAction({ notificationId, action, minutes } = {}) {
+  const reminder = activeReminders.get(notificationId);
+  if (!reminder) return;
+  
+  activeReminders.delete(notificationId);
+  const state = timerEngine ? timerEngine.getState() : null;
+  const isEyeCareResting = state && state.eyeCare.phase !== 'work';
+  const isPomodoroBreak = state && state.pomodoro.phase !== 'focus';
+  
+  switch (action) {
+    case 'snoozed':
+      if (reminder.source === 'eye_care' && isEyeCareResting) {
+        timerEngine.snoozeBreak(minutes);
+      } else {
+        setTimeout(() => {
+          showNotification(reminder.title, reminder.body, null, reminder);
+        }, minutes * 60000);
+      }
+      break;
+    case 'skipped':
+      if (reminder.source === 'eye_care' && isEyeCareResting) {
+        timerEngine.skipPhase('eyeCare');
+      } else if (reminder.source === 'pomodoro' && isPomodoroBreak) {
+        timerEngine.skipPhase('pomodoro');
+      }
+      break;
+    case 'dnd':
+      if (doNotDisturb) {
+        doNotDisturb.enable(minutes || 60);
+      }
+      break;
+  }
+  
+  // Every choice is recorded by the dashboard for compliance stats
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('reminder-action', {
+      notificationId,
+      source: reminder.source,
+      action,
+      minutes: minutes || null,
+      time: Date.now()
+    });
+  }
+}
+
+// Reminders Do Not Disturb holds back still count in the dashboard's compliance stats
+function reportSuppressedReminder(source, title, body, notificationId) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('reminder-suppressed', {
+      notificationId: notificationId || null,
+      source,
+      title,
+      body,
+      time: Date.now()
+    });
+  }
+}
+
 function startActiveWindowMonitoring() {
   // Clear any existing interval
   if (activeWindowInterval) {
@@ -270,15 +970,31 @@ function startActiveWindowMonitoring() {
       const now = Date.now();
       
       if (activeWindow) {
+        // For browsers, work out which site is showing so it can be tracked like an app
+        const site = browserBridge ? browserBridge.resolveSite(activeWindow.owner?.name, activeWindow.title) : null;
+        const domain = site?.domain || null;
+        
         // Calculate time spent in this window
         let timeInWindow = 0;
-        if (lastActiveWindow && lastActiveWindow.owner?.path === activeWindow.owner?.path) {
+        if (lastActiveWindow && lastActiveWindow.owner?.path === activeWindow.owner?.path && lastActiveWindow.domain === domain) {
           timeInWindow = now - lastActiveWindowTime;
         } else {
           lastActiveWindowTime = now;
         }
         
-        lastActiveWindow = activeWindow;
+        lastActiveWindow = { ...activeWindow, domain };
+        
+        // Remember where the last non-companion window was, for placing the block overlay
+        if (activeWindow.owner?.processId !== process.pid && activeWindow.bounds) {
+          lastExternalWindowBounds = activeWindow.bounds;
+        }
+        
+        if (quietMode) {
+          quietMode.update(
+            { title: activeWindow.title, ownerName: activeWindow.owner?.name, url: site?.url || activeWindow.url, bounds: activeWindow.bounds },
+            activeWindow.bounds ? screen.getDisplayMatching(activeWindow.bounds).bounds : null
+          );
+        }
         
         // Enhanced window info with better app detection
         const windowInfo = {
@@ -289,7 +1005,11 @@ function startActiveWindowMonitoring() {
             bundleId: activeWindow.owner?.bundleId || '',
             processId: activeWindow.owner?.processId || 0
           },
-          appName: activeWindow.owner?.name || extractAppFromTitle(activeWindow.title),
+          appName: domain || activeWindow.owner?.name || extractAppFromTitle(activeWindow.title),
+          domain,
+          url: site?.url || null,
+          browser: site?.browser || null,
+          siteSource: site?.source || null,
           timeActive: timeInWindow,
           timestamp: now
         };
@@ -305,6 +1025,18 @@ function startActiveWindowMonitoring() {
   }, 500); // Reduced interval for better responsiveness
 }
 
+// Start the loopback endpoint the companion browser extension reports tabs to
+function startBrowserBridge() {
+  try {
+    browserBridge = new BrowserBridge({
+      port: Number(process.env.BROWSER_BRIDGE_PORT) || 37891
+    });
+    browserBridge.start();
+  } catch (error) {
+    console.error("Error starting browser bridge:", error);
+  }
+}
+
 // Helper function to extract app name from window title
 function extractAppFromTitle(title) {
   if (!title) return 'Unknown';
@@ -314,34 +1046,6 @@ function extractAppFromTitle(title) {
   return appNameMatches?.[1]?.trim() || title.trim();
 }
 
-function initializeBlinkDetection() {
-  try {
-    blinkDetector = new BlinkDetector();
-    blinkDetector.on('blink', () => {
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send('blink-detected');
-      }
-    });
-    
-    if (isMonitoring) {
-      blinkDetector.start();
-    }
-    
-    // Set up automatic eye care reminders (20-20-20 rule)
-    setInterval(() => {
-      if (isMonitoring) {
-        showNotification("Eye Care Reminder", "Remember to blink and look 20ft away for 20 seconds.");
-        
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('eye-care-reminder');
-        }
-      }
-    }, 20 * 60 * 1000); // Every 20 minutes
-  } catch (error) {
-    console.error("Error initializing blink detection:", error);
-  }
-}
-
 function toggleMonitoring() {
   isMonitoring = !isMonitoring;
   
@@ -351,14 +1055,15 @@ function toggleMonitoring() {
       activeWindowInterval = null;
     }
     
-    if (blinkDetector) {
-      blinkDetector.stop();
+    // Eye care reminders come from the eye care timer, so pausing monitoring pauses it
+    if (timerEngine) {
+      timerEngine.pauseTimer('eyeCare');
     }
   } else {
     startActiveWindowMonitoring();
     
-    if (blinkDetector) {
-      blinkDetector.start();
+    if (timerEngine) {
+      timerEngine.startTimer('eyeCare');
     }
   }
   
@@ -369,6 +1074,10 @@ function toggleMonitoring() {
 function toggleFocusMode() {
   isFocusMode = !isFocusMode;
   
+  if (!isFocusMode) {
+    hideFocusBlock();
+  }
+  
   // Update the tray menu to reflect the new state
   updateTrayMenu();
   
@@ -384,11 +1093,36 @@ function toggleFocusMode() {
   );
 }
 
+// Snooze, skip and Do Not Disturb buttons for a reminder window. Each window
+// defines its own sendAction(action, minutes) to report the choice back.
+function buildReminderActionsHtml(canSkip) {
+  const snoozeButtons = SNOOZE_MINUTES.map(minutes =>
+    `<button class="action-button" onclick="sendAction('snoozed', ${minutes})">Snooze ${minutes}m</button>`
+  ).join('');
+  const skipButton = canSkip
+    ? `<button class="action-button" onclick="sendAction('skipped')">Skip break</button>`
+    : '';
+  
+  return `${snoozeButtons}${skipButton}<button class="action-button" onclick="sendAction('dnd', 60)">Do not disturb 1h</button>`;
+}
+
 // Improved function to show focus popup with rich media
-function showFocusPopup(title, body, notificationId, mediaType = 'image', mediaContent = '') {
+function showFocusPopup(title, body, notificationId, mediaType = 'image', mediaContent = '', source = 'focus_alert') {
   try {
     console.log(`Showing focus popup: ${title} - ${body}`);
     
+    if (isDoNotDisturbActive()) {
+      console.log(`Do Not Disturb is on, not showing focus popup: ${title}`);
+      reportSuppressedReminder(source, title, body, notificationId);
+      return;
+    }
+    
+    if (isQuietModeActive()) {
+      console.log(`Quiet mode is on, deferring focus popup: ${title}`);
+      deferReminder({ kind: 'popup', source, title, body, notificationId: notificationId || `focus-popup-${Date.now()}`, mediaType, mediaContent });
+      return;
+    }
+    
     if (notificationId && notificationId === lastProcessedNotificationId) {
       console.log(`Skipping duplicate notification with ID: ${notificationId}`);
       return;
@@ -396,6 +1130,7 @@ function showFocusPopup(title, body, notificationId, mediaType = 'image', mediaC
     
     const effectiveNotificationId = notificationId || `focus-popup-${Date.now()}`;
     lastProcessedNotificationId = effectiveNotificationId;
+    activeReminders.set(effectiveNotificationId, { title, body, source, canSkip: false });
     
     if (!focusPopupWindow || focusPopupWindow.isDestroyed()) {
       createFocusPopupWindow();
@@ -475,10 +1210,24 @@ function showFocusPopup(title, body, notificationId, mediaType = 'image', mediaC
             }
             .button-container {
               display: flex;
+              flex-wrap: wrap;
               justify-content: flex-end;
+              gap: 8px;
               padding: 16px 24px 24px;
               background: rgba(0, 0, 0, 0.95);
             }
+            .action-button {
+              background: rgba(255, 255, 255, 0.15);
+              border: none;
+              color: white;
+              padding: 12px 14px;
+              border-radius: 8px;
+              cursor: pointer;
+              font-size: 13px;
+            }
+            .action-button:hover {
+              background: rgba(255, 255, 255, 0.25);
+            }
             .close-button {
               background: linear-gradient(135deg, #FF9500, #FF7A00);
               border: none;
@@ -514,20 +1263,24 @@ function showFocusPopup(title, body, notificationId, mediaType = 'image', mediaC
             <div class="body">${body}</div>
           </div>
           <div class="button-container">
-            <button class="close-button" onclick="closeNotification()">Dismiss</button>
+            ${buildReminderActionsHtml(false)}
+            <button class="close-button" onclick="sendAction('dismissed')">Dismiss</button>
           </div>
           <script>
-            setTimeout(() => {
-              closeNotification();
+            const notificationId = ${JSON.stringify(effectiveNotificationId)};
+            const autoCloseTimeout = setTimeout(() => {
+              sendAction('expired');
             }, 8000);
             
-            function closeNotification() {
+            function sendAction(action, minutes) {
+              clearTimeout(autoCloseTimeout);
+              require('electron').ipcRenderer.send('notification-action', { notificationId, action, minutes });
               window.close();
             }
             
             document.body.addEventListener('click', (e) => {
-              if (!e.target.classList.contains('close-button')) {
-                closeNotification();
+              if (e.target.tagName !== 'BUTTON') {
+                sendAction('dismissed');
               }
             });
           </script>
@@ -553,15 +1306,33 @@ function showFocusPopup(title, body, notificationId, mediaType = 'image', mediaC
     }
   } catch (error) {
     console.error("Error showing focus popup:", error);
-    showNotification(title, body, notificationId);
+    showNotification(title, body, notificationId, { source });
   }
 }
 
-// Function to show center-screen notifications
-function showNotification(title, body, notificationId = null) {
+// Function to show center-screen notifications. Reminders (any source other
+// than 'general') get snooze and Do Not Disturb buttons, and are held back
+// while Do Not Disturb is on.
+function showNotification(title, body, notificationId = null, options = {}) {
+  const { source = 'general', canSkip = false } = options;
+  const isReminder = source !== 'general';
+  
   try {
     console.log(`Showing notification: ${title} - ${body}`);
     
+    if (isReminder && isDoNotDisturbActive()) {
+      console.log(`Do Not Disturb is on, not showing ${source} reminder: ${title}`);
+      reportSuppressedReminder(source, title, body, notificationId);
+      return;
+    }
+    
+    // Held back rather than dropped, so it's shown once the meeting is over
+    if (isReminder && isQuietModeActive()) {
+      console.log(`Quiet mode is on, deferring ${source} reminder: ${title}`);
+      deferReminder({ kind: 'notification', source, title, body, notificationId: notificationId || `${source}-${Date.now()}`, canSkip });
+      return;
+    }
+    
     // Check if we've already processed this notification ID to prevent duplicates
     if (notificationId && notificationId === lastProcessedNotificationId) {
       console.log(`Skipping duplicate notification with ID: ${notificationId}`);
@@ -573,6 +1344,12 @@ function showNotification(title, body, notificationId = null) {
       lastProcessedNotificationId = notificationId;
     }
     
+    // Reminders need an ID so the buttons can say which one they belong to
+    if (isReminder) {
+      notificationId = notificationId || `${source}-${Date.now()}`;
+      activeReminders.set(notificationId, { title, body, source, canSkip });
+    }
+    
     // Ensure the notification window exists
     if (!notificationWindow || notificationWindow.isDestroyed()) {
       createNotificationWindow();
@@ -584,10 +1361,14 @@ function showNotification(title, body, notificationId = null) {
     
     // Center the notification window
     if (notificationWindow) {
+      // Reminders need room for their buttons
+      const windowHeight = isReminder ? 200 : 150;
+      notificationWindow.setSize(420, windowHeight);
+      
       // Position notification at the top center of the active window's screen
       notificationWindow.setPosition(
         Math.floor((width - 420) / 2),
-        Math.floor((height - 150) / 5) // Position more towards the top for better visibility
+        Math.floor((height - windowHeight) / 5) // Position more towards the top for better visibility
       );
       
       // Create HTML content for the notification
@@ -626,9 +1407,23 @@ function showNotification(title, body, notificationId = null) {
             }
             .button-container {
               display: flex;
+              flex-wrap: wrap;
               justify-content: flex-end;
+              gap: 6px;
               padding: 8px 16px 16px;
             }
+            .action-button {
+              background: rgba(255, 149, 0, 0.25);
+              border: none;
+              color: white;
+              padding: 6px 10px;
+              border-radius: 4px;
+              cursor: pointer;
+              font-size: 13px;
+            }
+            .action-button:hover {
+              background: rgba(255, 149, 0, 0.4);
+            }
             .close-button {
               background: rgba(255, 255, 255, 0.2);
               border: none;
@@ -654,18 +1449,34 @@ function showNotification(title, body, notificationId = null) {
           <div class="content">
             <div class="title">${title}</div>
             <div class="body">${body}</div>
-            <div class="notification-id">${notificationId || ''}</div>
+            <div class="notification-id">${escapeHtml(notificationId)}</div>
           </div>
           <div class="button-container">
-            <button class="close-button" onclick="closeNotification()">Dismiss</button>
+            ${isReminder ? buildReminderActionsHtml(canSkip) : ''}
+            <button class="close-button" onclick="closeNotification('dismissed')">Dismiss</button>
           </div>
           <script>
+            const isReminder = ${isReminder};
+            
             // Auto-close after 8 seconds
             const autoCloseTimeout = setTimeout(() => {
-              closeNotification();
+              closeNotification('expired');
             }, 8000);
             
-            function closeNotification() {
+            function sendAction(action, minutes) {
+              clearTimeout(autoCloseTimeout);
+              const notificationId = document.querySelector('.notification-id').textContent;
+              window.electron.send('notification-action', { notificationId, action, minutes });
+              window.close();
+            }
+            
+            function closeNotification(reason) {
+              // Reminders report whether they were dismissed or just timed out
+              if (isReminder) {
+                sendAction(reason);
+                return;
+              }
+              
               clearTimeout(autoCloseTimeout);
               // Send notification ID back to main process when dismissed
               const notificationId = document.querySelector('.notification-id').textContent;
@@ -677,8 +1488,8 @@ function showNotification(title, body, notificationId = null) {
             
             // Allow clicking anywhere to close
             document.body.addEventListener('click', (e) => {
-              if (!e.target.classList.contains('close-button')) {
-                closeNotification();
+              if (e.target.tagName !== 'BUTTON') {
+                closeNotification('dismissed');
               }
             });
           </script>
@@ -785,9 +1596,79 @@ ipcMain.on('set-tray-icon', (event, iconType) => {
 });
 
 // Add handler for native notifications
-ipcMain.on('show-native-notification', (event, {title, body, notificationId}) => {
+ipcMain.on('show-native-notification', (event, {title, body, notificationId, source, canSkip}) => {
   console.log(`IPC notification received: ${title} - ${body}`);
-  showNotification(title, body, notificationId);
+  showNotification(title, body, notificationId, { source, canSkip });
+});
+
+// Snooze, skip, Do Not Disturb or dismissal from a reminder window:
+// { notificationId, action, minutes? }
+ipcMain.on('notification-action', (event, data) => {
+  if (!data || !data.notificationId) return;
+  
+  console.log(`Reminder ${data.notificationId}: ${data.action}`);
+  handleReminderAction(data);
+  
+  // Anything that closes a reminder also counts as dismissing it
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('notification-dismissed', data.notificationId);
+  }
+  lastProcessedNotificationId = data.notificationId;
+});
+
+// Do Not Disturb from the dashboard: { action: 'enable' | 'disable', minutes? }
+ipcMain.on('dnd-command', (event, data) => {
+  if (!doNotDisturb || !data) return;
+  
+  if (data.action === 'enable') {
+    doNotDisturb.enable(data.minutes || null);
+  } else if (data.action === 'disable') {
+    doNotDisturb.disable();
+  }
+});
+
+// Turn automatic quiet periods on or off: { enabled }
+ipcMain.on('quiet-mode-configure', (event, data) => {
+  if (quietMode && data) {
+    quietMode.setEnabled(data.enabled);
+  }
+});
+
+ipcMain.on('get-quiet-mode-state', () => {
+  if (quietMode && mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('quiet-mode-state', quietMode.getState());
+  }
+});
+
+ipcMain.on('get-dnd-state', () => {
+  if (doNotDisturb && mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('dnd-state', doNotDisturb.getState());
+  }
+});
+
+// The signed-in session lives here rather than in the renderer. It is created
+// on first use because safeStorage can only be checked once the app is ready.
+const getSessionStore = () => {
+  if (!sessionStore) {
+    sessionStore = new SessionStore({
+      filePath: path.join(app.getPath('userData'), 'session.bin'),
+      safeStorage
+    });
+  }
+  return sessionStore;
+};
+
+ipcMain.on('get-auth-session', (event) => {
+  event.sender.send('auth-session', getSessionStore().get());
+});
+
+// { user, token, expiresAt, refreshToken, refreshExpiresAt }, saved after sign-in and every refresh
+ipcMain.on('set-auth-session', (event, session) => {
+  getSessionStore().set(session);
+});
+
+ipcMain.on('clear-auth-session', () => {
+  getSessionStore().clear();
 });
 
 // Add handler for dismissing notifications
@@ -806,15 +1687,110 @@ ipcMain.on('notification-dismissed', (event, notificationId) => {
 // Add handler for focus mode toggle from renderer
 ipcMain.on('toggle-focus-mode', (event, enableFocusMode) => {
   isFocusMode = enableFocusMode;
+  if (!isFocusMode) {
+    hideFocusBlock();
+  }
   updateTrayMenu();
   console.log(`Focus mode ${isFocusMode ? 'enabled' : 'disabled'} from renderer`);
 });
 
+// Block mode enforcement for Focus Mode
+ipcMain.on('show-focus-block', (event, data) => {
+  if (!isFocusMode || !data?.appName) return;
+  showFocusBlock(data);
+});
+
+ipcMain.on('hide-focus-block', () => {
+  hideFocusBlock();
+});
+
+// Sent from the block overlay when the user gets past it
+ipcMain.on('focus-block-override', (event, data) => {
+  const blockedMode = focusBlockState?.mode || 'overlay';
+  hideFocusBlock();
+  
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('focus-block-overridden', {
+      appName: data?.appName || '',
+      action: data?.action || 'reason',
+      reason: data?.reason || '',
+      mode: blockedMode,
+      timestamp: Date.now()
+    });
+  }
+});
+
+ipcMain.on('update-whitelist-profiles', (event, data) => {
+  whitelistProfiles = {
+    profiles: Array.isArray(data?.profiles) ? data.profiles : [],
+    activeProfileId: data?.activeProfileId || null
+  };
+  updateTrayMenu();
+});
+
+ipcMain.on('camera-state', (event, data) => {
+  cameraState = {
+    isActive: Boolean(data?.isActive),
+    isPaused: Boolean(data?.isPaused)
+  };
+  updateTrayMenu();
+});
+
+ipcMain.on('update-focus-schedules', (event, data) => {
+  focusSchedules = {
+    schedules: Array.isArray(data?.schedules) ? data.schedules : [],
+    nextScheduleName: data?.nextScheduleName || null,
+    nextScheduleStart: data?.nextScheduleStart || null
+  };
+  updateTrayMenu();
+});
+
+// Timer commands from the dashboard: { timer: 'pomodoro' | 'eyeCare', action, phase?, minutes? }
+ipcMain.on('timer-command', (event, data) => {
+  if (!timerEngine || !data) return;
+  
+  const { timer, action, phase, minutes } = data;
+  switch (action) {
+    case 'start':
+      timerEngine.startTimer(timer);
+      break;
+    case 'pause':
+      timerEngine.pauseTimer(timer);
+      break;
+    case 'reset':
+      timerEngine.resetTimer(timer, phase);
+      break;
+    case 'skip':
+      timerEngine.skipPhase(timer);
+      break;
+    case 'snooze':
+      timerEngine.snoozeBreak(minutes);
+      break;
+    default:
+      console.warn(`Unknown timer command: ${action}`);
+  }
+});
+
+// Let a reloaded dashboard know whether the user is currently away
+ipcMain.on('get-idle-state', () => {
+  if (idleMonitor && mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('system-idle-changed', idleMonitor.getState());
+  }
+});
+
+// Timer durations from the dashboard settings. Also sent when the dashboard loads,
+// and answered with the current state.
+ipcMain.on('timer-configure', (event, settings) => {
+  if (timerEngine) {
+    timerEngine.configure(settings);
+  }
+});
+
 // Add handler for focus mode popups (rich media)
-ipcMain.on('show-focus-popup', (event, {title, body, notificationId, mediaType = 'image', mediaContent = ''}) => {
+ipcMain.on('show-focus-popup', (event, {title, body, notificationId, mediaType = 'image', mediaContent = '', source}) => {
   console.log(`IPC focus popup received: ${title} - ${body}`);
   console.log(`Media details - Type: ${mediaType}, Content: ${mediaContent}`);
-  showFocusPopup(title, body, notificationId, mediaType, mediaContent);
+  showFocusPopup(title, body, notificationId, mediaType, mediaContent, source);
 });
 
 app.whenReady().then(createWindow);
@@ -847,6 +1823,26 @@ app.on('before-quit', () => {
     activeWindowInterval = null;
   }
   
+  if (browserBridge) {
+    browserBridge.stop();
+  }
+  
+  if (timerEngine) {
+    timerEngine.stop();
+  }
+  
+  if (idleMonitor) {
+    idleMonitor.stop();
+  }
+  
+  if (doNotDisturb) {
+    doNotDisturb.stop();
+  }
+  
+  if (quietMode) {
+    quietMode.stop();
+  }
+  
   // Clean up the notification window
   if (notificationWindow && !notificationWindow.isDestroyed()) {
     notificationWindow.destroy();
@@ -856,6 +1852,11 @@ app.on('before-quit', () => {
   if (focusPopupWindow && !focusPopupWindow.isDestroyed()) {
     focusPopupWindow.destroy();
   }
+  
+  // Clean up the focus block overlay
+  if (focusBlockWindow && !focusBlockWindow.isDestroyed()) {
+    focusBlockWindow.destroy();
+  }
 });
 
 // Ensure the app doesn't quit when all windows are closed
@@ -890,8 +1891,8 @@ ipcMain.on('stabilize-window', () => {
 // Enhanced focus popup with better error handling
 ipcMain.on('show-focus-popup', (event, data) => {
   try {
-    const { title, body, notificationId, mediaType = 'image', mediaContent = '' } = data;
-    showFocusPopup(title, body, notificationId, mediaType, mediaContent);
+    const { title, body, notificationId, mediaType = 'image', mediaContent = '', source } = data;
+    showFocusPopup(title, body, notificationId, mediaType, mediaContent, source);
   } catch (error) {
     console.error('Error handling show-focus-popup:', error);
   }
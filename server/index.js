@@ -12,15 +12,16 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Synced preferences include custom rules, whose popups can carry images
+app.use(express.json({ limit: '5mb' }));
 
-// Connect to MongoDB
-console.log('Connecting to MongoDB...');
+// Connect to MongoDB, or the local file store without it
+console.log('Connecting to the data store...');
 connectDB().then(() => {
-  console.log('MongoDB connection established successfully');
+  console.log('Data store ready');
 }).catch(err => {
-  console.error('MongoDB connection error:', err);
-  process.exit(1); // Exit if MongoDB connection fails
+  console.error('Data store error:', err);
+  process.exit(1); // Exit if no store could be opened
 });
 
 // Routes
@@ -0,0 +1,26 @@
+const { verifyAccessToken } = require('../services/auth-tokens');
+
+// Require a valid "Authorization: Bearer <token>" header and put the signed-in
+// user's id on req.userId
+const requireAuth = (req, res, next) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  const claims = scheme === 'Bearer' ? verifyAccessToken(token) : null;
+
+  if (!claims) {
+    return res.status(401).json({ success: false, message: 'Not signed in or session expired' });
+  }
+
+  req.userId = claims.sub;
+  next();
+};
+
+// For routes under /:userId, only let users reach their own data
+const requireSameUser = (req, res, next) => {
+  if (req.params.userId !== req.userId) {
+    return res.status(403).json({ success: false, message: 'Not allowed to access another user\'s data' });
+  }
+  next();
+};
+
+module.exports = { requireAuth, requireSameUser };
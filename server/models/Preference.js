@@ -0,0 +1,29 @@
+const mongoose = require('mongoose');
+
+// Define the Preference schema. Each setting is stored under its own name as
+// { value, updatedAt, version } so devices can sync it separately, and the
+// document's version goes up with every change.
+const preferenceSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  version: {
+    type: Number,
+    default: 0
+  },
+  fields: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { minimize: false });
+
+// Create or get the model
+const Preference = mongoose.models.Preference || mongoose.model('Preference', preferenceSchema);
+
+module.exports = Preference;
@@ -1,20 +1,23 @@
-
 const mongoose = require('mongoose');
 
-// Define the Reset Request schema
+// Define the Reset Request schema. Only a hash of the code is kept.
 const resetRequestSchema = new mongoose.Schema({
   email: {
     type: String,
     required: true
   },
-  code: {
+  codeHash: {
     type: String,
     required: true
   },
-  timestamp: {
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
     type: Date,
-    default: Date.now,
-    expires: 3600 // Expire after 1 hour
+    required: true,
+    expires: 0 // Removed by MongoDB once expiresAt has passed
   }
 });
 
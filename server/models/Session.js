@@ -0,0 +1,32 @@
+const mongoose = require('mongoose');
+
+// Define the Session schema: one per signed-in device, holding a hash of its refresh token
+const sessionSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    expires: 0 // Removed by MongoDB once expiresAt has passed
+  }
+});
+
+// Create the Session model
+const Session = mongoose.model('Session', sessionSchema);
+
+module.exports = Session;
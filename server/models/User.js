@@ -18,7 +18,7 @@ const userSchema = new mongoose.Schema({
     unique: true
   },
   password: {
-    type: String,
+    type: String, // scrypt hash, see services/passwords.js
     required: true
   },
   createdAt: {
@@ -12,15 +12,32 @@ contextBridge.exposeInMainWorld('electron', {
       'set-tray-icon',
       'show-native-notification',
       'toggle-focus-mode',
+      'update-focus-schedules',
+      'update-whitelist-profiles',
       'save-timer-settings',
+      'timer-command',
+      'timer-configure',
+      'get-idle-state',
+      'camera-state',
       'get-active-window',
       'notification-dismissed',
+      'notification-action',
+      'dnd-command',
+      'get-dnd-state',
+      'quiet-mode-configure',
+      'get-quiet-mode-state',
+      'get-auth-session',
+      'set-auth-session',
+      'clear-auth-session',
       'show-focus-popup',
+      'show-focus-block',
+      'hide-focus-block',
       'stabilize-window' // Added for preventing glitches
     ];
     
     if (validSendChannels.includes(channel)) {
-      console.log(`Sending IPC message: ${channel}`, data);
+      // Never log the tokens in a session
+      console.log(`Sending IPC message: ${channel}`, channel === 'set-auth-session' ? '[session]' : data);
       ipcRenderer.send(channel, data);
     } else {
       console.warn(`Attempted to send to unauthorized channel: ${channel}`);
@@ -30,13 +47,25 @@ contextBridge.exposeInMainWorld('electron', {
     // List of allowed channels to receive data from main process
     const validReceiveChannels = [
       'active-window-changed', 
-      'blink-detected',
-      'eye-care-reminder',
       'focus-mode-changed',
+      'toggle-focus-schedule',
+      'set-whitelist-profile',
       'timer-settings-saved',
+      'timer-state',
+      'timer-phase-ended',
+      'system-idle-changed',
+      'camera-pause',
+      'dnd-state',
+      'quiet-mode-state',
+      'auth-session',
+      'reminder-action',
+      'reminder-suppressed',
+      'reminder-deferred',
+      'reminder-released',
       'notification-dismissed',
       'show-focus-popup',
-      'focus-popup-displayed'
+      'focus-popup-displayed',
+      'focus-block-overridden'
     ];
     
     if (validReceiveChannels.includes(channel)) {
@@ -1,30 +1,68 @@
-
 const express = require('express');
+const crypto = require('crypto');
 const router = express.Router();
 const { v4: uuidv4 } = require('uuid');
-const User = require('../models/User');
-const ResetRequest = require('../models/ResetRequest');
+const { getCollection } = require('../db/store');
+const { hashPassword, verifyPassword, isPasswordHash, hashCode, safeEqual } = require('../services/passwords');
+const { signAccessToken, createRefreshToken } = require('../services/auth-tokens');
+const { requireAuth } = require('../middleware/auth');
+
+const MIN_PASSWORD_LENGTH = 6; // Matches the signup form
+const RESET_CODE_LIFETIME = 60 * 60 * 1000; // 1 hour
+const MAX_RESET_ATTEMPTS = 5;
+
+const normalizeEmail = (email) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+// The user as sent to the client, without the password
+const toPublicUser = (user) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email
+});
+
+// Start a session for the user: a short-lived access token, and a refresh
+// token for getting new ones, whose hash is kept so it can be revoked
+const createSession = async (user) => {
+  const { token, expiresAt } = signAccessToken(user);
+  const { refreshToken, refreshExpiresAt } = createRefreshToken();
+
+  await getCollection('sessions').insertOne({
+    id: uuidv4(),
+    userId: user.id,
+    tokenHash: hashCode(refreshToken),
+    createdAt: new Date(),
+    expiresAt: new Date(refreshExpiresAt)
+  });
+
+  return { user: toPublicUser(user), token, expiresAt, refreshToken, refreshExpiresAt };
+};
+
+// Every successful sign-in gets the user and a fresh session
+const sendSession = async (res, status, user) => {
+  const session = await createSession(user);
+  res.status(status).json({ success: true, ...session });
+};
 
 // Login endpoint
 router.post('/login', async (req, res) => {
   try {
-    const { email, password } = req.body;
-    
+    const { password } = req.body;
+    const email = normalizeEmail(req.body.email);
+    const users = getCollection('users');
+
     // Find the user by email
-    const user = await User.findOne({ email });
-    
-    if (!user || user.password !== password) {
+    const user = await users.findOne({ email });
+
+    if (!user || !(await verifyPassword(password, user.password))) {
       return res.status(401).json({ success: false, message: 'Invalid email or password' });
     }
-    
-    // Return the user without the password
-    const userWithoutPassword = {
-      id: user.id,
-      name: user.name,
-      email: user.email
-    };
-    
-    res.status(200).json({ success: true, user: userWithoutPassword });
+
+    // Accounts from before passwords were hashed get hashed on their next login
+    if (!isPasswordHash(user.password)) {
+      await users.updateOne({ id: user.id }, { password: await hashPassword(password) });
+    }
+
+    await sendSession(res, 200, user);
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ success: false, message: 'An error occurred during login' });
@@ -34,66 +72,127 @@ router.post('/login', async (req, res) => {
 // Signup endpoint
 router.post('/signup', async (req, res) => {
   try {
-    const { name, email, password } = req.body;
-    
+    const { name, password } = req.body;
+    const email = normalizeEmail(req.body.email);
+
     console.log(`Signup request received for email: ${email}`);
-    
+
+    if (!name || !email || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Name, email and a password of at least ${MIN_PASSWORD_LENGTH} characters are required`
+      });
+    }
+
     // Check if user already exists
-    const existingUser = await User.findOne({ email });
+    const users = getCollection('users');
+    const existingUser = await users.findOne({ email });
     if (existingUser) {
       return res.status(409).json({ success: false, message: 'Email already in use' });
     }
-    
+
     // Create new user
-    const newUser = new User({
+    const newUser = await users.insertOne({
       id: uuidv4(),
-      name,
+      name: String(name).trim(),
       email,
-      password
+      password: await hashPassword(password),
+      createdAt: new Date()
     });
-    
-    await newUser.save();
+
     console.log(`New user saved with id: ${newUser.id}`);
-    
-    // Return the user without the password
-    const userWithoutPassword = {
-      id: newUser.id,
-      name: newUser.name,
-      email: newUser.email
-    };
-    
-    res.status(201).json({ success: true, user: userWithoutPassword });
+
+    await sendSession(res, 201, newUser);
   } catch (error) {
     console.error('Signup error:', error);
     res.status(500).json({ success: false, message: 'An error occurred during signup' });
   }
 });
 
+// Swap a refresh token for a new session. The old refresh token stops working,
+// so a stolen one can only be used once before the real owner notices.
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    const sessions = getCollection('sessions');
+    const session = typeof refreshToken === 'string'
+      ? await sessions.findOne({ tokenHash: hashCode(refreshToken) })
+      : null;
+
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+      return res.status(401).json({ success: false, message: 'Not signed in or session expired' });
+    }
+
+    await sessions.deleteOne({ id: session.id });
+
+    const user = await getCollection('users').findOne({ id: session.userId });
+    if (!user) {
+      return res.status(401).json({ success: false, message: 'Not signed in or session expired' });
+    }
+
+    await sendSession(res, 200, user);
+  } catch (error) {
+    console.error('Refresh error:', error);
+    res.status(500).json({ success: false, message: 'An error occurred while refreshing the session' });
+  }
+});
+
+// Sign out on this device by revoking its refresh token
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (typeof refreshToken === 'string') {
+      await getCollection('sessions').deleteOne({ tokenHash: hashCode(refreshToken) });
+    }
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ success: false, message: 'An error occurred during logout' });
+  }
+});
+
+// The signed-in user, e.g. to check a stored token is still good
+router.get('/me', requireAuth, async (req, res) => {
+  try {
+    const user = await getCollection('users').findOne({ id: req.userId });
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    res.status(200).json({ success: true, user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Get user error:', error);
+    res.status(500).json({ success: false, message: 'An error occurred while loading the user' });
+  }
+});
+
 // Forgot password endpoint
 router.post('/forgot-password', async (req, res) => {
   try {
-    const { email } = req.body;
-    
+    const email = normalizeEmail(req.body.email);
+
     // Check if user exists
-    const user = await User.findOne({ email });
+    const user = await getCollection('users').findOne({ email });
     if (!user) {
       return res.status(404).json({ success: false, message: 'No account found with this email' });
     }
-    
-    // Generate reset code
-    const resetCode = Math.floor(100000 + Math.random() * 900000).toString();
-    
-    // Save reset request
-    const resetRequest = new ResetRequest({
+
+    // Generate reset code. Only its hash is stored, and a new code replaces any earlier one.
+    const resetCode = crypto.randomInt(100000, 1000000).toString();
+    const resetRequests = getCollection('resetRequests');
+
+    await resetRequests.deleteMany({ email });
+    await resetRequests.insertOne({
       email,
-      code: resetCode
+      codeHash: hashCode(resetCode),
+      attempts: 0,
+      expiresAt: new Date(Date.now() + RESET_CODE_LIFETIME)
     });
-    
-    await resetRequest.save();
-    
+
     // In a real app, you would send an email here
     console.log(`Reset code for ${email}: ${resetCode}`);
-    
+
     res.status(200).json({ success: true, message: 'Reset code sent' });
   } catch (error) {
     console.error('Forgot password error:', error);
@@ -104,31 +203,46 @@ router.post('/forgot-password', async (req, res) => {
 // Reset password endpoint
 router.post('/reset-password', async (req, res) => {
   try {
-    const { email, code, newPassword } = req.body;
-    
-    // Find valid reset request
-    const resetRequest = await ResetRequest.findOne({
-      email,
-      code,
-      timestamp: { $gt: new Date(Date.now() - 3600000) } // Valid for 1 hour
-    });
-    
-    if (!resetRequest) {
+    const { code, newPassword } = req.body;
+    const email = normalizeEmail(req.body.email);
+
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      });
+    }
+
+    // Find the reset request, which only allows a few guesses before it's used up
+    const resetRequests = getCollection('resetRequests');
+    const resetRequest = await resetRequests.findOne({ email });
+
+    const isExpired = !resetRequest ||
+      new Date(resetRequest.expiresAt).getTime() <= Date.now() ||
+      resetRequest.attempts >= MAX_RESET_ATTEMPTS;
+
+    if (isExpired) {
+      return res.status(400).json({ success: false, message: 'Invalid or expired reset code' });
+    }
+
+    if (!safeEqual(Buffer.from(hashCode(code)), Buffer.from(resetRequest.codeHash))) {
+      await resetRequests.updateOne({ email }, { attempts: resetRequest.attempts + 1 });
       return res.status(400).json({ success: false, message: 'Invalid or expired reset code' });
     }
-    
+
     // Update user password
-    const user = await User.findOne({ email });
+    const users = getCollection('users');
+    const user = await users.findOne({ email });
     if (!user) {
       return res.status(404).json({ success: false, message: 'User not found' });
     }
-    
-    user.password = newPassword;
-    await user.save();
-    
-    // Delete the reset request
-    await ResetRequest.deleteOne({ _id: resetRequest._id });
-    
+
+    await users.updateOne({ id: user.id }, { password: await hashPassword(newPassword) });
+
+    // Delete the reset request, and sign out every device that used the old password
+    await resetRequests.deleteMany({ email });
+    await getCollection('sessions').deleteMany({ userId: user.id });
+
     res.status(200).json({ success: true, message: 'Password reset successful' });
   } catch (error) {
     console.error('Reset password error:', error);
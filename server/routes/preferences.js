@@ -1,87 +1,185 @@
-
 const express = require('express');
 const router = express.Router();
-const mongoose = require('mongoose');
-
-// Define the Preference schema
-const preferenceSchema = new mongoose.Schema({
-  userId: {
-    type: String,
-    required: true,
-    unique: true
-  },
-  eyeCareSettings: {
-    isActive: Boolean,
-    workDuration: Number,
-    restDuration: Number
-  },
-  focusSettings: {
-    isActive: Boolean,
-    threshold: Number,
-    timeframe: Number
-  },
-  updatedAt: {
-    type: Date,
-    default: Date.now
-  }
+const { getCollection } = require('../db/store');
+const { requireAuth, requireSameUser } = require('../middleware/auth');
+
+// Setting names are the dashboard's storage keys, e.g. "pomodoroDuration"
+const FIELD_NAME = /^[A-Za-z][A-Za-z0-9_-]{0,63}$/;
+// How often to retry a save that raced with another device's
+const MAX_SAVE_ATTEMPTS = 3;
+
+// Returned until the user saves preferences of their own
+const getEmptyPreferences = (userId) => ({
+  userId,
+  version: 0,
+  fields: {},
+  updatedAt: null
 });
 
-// Create or get the model
-const Preference = mongoose.models.Preference || mongoose.model('Preference', preferenceSchema);
+const toResponse = (userId, preferences) => (preferences ? {
+  userId,
+  version: preferences.version || 0,
+  fields: preferences.fields || {},
+  updatedAt: preferences.updatedAt || null
+} : getEmptyPreferences(userId));
+
+// Changes look like { [name]: { value, updatedAt } }, where value is a string,
+// or null once the setting has been removed, and updatedAt is when the device
+// changed it (ms timestamp)
+const getInvalidField = (changes) => {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) return '(changes)';
+
+  return Object.keys(changes).find(name => {
+    const change = changes[name];
+    return !FIELD_NAME.test(name) ||
+      !change ||
+      (typeof change.value !== 'string' && change.value !== null) ||
+      !Number.isFinite(change.updatedAt);
+  });
+};
+
+// Save the document only if nobody else saved in the meantime. Returns false
+// if someone did, so the caller can merge again.
+const saveIfUnchanged = async (userId, current, changes) => {
+  const preferences = getCollection('preferences');
+
+  if (!current) {
+    await preferences.insertOne({ userId, ...changes });
+    return true;
+  }
+
+  // Documents from before preferences were versioned are simply replaced
+  const query = typeof current.version === 'number' ? { userId, version: current.version } : { userId };
+  return Boolean(await preferences.updateOne(query, changes));
+};
+
+// Merge a device's changes into the stored preferences, the most recent change
+// to each field winning. A change is a conflict when another device also
+// changed the field after baseVersion, the version this device last synced.
+const mergeChanges = async (userId, baseVersion, changes) => {
+  const preferences = getCollection('preferences');
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const current = await preferences.findOne({ userId });
+    const version = (current?.version || 0) + 1;
+    const fields = { ...(current?.fields || {}) };
+    const conflicts = [];
+    let hasChanges = false;
+
+    Object.entries(changes).forEach(([name, change]) => {
+      const stored = fields[name];
+      const isNewer = !stored || change.updatedAt >= stored.updatedAt;
+
+      if (stored && stored.version > baseVersion && stored.value !== change.value) {
+        conflicts.push({ field: name, kept: isNewer ? 'local' : 'server' });
+      }
+
+      if (isNewer && (!stored || stored.value !== change.value)) {
+        fields[name] = { value: change.value, updatedAt: change.updatedAt, version };
+        hasChanges = true;
+      }
+    });
+
+    if (!hasChanges) {
+      return { preferences: current, conflicts };
+    }
+
+    const updated = { version, fields, updatedAt: new Date() };
+    if (await saveIfUnchanged(userId, current, updated)) {
+      return { preferences: { ...current, ...updated }, conflicts };
+    }
+  }
+
+  throw new Error('Preferences kept changing while saving');
+};
+
+// Every route here needs a signed-in user, and only reaches that user's preferences
+router.use(requireAuth);
 
 // Get user preferences
-router.get('/:userId', async (req, res) => {
+router.get('/:userId', requireSameUser, async (req, res) => {
   try {
     const { userId } = req.params;
-    
-    const preferences = await Preference.findOne({ userId });
-    
-    if (!preferences) {
-      // Return default preferences if none found
-      return res.status(200).json({
-        userId,
-        eyeCareSettings: {
-          isActive: true,
-          workDuration: 1200, // 20 minutes
-          restDuration: 20 // 20 seconds
-        },
-        focusSettings: {
-          isActive: true,
-          threshold: 5,
-          timeframe: 60000 // 1 minute
-        }
-      });
-    }
-    
-    res.status(200).json(preferences);
+
+    const preferences = await getCollection('preferences').findOne({ userId });
+
+    res.status(200).json(toResponse(userId, preferences));
   } catch (error) {
     console.error('Get preferences error:', error);
     res.status(500).json({ message: 'Failed to retrieve preferences' });
   }
 });
 
-// Update user preferences
-router.post('/:userId', async (req, res) => {
+// Replace all of the user's preferences
+router.post('/:userId', requireSameUser, async (req, res) => {
   try {
     const { userId } = req.params;
-    const { eyeCareSettings, focusSettings } = req.body;
-    
-    const updatedPreferences = await Preference.findOneAndUpdate(
+    const fields = req.body.fields || {};
+
+    const invalidField = getInvalidField(fields);
+    if (invalidField) {
+      return res.status(400).json({ message: `Invalid setting: ${invalidField}` });
+    }
+
+    const preferences = getCollection('preferences');
+    const current = await preferences.findOne({ userId });
+    const version = (current?.version || 0) + 1;
+
+    const updatedPreferences = await preferences.updateOne(
       { userId },
       {
-        userId,
-        eyeCareSettings,
-        focusSettings,
+        version,
+        fields: Object.fromEntries(Object.entries(fields).map(([name, change]) => [
+          name,
+          { value: change.value, updatedAt: change.updatedAt, version }
+        ])),
         updatedAt: new Date()
       },
-      { upsert: true, new: true }
+      { upsert: true }
     );
-    
-    res.status(200).json(updatedPreferences);
+
+    res.status(200).json(toResponse(userId, updatedPreferences));
   } catch (error) {
     console.error('Update preferences error:', error);
     res.status(500).json({ message: 'Failed to update preferences' });
   }
 });
 
+// Sync: merge in the fields a device changed since it last synced, and send
+// back the whole document along with any conflicts. A device with nothing to
+// upload sends no changes to just fetch the latest.
+router.patch('/:userId', requireSameUser, async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { changes = {} } = req.body;
+    const baseVersion = Number.isFinite(req.body.baseVersion) ? req.body.baseVersion : 0;
+
+    const invalidField = getInvalidField(changes);
+    if (invalidField) {
+      return res.status(400).json({ message: `Invalid setting: ${invalidField}` });
+    }
+
+    const { preferences, conflicts } = await mergeChanges(userId, baseVersion, changes);
+
+    res.status(200).json({ ...toResponse(userId, preferences), conflicts });
+  } catch (error) {
+    console.error('Sync preferences error:', error);
+    res.status(500).json({ message: 'Failed to sync preferences' });
+  }
+});
+
+// Delete user preferences
+router.delete('/:userId', requireSameUser, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    await getCollection('preferences').deleteOne({ userId });
+
+    res.status(200).json(getEmptyPreferences(userId));
+  } catch (error) {
+    console.error('Delete preferences error:', error);
+    res.status(500).json({ message: 'Failed to delete preferences' });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,73 @@
+const crypto = require('crypto');
+
+const DURATION_UNITS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+const DEFAULT_EXPIRE = '15m'; // Access tokens are short-lived and renewed with a refresh token
+const DEFAULT_REFRESH_EXPIRE = '30d';
+
+// Without JWT_SECRET tokens are signed with a key that only lasts until restart
+let fallbackSecret = null;
+const getSecret = () => {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+
+  if (!fallbackSecret) {
+    console.warn('JWT_SECRET is not set, so sign-ins will not survive a restart');
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+};
+
+// "30d", "15m", "12h" or a number of seconds
+const parseDuration = (value, fallback = DEFAULT_EXPIRE) => {
+  const match = /^(\d+)\s*([smhd])?$/.exec(String(value || '').trim());
+  if (!match) return parseDuration(fallback);
+
+  return Number(match[1]) * DURATION_UNITS[match[2] || 's'];
+};
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+const sign = (data) => crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+// Issue a signed JWT (HS256) for the user. Returns { token, expiresAt }.
+const signAccessToken = (user, expiresIn = process.env.JWT_EXPIRE || DEFAULT_EXPIRE) => {
+  const issuedAt = Date.now();
+  const expiresAt = issuedAt + parseDuration(expiresIn);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    sub: user.id,
+    email: user.email,
+    iat: Math.floor(issuedAt / 1000),
+    exp: Math.floor(expiresAt / 1000)
+  }));
+
+  return { token: `${header}.${payload}.${sign(`${header}.${payload}`)}`, expiresAt };
+};
+
+// The token's payload if it's genuine and hasn't expired, otherwise null
+const verifyAccessToken = (token) => {
+  if (typeof token !== 'string') return null;
+
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!claims.sub || !claims.exp || claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Refresh tokens are opaque random strings. Only their hash is stored, against
+// the user, so one can be revoked by deleting it. Returns { refreshToken, refreshExpiresAt }.
+const createRefreshToken = (expiresIn = process.env.REFRESH_TOKEN_EXPIRE || DEFAULT_REFRESH_EXPIRE) => ({
+  refreshToken: crypto.randomBytes(32).toString('base64url'),
+  refreshExpiresAt: Date.now() + parseDuration(expiresIn, DEFAULT_REFRESH_EXPIRE)
+});
+
+module.exports = { signAccessToken, verifyAccessToken, createRefreshToken, parseDuration };
@@ -0,0 +1,229 @@
+const EventEmitter = require('events');
+const http = require('http');
+
+// Browsers we know how to resolve to a site. Keys are the browser family
+// reported by the extension, values match against the active-win owner name.
+const BROWSER_FAMILIES = {
+  chrome: /google chrome|chrome|chromium/i,
+  edge: /microsoft\s*edge|msedge/i,
+  brave: /brave/i,
+  firefox: /firefox/i,
+  opera: /opera/i,
+  vivaldi: /vivaldi/i,
+  arc: /^arc$/i,
+  safari: /safari/i,
+};
+
+// Suffixes browsers append to the page title, e.g. "Inbox - Gmail - Google Chrome".
+// Edge puts a zero-width space inside its name.
+const BROWSER_TITLE_SUFFIX = /\s+[-–—]\s+(?:Google Chrome|Chromium|Microsoft\u200B?\s*Edge|Brave|Mozilla Firefox|Firefox|Opera|Vivaldi|Safari|Arc)(?:\s+[-–—]\s+.*)?$/i;
+
+// Site names that commonly end page titles, mapped to their domains
+const KNOWN_SITE_TITLES = {
+  'youtube': 'youtube.com',
+  'netflix': 'netflix.com',
+  'facebook': 'facebook.com',
+  'instagram': 'instagram.com',
+  'x': 'x.com',
+  'twitter': 'twitter.com',
+  'reddit': 'reddit.com',
+  'tiktok': 'tiktok.com',
+  'twitch': 'twitch.tv',
+  'gmail': 'mail.google.com',
+  'google docs': 'docs.google.com',
+  'google sheets': 'docs.google.com',
+  'google slides': 'docs.google.com',
+  'google drive': 'drive.google.com',
+  'google calendar': 'calendar.google.com',
+  'google search': 'google.com',
+  'github': 'github.com',
+  'stack overflow': 'stackoverflow.com',
+  'notion': 'notion.so',
+  'slack': 'app.slack.com',
+  'linkedin': 'linkedin.com',
+  'wikipedia': 'wikipedia.org',
+};
+
+const DOMAIN_PATTERN = /^(?:[a-z0-9-]+\.)+[a-z]{2,}$/i;
+
+// Work out which browser family an active-win owner name belongs to
+function getBrowserFamily(ownerName) {
+  if (!ownerName) return null;
+
+  const family = Object.keys(BROWSER_FAMILIES).find(key => BROWSER_FAMILIES[key].test(ownerName));
+  return family || null;
+}
+
+function isBrowser(ownerName) {
+  return getBrowserFamily(ownerName) !== null;
+}
+
+// Reduce a URL to its hostname without the leading "www."
+function getDomainFromUrl(url) {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') return null;
+    return hostname.replace(/^www\./, '').toLowerCase() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Best-effort domain from a browser window title, used when no extension is reporting
+function parseBrowserTitle(title) {
+  if (!title) return null;
+
+  const pageTitle = title.replace(BROWSER_TITLE_SUFFIX, '').trim();
+  if (!pageTitle) return null;
+
+  // Some pages (and new tabs) show the URL or bare host as their title
+  if (!/\s/.test(pageTitle)) {
+    const hostname = pageTitle.replace(/^[a-z]+:\/\//i, '').split('/')[0];
+    if (DOMAIN_PATTERN.test(hostname)) return hostname.replace(/^www\./, '').toLowerCase();
+  }
+
+  // Otherwise look at the segments, e.g. "Some video - YouTube" or "Inbox (3) - me@example.com - Gmail"
+  const segments = pageTitle.split(/\s+[-–—|·/]\s+/).map(segment => segment.trim().toLowerCase());
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const segment = segments[i].replace(/^\(\d+\)\s*/, '');
+    if (KNOWN_SITE_TITLES[segment]) return KNOWN_SITE_TITLES[segment];
+    if (DOMAIN_PATTERN.test(segment)) return segment.replace(/^www\./, '');
+  }
+
+  return null;
+}
+
+class BrowserBridge extends EventEmitter {
+  constructor(options = {}) {
+    super();
+
+    this.options = {
+      port: 37891,
+      host: '127.0.0.1',
+      staleAfterMs: 90 * 1000, // Extension heartbeats every 30 seconds
+      ...options
+    };
+
+    this.server = null;
+    this.lastTab = null;
+  }
+
+  start() {
+    if (this.server) return;
+
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server.on('error', (error) => {
+      console.error('Browser bridge error:', error);
+      this.server = null;
+    });
+    this.server.listen(this.options.port, this.options.host, () => {
+      console.log(`Browser bridge listening on http://${this.options.host}:${this.options.port}`);
+    });
+  }
+
+  stop() {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  handleRequest(req, res) {
+    // Only extensions (and local tools) may talk to the bridge
+    const origin = req.headers.origin || '';
+    if (origin && !/^(chrome|moz|safari-web)-extension:\/\//.test(origin)) {
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/status') {
+      this.sendJson(res, 200, { ok: true, connected: this.isConnected() });
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/active-tab') {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+        if (body.length > 16 * 1024) {
+          req.destroy();
+        }
+      });
+      req.on('end', () => {
+        try {
+          const report = JSON.parse(body);
+          const tab = this.recordTab(report);
+          this.sendJson(res, tab ? 200 : 400, { ok: Boolean(tab) });
+        } catch (error) {
+          this.sendJson(res, 400, { ok: false, message: 'Invalid JSON' });
+        }
+      });
+      return;
+    }
+
+    this.sendJson(res, 404, { ok: false });
+  }
+
+  sendJson(res, status, payload) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  // Store the active tab reported by the extension
+  recordTab(report) {
+    if (!report || typeof report.url !== 'string') return null;
+
+    const previousDomain = this.lastTab?.domain;
+    this.lastTab = {
+      url: report.url,
+      domain: getDomainFromUrl(report.url),
+      title: typeof report.title === 'string' ? report.title : '',
+      browser: typeof report.browser === 'string' ? report.browser.toLowerCase() : null,
+      timestamp: Date.now()
+    };
+
+    if (this.lastTab.domain !== previousDomain) {
+      this.emit('tab-changed', this.lastTab);
+    }
+
+    return this.lastTab;
+  }
+
+  isConnected() {
+    return Boolean(this.lastTab && Date.now() - this.lastTab.timestamp < this.options.staleAfterMs);
+  }
+
+  // Resolve the site shown in a focused browser window. Prefers the extension's
+  // report for the same browser and falls back to parsing the window title.
+  resolveSite(ownerName, title) {
+    const family = getBrowserFamily(ownerName);
+    if (!family) return null;
+
+    if (this.isConnected() && (!this.lastTab.browser || this.lastTab.browser === family)) {
+      return {
+        domain: this.lastTab.domain,
+        url: this.lastTab.url,
+        browser: family,
+        source: 'extension'
+      };
+    }
+
+    const domain = parseBrowserTitle(title);
+    return domain ? { domain, url: null, browser: family, source: 'title' } : null;
+  }
+}
+
+module.exports = { BrowserBridge, parseBrowserTitle, getDomainFromUrl, isBrowser };
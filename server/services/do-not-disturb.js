@@ -0,0 +1,110 @@
+const EventEmitter = require('events');
+const fs = require('fs');
+
+// A global Do Not Disturb that eye care, Pomodoro, custom rule and focus
+// reminders all check before showing anything. It can run until a set time or
+// until it's turned off, and survives a restart.
+//
+// Events:
+//   'change' - { isActive, until } whenever it's turned on or off, including when it runs out
+class DoNotDisturb extends EventEmitter {
+  constructor(options = {}) {
+    super();
+    this.statePath = options.statePath || null;
+    this.isEnabled = false;
+    this.until = null; // ms timestamp, or null for until turned off
+    this.expiryTimeout = null;
+
+    this.loadState();
+  }
+
+  start() {
+    // A Do Not Disturb that ran out while the app was closed is over
+    if (this.isEnabled && this.until !== null && this.until <= Date.now()) {
+      this.isEnabled = false;
+      this.until = null;
+      this.saveState();
+    }
+
+    this.scheduleExpiry();
+  }
+
+  stop() {
+    if (this.expiryTimeout) {
+      clearTimeout(this.expiryTimeout);
+      this.expiryTimeout = null;
+    }
+  }
+
+  // minutes is null to stay on until turned off
+  enable(minutes = null) {
+    this.isEnabled = true;
+    this.until = minutes ? Date.now() + minutes * 60000 : null;
+    this.commit();
+  }
+
+  disable() {
+    if (!this.isEnabled) return;
+
+    this.isEnabled = false;
+    this.until = null;
+    this.commit();
+  }
+
+  isActive(now = Date.now()) {
+    return this.isEnabled && (this.until === null || this.until > now);
+  }
+
+  getState() {
+    return { isActive: this.isActive(), until: this.isActive() ? this.until : null };
+  }
+
+  commit() {
+    this.scheduleExpiry();
+    this.saveState();
+    this.emit('change', this.getState());
+  }
+
+  scheduleExpiry() {
+    this.stop();
+    if (!this.isEnabled || this.until === null) return;
+
+    // Long timeouts overflow, so check back at least once a day
+    const delay = Math.min(Math.max(0, this.until - Date.now()), 24 * 60 * 60000);
+    this.expiryTimeout = setTimeout(() => {
+      this.expiryTimeout = null;
+
+      if (this.isActive()) {
+        this.scheduleExpiry();
+      } else {
+        this.disable();
+      }
+    }, delay);
+  }
+
+  loadState() {
+    if (!this.statePath) return;
+
+    try {
+      if (!fs.existsSync(this.statePath)) return;
+
+      const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      this.isEnabled = Boolean(saved.isEnabled);
+      this.until = typeof saved.until === 'number' ? saved.until : null;
+    } catch (error) {
+      console.error('Error loading Do Not Disturb state:', error);
+    }
+  }
+
+  saveState() {
+    if (!this.statePath) return;
+
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify({ isEnabled: this.isEnabled, until: this.until }));
+    } catch (error) {
+      console.error('Error saving Do Not Disturb state:', error);
+    }
+  }
+}
+
+module.exports = { DoNotDisturb };
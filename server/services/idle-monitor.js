@@ -0,0 +1,100 @@
+const EventEmitter = require('events');
+const { powerMonitor } = require('electron');
+
+// Watches system-wide idle time plus screen lock and suspend, which the
+// renderer can't see when the user walks away from another app.
+//
+// Events:
+//   'away'   - { reason, since } when the user goes idle, locks the screen or the machine sleeps
+//   'return' - { reason, since, at, duration } when they come back
+class IdleMonitor extends EventEmitter {
+  constructor(options = {}) {
+    super();
+
+    this.options = {
+      idleThresholdSeconds: 60, // Matches the renderer's idle threshold
+      pollIntervalMs: 5000,
+      ...options
+    };
+
+    this.pollInterval = null;
+    this.away = null; // { reason, since } while the user is away
+    this.lastReturnAt = 0;
+    this.handleLock = () => this.setAway('locked', Date.now());
+    this.handleSuspend = () => this.setAway('suspended', Date.now());
+    this.handleUnlock = () => this.setReturned();
+    this.handleResume = () => this.setReturned();
+  }
+
+  start() {
+    if (this.pollInterval) return;
+
+    powerMonitor.on('lock-screen', this.handleLock);
+    powerMonitor.on('suspend', this.handleSuspend);
+    powerMonitor.on('unlock-screen', this.handleUnlock);
+    powerMonitor.on('resume', this.handleResume);
+
+    this.pollInterval = setInterval(() => this.checkIdle(), this.options.pollIntervalMs);
+  }
+
+  stop() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+
+    powerMonitor.removeListener('lock-screen', this.handleLock);
+    powerMonitor.removeListener('suspend', this.handleSuspend);
+    powerMonitor.removeListener('unlock-screen', this.handleUnlock);
+    powerMonitor.removeListener('resume', this.handleResume);
+  }
+
+  isAway() {
+    return this.away !== null;
+  }
+
+  getState() {
+    return this.away ? { isAway: true, ...this.away } : { isAway: false };
+  }
+
+  checkIdle() {
+    try {
+      const idleSeconds = powerMonitor.getSystemIdleTime();
+
+      if (idleSeconds >= this.options.idleThresholdSeconds) {
+        // The user actually left when input stopped, not when we noticed. Some
+        // systems count sleep as idle time, so never go back past the last return.
+        this.setAway('idle', Math.max(Date.now() - idleSeconds * 1000, this.lastReturnAt));
+      } else if (this.away && this.away.reason === 'idle') {
+        this.setReturned();
+      }
+    } catch (error) {
+      console.error('Error checking system idle time:', error);
+    }
+  }
+
+  setAway(reason, since) {
+    // Locking while already idle keeps the original start of the absence
+    if (this.away) {
+      if (reason !== 'idle') {
+        this.away.reason = reason;
+      }
+      return;
+    }
+
+    this.away = { reason, since };
+    this.emit('away', { reason, since });
+  }
+
+  setReturned() {
+    if (!this.away) return;
+
+    const { reason, since } = this.away;
+    const at = Date.now();
+    this.away = null;
+    this.lastReturnAt = at;
+    this.emit('return', { reason, since, at, duration: at - since });
+  }
+}
+
+module.exports = { IdleMonitor };
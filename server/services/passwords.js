@@ -0,0 +1,39 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+
+const scrypt = promisify(crypto.scrypt);
+
+const KEY_LENGTH = 64;
+const HASH_PREFIX = 'scrypt';
+
+// Hash a password as "scrypt$<salt>$<hash>", with a fresh random salt each time
+const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt}$${hash.toString('hex')}`;
+};
+
+const isPasswordHash = (stored) => typeof stored === 'string' && stored.startsWith(`${HASH_PREFIX}$`);
+
+// Check a password against a stored hash. Accounts created before passwords
+// were hashed still hold the plain password, which is compared as-is; the
+// caller should re-hash it once it matches.
+const verifyPassword = async (password, stored) => {
+  if (typeof password !== 'string' || typeof stored !== 'string') return false;
+
+  if (!isPasswordHash(stored)) {
+    return safeEqual(Buffer.from(password), Buffer.from(stored));
+  }
+
+  const [, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return safeEqual(actual, expected);
+};
+
+// Short codes, like password reset codes, only need a plain hash
+const hashCode = (code) => crypto.createHash('sha256').update(String(code)).digest('hex');
+
+const safeEqual = (a, b) => a.length === b.length && crypto.timingSafeEqual(a, b);
+
+module.exports = { hashPassword, verifyPassword, isPasswordHash, hashCode, safeEqual };
@@ -0,0 +1,145 @@
+const EventEmitter = require('events');
+
+// Apps that mean the user is on a call whenever their call window is in front.
+// The title pattern tells a call apart from the app's home screen.
+const MEETING_APPS = [
+  { owner: /zoom/i, title: /zoom (meeting|webinar)|meeting/i },
+  { owner: /teams/i, title: /meeting|call/i },
+  { owner: /webex/i, title: /meeting|webex/i },
+  { owner: /skype/i, title: /call/i },
+  { owner: /slack/i, title: /huddle/i },
+  { owner: /facetime/i },
+  { owner: /gotomeeting|goto/i }
+];
+
+// Browser-based meetings, matched on the tab's URL or title
+const MEETING_SITES = /meet\.google\.com|teams\.microsoft\.com|teams\.live\.com|zoom\.us\/(wc|j)\/|whereby\.com|meet\.jit\.si/i;
+const MEETING_TITLES = /^meet - |google meet|jitsi meet/i;
+
+// Slideshows and screen shares
+const PRESENTING_TITLES = /slide ?show|presenter view|presenting|you are screen sharing|is sharing|share toolbar/i;
+
+// Desktop and shell windows cover the screen without being full screen apps
+const DESKTOP_OWNERS = /^(finder|explorer|explorer\.exe|windows explorer|desktop|gnome-shell|plasmashell)$/i;
+
+// How close a window has to be to the display's edges to count as full screen
+const FULLSCREEN_TOLERANCE = 2;
+
+// Why the active window calls for quiet, or null. windowInfo is
+// { title, ownerName, url, bounds }; displayBounds is the display it's on.
+function getQuietReason(windowInfo, displayBounds) {
+  if (!windowInfo) return null;
+
+  const title = windowInfo.title || '';
+  const ownerName = windowInfo.ownerName || '';
+
+  if (PRESENTING_TITLES.test(title)) return 'presenting';
+
+  const isMeetingApp = MEETING_APPS.some(app => app.owner.test(ownerName) && (!app.title || app.title.test(title)));
+  if (isMeetingApp || MEETING_SITES.test(windowInfo.url || '') || MEETING_TITLES.test(title)) {
+    return 'meeting';
+  }
+
+  const { bounds } = windowInfo;
+  if (bounds && displayBounds && title && !DESKTOP_OWNERS.test(ownerName)) {
+    const coversDisplay =
+      bounds.x <= displayBounds.x + FULLSCREEN_TOLERANCE &&
+      bounds.y <= displayBounds.y + FULLSCREEN_TOLERANCE &&
+      bounds.x + bounds.width >= displayBounds.x + displayBounds.width - FULLSCREEN_TOLERANCE &&
+      bounds.y + bounds.height >= displayBounds.y + displayBounds.height - FULLSCREEN_TOLERANCE;
+
+    if (coversDisplay) return 'fullscreen';
+  }
+
+  return null;
+}
+
+// Holds reminders back while a full screen window, a meeting or a presentation
+// is in front, and hands them back once it's over so nothing is lost. Quiet
+// lasts a little past the last quiet window, so glancing at another app during
+// a call doesn't let everything through.
+//
+// Events:
+//   'change'  - { isActive, reason, since } when quiet starts, ends or changes reason
+//   'release' - [reminder, ...] the reminders deferred while it was quiet, oldest first
+class QuietMode extends EventEmitter {
+  constructor(options = {}) {
+    super();
+
+    this.options = {
+      releaseDelayMs: 60000,
+      ...options
+    };
+
+    this.isEnabled = true;
+    this.reason = null;
+    this.since = null;
+    this.releaseTimeout = null;
+    this.deferred = [];
+  }
+
+  stop() {
+    if (this.releaseTimeout) {
+      clearTimeout(this.releaseTimeout);
+      this.releaseTimeout = null;
+    }
+  }
+
+  setEnabled(isEnabled) {
+    this.isEnabled = Boolean(isEnabled);
+    if (!this.isEnabled && this.isActive()) {
+      this.end();
+    }
+  }
+
+  isActive() {
+    return this.reason !== null;
+  }
+
+  getState() {
+    return { isActive: this.isActive(), reason: this.reason, since: this.since };
+  }
+
+  // Called with every active window sample
+  update(windowInfo, displayBounds) {
+    if (!this.isEnabled) return;
+
+    const reason = getQuietReason(windowInfo, displayBounds);
+
+    if (reason) {
+      this.stop();
+      if (reason !== this.reason) {
+        this.since = this.since || Date.now();
+        this.reason = reason;
+        this.emit('change', this.getState());
+      }
+    } else if (this.isActive() && !this.releaseTimeout) {
+      this.releaseTimeout = setTimeout(() => {
+        this.releaseTimeout = null;
+        this.end();
+      }, this.options.releaseDelayMs);
+    }
+  }
+
+  // Keep a reminder for later. Every reminder is kept; one sent again with the
+  // same notification ID replaces the earlier copy instead of queueing twice.
+  defer(reminder) {
+    const isRepeat = item => reminder.notificationId && item.notificationId === reminder.notificationId;
+    this.deferred = [...this.deferred.filter(item => !isRepeat(item)), reminder];
+  }
+
+  end() {
+    this.stop();
+    this.reason = null;
+    this.since = null;
+    this.emit('change', this.getState());
+
+    const released = this.deferred;
+    this.deferred = [];
+    if (released.length > 0) {
+      this.emit('release', released);
+    }
+  }
+}
+
+module.exports = { QuietMode, getQuietReason };
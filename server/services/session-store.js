@@ -0,0 +1,81 @@
+const fs = require('fs');
+
+// Keeps the signed-in session (access and refresh tokens) for the dashboard,
+// encrypted with the OS keychain through Electron's safeStorage, so the tokens
+// never sit in the renderer's localStorage. Where the OS offers no encryption
+// the session is only kept in memory and the user signs in again after a
+// restart.
+class SessionStore {
+  constructor(options = {}) {
+    this.filePath = options.filePath || null;
+    this.safeStorage = options.safeStorage || null;
+    this.session = null;
+    this.isLoaded = false;
+  }
+
+  canEncrypt() {
+    return Boolean(this.safeStorage && this.safeStorage.isEncryptionAvailable());
+  }
+
+  get() {
+    if (!this.isLoaded) {
+      this.load();
+    }
+    return this.session;
+  }
+
+  set(session) {
+    this.session = session || null;
+    this.isLoaded = true;
+    this.save();
+  }
+
+  clear() {
+    this.session = null;
+    this.isLoaded = true;
+
+    try {
+      if (this.filePath && fs.existsSync(this.filePath)) {
+        fs.unlinkSync(this.filePath);
+      }
+    } catch (error) {
+      console.error('Error clearing saved session:', error);
+    }
+  }
+
+  load() {
+    this.isLoaded = true;
+    if (!this.filePath || !this.canEncrypt()) return;
+
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const decrypted = this.safeStorage.decryptString(fs.readFileSync(this.filePath));
+        this.session = JSON.parse(decrypted);
+      }
+    } catch (error) {
+      console.error('Error loading saved session:', error);
+      this.session = null;
+    }
+  }
+
+  save() {
+    if (!this.session) {
+      this.clear();
+      return;
+    }
+
+    if (!this.filePath) return;
+    if (!this.canEncrypt()) {
+      console.warn('Encryption is not available, so the session will not be saved to disk');
+      return;
+    }
+
+    try {
+      fs.writeFileSync(this.filePath, this.safeStorage.encryptString(JSON.stringify(this.session)), { mode: 0o600 });
+    } catch (error) {
+      console.error('Error saving session:', error);
+    }
+  }
+}
+
+module.exports = { SessionStore };
@@ -0,0 +1,388 @@
+const EventEmitter = require('events');
+const fs = require('fs');
+
+// Phases each timer moves through. Pomodoro decides between a short and a long
+// break when a focus session completes; eye care does the same after each work
+// period, following the regimen the dashboard configured.
+const POMODORO_PHASES = ['focus', 'break', 'long_break'];
+const EYE_CARE_PHASES = ['work', 'rest', 'long_rest'];
+
+const DEFAULT_SETTINGS = {
+  pomodoroDuration: 25, // minutes
+  pomodoroBreakDuration: 5, // minutes
+  pomodoroLongBreakDuration: 15, // minutes
+  pomodoroLongBreakInterval: 4,
+  eyeCareWorkDuration: 20 * 60, // seconds
+  eyeCareRestDuration: 20, // seconds
+  eyeCareLongBreakEvery: 0, // Short breaks before each long one, 0 for none
+  eyeCareLongBreakDuration: 5 * 60, // seconds
+};
+
+// Settings where 0 is a meaningful value rather than a missing one
+const ZERO_ALLOWED_SETTINGS = ['eyeCareLongBreakEvery'];
+
+// Coming back after this long restarts the eye care countdown, since the eyes
+// have had their rest
+const LONG_ABSENCE_MS = 5 * 60000;
+
+// How often deadlines are checked. Remaining time is always worked out from the
+// wall clock, so a late check never makes a timer drift.
+const CHECK_INTERVAL = 1000;
+
+// Runs the Pomodoro and eye care timers against wall-clock deadlines so they keep
+// time while the dashboard window is hidden, throttled or reloading.
+//
+// Events:
+//   'change'      - a state snapshot, on every command and every second a timer runs
+//   'phase-ended' - { timer, phase, nextPhase, reason } with reason 'completed', 'skipped',
+//                   'snoozed' or 'reset'. Eye care breaks report how they ended this way,
+//                   which the dashboard keeps as its compliance log.
+class TimerEngine extends EventEmitter {
+  constructor(options = {}) {
+    super();
+    this.statePath = options.statePath || null;
+    this.autoStart = options.autoStart !== false;
+    this.checkInterval = null;
+    this.settings = { ...DEFAULT_SETTINGS };
+    this.timers = {
+      pomodoro: this.createTimer('focus'),
+      eyeCare: this.createTimer('work'),
+    };
+    this.pomodoroCyclePosition = 0; // Focus sessions completed since the last long break
+    this.eyeCareBreakCount = 0; // Short eye care breaks since the last long one
+    this.snoozedEyeCarePhase = null; // The break to come back to when a snooze runs out
+    this.pausedWhileAway = []; // Timers that were running when the user went away
+
+    this.loadState();
+  }
+
+  start() {
+    if (this.checkInterval) return;
+
+    // Timers start with the app, as the dashboard used to do on load
+    if (this.autoStart) {
+      this.startTimer('pomodoro');
+      this.startTimer('eyeCare');
+    }
+
+    this.checkInterval = setInterval(() => this.checkDeadlines(), CHECK_INTERVAL);
+  }
+
+  stop() {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    this.saveState();
+  }
+
+  createTimer(phase) {
+    const durationMs = this.getPhaseDuration(phase);
+    return { phase, isRunning: false, deadline: null, remainingMs: durationMs, durationMs };
+  }
+
+  getPhaseDuration(phase) {
+    const { settings } = this;
+
+    switch (phase) {
+      case 'break':
+        return settings.pomodoroBreakDuration * 60000;
+      case 'long_break':
+        return settings.pomodoroLongBreakDuration * 60000;
+      case 'work':
+        return settings.eyeCareWorkDuration * 1000;
+      case 'rest':
+        return settings.eyeCareRestDuration * 1000;
+      case 'long_rest':
+        return settings.eyeCareLongBreakDuration * 1000;
+      default:
+        return settings.pomodoroDuration * 60000;
+    }
+  }
+
+  getRemainingMs(timer, now = Date.now()) {
+    return timer.isRunning ? Math.max(0, timer.deadline - now) : timer.remainingMs;
+  }
+
+  isValidPhase(name, phase) {
+    return (name === 'pomodoro' ? POMODORO_PHASES : EYE_CARE_PHASES).includes(phase);
+  }
+
+  // Commands
+
+  startTimer(name) {
+    const timer = this.timers[name];
+    if (!timer || timer.isRunning) return;
+
+    timer.isRunning = true;
+    timer.deadline = Date.now() + timer.remainingMs;
+    this.commit();
+  }
+
+  // at lets the pause take effect from an earlier moment, e.g. when the user went idle
+  pauseTimer(name, at = Date.now()) {
+    const timer = this.timers[name];
+    if (!timer || !timer.isRunning) return;
+
+    timer.remainingMs = this.getRemainingMs(timer, Math.min(at, Date.now()));
+    timer.isRunning = false;
+    timer.deadline = null;
+    this.commit();
+  }
+
+  // Stop the timer and load the full duration of a phase, the current one by default
+  resetTimer(name, phase) {
+    const timer = this.timers[name];
+    if (!timer) return;
+
+    const nextPhase = this.isValidPhase(name, phase) ? phase : timer.phase;
+    const endedPhase = timer.phase;
+    this.loadPhase(name, nextPhase, false);
+    this.emit('phase-ended', { timer: name, phase: endedPhase, nextPhase, reason: 'reset' });
+    this.commit();
+  }
+
+  // Move on to the next phase without finishing the current one. Skipping a focus
+  // session doesn't count towards the long break.
+  skipPhase(name) {
+    const timer = this.timers[name];
+    if (!timer) return;
+
+    const endedPhase = timer.phase;
+    let nextPhase;
+    if (name === 'pomodoro') {
+      nextPhase = endedPhase === 'focus' ? 'break' : 'focus';
+      this.loadPhase(name, nextPhase, false);
+    } else {
+      nextPhase = endedPhase === 'work' ? this.getNextEyeCareBreak() : 'work';
+      this.loadPhase(name, nextPhase, timer.isRunning);
+    }
+
+    this.emit('phase-ended', { timer: name, phase: endedPhase, nextPhase, reason: 'skipped' });
+    this.commit();
+  }
+
+  // Put off the current eye care break for a few minutes. The same break comes
+  // back when the snooze runs out.
+  snoozeBreak(minutes = 5) {
+    const timer = this.timers.eyeCare;
+    if (timer.phase === 'work') return;
+
+    const endedPhase = timer.phase;
+    const durationMs = Math.max(1, Number(minutes) || 5) * 60000;
+    this.snoozedEyeCarePhase = endedPhase;
+    this.timers.eyeCare = {
+      phase: 'work',
+      isRunning: true,
+      deadline: Date.now() + durationMs,
+      remainingMs: durationMs,
+      durationMs,
+    };
+
+    this.emit('phase-ended', { timer: 'eyeCare', phase: endedPhase, nextPhase: 'work', reason: 'snoozed' });
+    this.commit();
+  }
+
+  // Pick the break that follows a work period and count it towards the long break
+  getNextEyeCareBreak() {
+    if (this.snoozedEyeCarePhase) {
+      const phase = this.snoozedEyeCarePhase;
+      this.snoozedEyeCarePhase = null;
+      return phase;
+    }
+
+    const { eyeCareLongBreakEvery } = this.settings;
+    if (eyeCareLongBreakEvery > 0 && this.eyeCareBreakCount >= eyeCareLongBreakEvery) {
+      this.eyeCareBreakCount = 0;
+      return 'long_rest';
+    }
+
+    this.eyeCareBreakCount += 1;
+    return 'rest';
+  }
+
+  // Pause both timers from the moment the user went away
+  handleAway(since) {
+    this.pausedWhileAway = Object.keys(this.timers).filter(name => this.timers[name].isRunning);
+    this.pausedWhileAway.forEach(name => this.pauseTimer(name, since));
+  }
+
+  // The Pomodoro stays paused until the user picks it up again. Eye care carries
+  // on, from the start of a work period after a long absence. Returns whether
+  // the Pomodoro was paused.
+  handleReturn(duration) {
+    const wasRunning = this.pausedWhileAway;
+    this.pausedWhileAway = [];
+
+    if (duration >= LONG_ABSENCE_MS) {
+      this.eyeCareBreakCount = 0;
+      this.snoozedEyeCarePhase = null;
+      this.loadPhase('eyeCare', 'work', false);
+      this.commit();
+    }
+    if (wasRunning.includes('eyeCare')) {
+      this.startTimer('eyeCare');
+    }
+
+    return wasRunning.includes('pomodoro');
+  }
+
+  // Apply new durations. Stopped timers pick up a changed duration straight away;
+  // running ones keep their deadline and use it from the next phase.
+  configure(settings = {}) {
+    const previous = this.settings;
+    const next = { ...previous };
+    Object.keys(DEFAULT_SETTINGS).forEach(key => {
+      const value = Number(settings[key]);
+      const minimum = ZERO_ALLOWED_SETTINGS.includes(key) ? 0 : 1;
+      if (settings[key] !== undefined && Number.isFinite(value) && value >= minimum) {
+        next[key] = value;
+      }
+    });
+    this.settings = next;
+
+    Object.keys(this.timers).forEach(name => {
+      const timer = this.timers[name];
+      const durationMs = this.getPhaseDuration(timer.phase);
+      if (!timer.isRunning && durationMs !== timer.durationMs) {
+        this.loadPhase(name, name === 'eyeCare' ? 'work' : timer.phase, false);
+      }
+    });
+
+    this.commit();
+  }
+
+  loadPhase(name, phase, isRunning) {
+    const durationMs = this.getPhaseDuration(phase);
+    this.timers[name] = {
+      phase,
+      isRunning,
+      deadline: isRunning ? Date.now() + durationMs : null,
+      remainingMs: durationMs,
+      durationMs,
+    };
+  }
+
+  checkDeadlines() {
+    const now = Date.now();
+    let isTicking = false;
+
+    Object.keys(this.timers).forEach(name => {
+      const timer = this.timers[name];
+      if (!timer.isRunning) return;
+
+      if (this.getRemainingMs(timer, now) === 0) {
+        this.completePhase(name);
+      }
+      isTicking = true;
+    });
+
+    if (isTicking) {
+      this.emit('change', this.getState());
+    }
+  }
+
+  // The Pomodoro stops after each phase so the next one starts when the user is
+  // ready. Eye care keeps cycling between work and rest.
+  completePhase(name) {
+    const timer = this.timers[name];
+    const endedPhase = timer.phase;
+    let nextPhase;
+
+    if (name === 'pomodoro') {
+      if (endedPhase === 'focus') {
+        const cyclePosition = this.pomodoroCyclePosition + 1;
+        const isLongBreak = cyclePosition >= this.settings.pomodoroLongBreakInterval;
+        this.pomodoroCyclePosition = isLongBreak ? 0 : cyclePosition;
+        nextPhase = isLongBreak ? 'long_break' : 'break';
+      } else {
+        nextPhase = 'focus';
+      }
+      this.loadPhase(name, nextPhase, false);
+    } else {
+      nextPhase = endedPhase === 'work' ? this.getNextEyeCareBreak() : 'work';
+      this.loadPhase(name, nextPhase, true);
+    }
+
+    this.emit('phase-ended', { timer: name, phase: endedPhase, nextPhase, reason: 'completed' });
+    this.saveState();
+  }
+
+  commit() {
+    this.saveState();
+    this.emit('change', this.getState());
+  }
+
+  getState() {
+    const now = Date.now();
+    const snapshot = (timer) => ({
+      phase: timer.phase,
+      isRunning: timer.isRunning,
+      remainingMs: this.getRemainingMs(timer, now),
+      durationMs: timer.durationMs,
+    });
+
+    return {
+      pomodoro: { ...snapshot(this.timers.pomodoro), cyclePosition: this.pomodoroCyclePosition },
+      eyeCare: { ...snapshot(this.timers.eyeCare), breakCount: this.eyeCareBreakCount },
+      settings: { ...this.settings },
+    };
+  }
+
+  // Persistence. Only written when something changes, never on every tick.
+
+  loadState() {
+    if (!this.statePath) return;
+
+    try {
+      if (!fs.existsSync(this.statePath)) return;
+
+      const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      this.settings = { ...DEFAULT_SETTINGS, ...saved.settings };
+      this.pomodoroCyclePosition = saved.pomodoroCyclePosition || 0;
+      this.eyeCareBreakCount = saved.eyeCareBreakCount || 0;
+
+      // Restore where each timer was, paused, rather than counting the time the app was closed
+      Object.keys(this.timers).forEach(name => {
+        const timer = saved.timers && saved.timers[name];
+        if (!timer || !this.isValidPhase(name, timer.phase)) return;
+
+        const durationMs = this.getPhaseDuration(timer.phase);
+        this.timers[name] = {
+          phase: timer.phase,
+          isRunning: false,
+          deadline: null,
+          remainingMs: Math.min(Math.max(0, timer.remainingMs), durationMs) || durationMs,
+          durationMs,
+        };
+      });
+    } catch (error) {
+      console.error('Error loading timer state:', error);
+    }
+  }
+
+  saveState() {
+    if (!this.statePath) return;
+
+    try {
+      const now = Date.now();
+      const timers = {};
+      Object.keys(this.timers).forEach(name => {
+        const timer = this.timers[name];
+        timers[name] = { phase: timer.phase, remainingMs: this.getRemainingMs(timer, now) };
+      });
+
+      fs.writeFileSync(this.statePath, JSON.stringify({
+        settings: this.settings,
+        pomodoroCyclePosition: this.pomodoroCyclePosition,
+        eyeCareBreakCount: this.eyeCareBreakCount,
+        timers,
+      }));
+    } catch (error) {
+      console.error('Error saving timer state:', error);
+    }
+  }
+}
+
+module.exports = { TimerEngine };
@@ -7,7 +7,10 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { TimerProvider } from "@/contexts/TimerContext";
 import { FocusModeProvider } from "@/contexts/FocusModeContext";
+import { CustomRulesProvider } from "@/contexts/CustomRulesContext";
+import { RichMediaPopup } from "@/components/customRules/RichMediaPopup";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { ProfileScope } from "@/components/auth/ProfileScope";
 import { ThemeProvider } from "next-themes";
 import Welcome from "./pages/Welcome";
 import Index from "./pages/Index";
@@ -15,6 +18,7 @@ import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
+import LocalProfiles from "./pages/LocalProfiles";
 import NotFound from "./pages/NotFound";
 import { useAuth } from "@/contexts/AuthContext";
 
@@ -43,44 +47,52 @@ const App = () => {
     <QueryClientProvider client={queryClient}>
       <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
         <AuthProvider>
-          <TimerProvider>
-            <FocusModeProvider>
-              <TooltipProvider>
-                {/* Center toast for focus-related notifications */}
-                <Toaster />
-                {/* Bottom right toast for regular UI notifications */}
-                <Sonner position="bottom-right" />
-                <BrowserRouter>
-                  <Routes>
-                    {/* Welcome/Landing Page */}
-                    <Route path="/welcome" element={<Welcome />} />
-                    
-                    {/* Auth Routes */}
-                    <Route path="/login" element={<Login />} />
-                    <Route path="/signup" element={<Signup />} />
-                    <Route path="/forgot-password" element={<ForgotPassword />} />
-                    <Route path="/reset-password" element={<ResetPassword />} />
-                    
-                    {/* Protected Routes */}
-                    <Route 
-                      path="/dashboard" 
-                      element={
-                        <ProtectedRoute>
-                          <Index />
-                        </ProtectedRoute>
-                      } 
-                    />
-                    
-                    {/* Root path conditionally redirects based on auth state */}
-                    <Route path="/" element={<RootRedirect />} />
-                    
-                    {/* Catch-all route */}
-                    <Route path="*" element={<NotFound />} />
-                  </Routes>
-                </BrowserRouter>
-              </TooltipProvider>
-            </FocusModeProvider>
-          </TimerProvider>
+          <TooltipProvider>
+            {/* Center toast for focus-related notifications */}
+            <Toaster />
+            {/* Bottom right toast for regular UI notifications */}
+            <Sonner position="bottom-right" />
+            <BrowserRouter>
+              {/* Everything below belongs to the signed-in profile */}
+              <ProfileScope>
+                <TimerProvider>
+                  <FocusModeProvider>
+                    <CustomRulesProvider>
+                      {/* Popups for custom notification rules */}
+                      <RichMediaPopup />
+                      <Routes>
+                        {/* Welcome/Landing Page */}
+                        <Route path="/welcome" element={<Welcome />} />
+                        
+                        {/* Auth Routes */}
+                        <Route path="/login" element={<Login />} />
+                        <Route path="/signup" element={<Signup />} />
+                        <Route path="/forgot-password" element={<ForgotPassword />} />
+                        <Route path="/reset-password" element={<ResetPassword />} />
+                        <Route path="/local" element={<LocalProfiles />} />
+                        
+                        {/* Protected Routes */}
+                        <Route 
+                          path="/dashboard" 
+                          element={
+                            <ProtectedRoute>
+                              <Index />
+                            </ProtectedRoute>
+                          } 
+                        />
+                        
+                        {/* Root path conditionally redirects based on auth state */}
+                        <Route path="/" element={<RootRedirect />} />
+                        
+                        {/* Catch-all route */}
+                        <Route path="*" element={<NotFound />} />
+                      </Routes>
+                    </CustomRulesProvider>
+                  </FocusModeProvider>
+                </TimerProvider>
+              </ProfileScope>
+            </BrowserRouter>
+          </TooltipProvider>
         </AuthProvider>
       </ThemeProvider>
     </QueryClientProvider>
@@ -0,0 +1,44 @@
+import { Fragment, ReactNode, useLayoutEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getActiveProfileId, setActiveProfile } from "@/lib/profileStorage";
+
+// Points storage at the signed-in user's profile and remounts everything below
+// when someone else signs in, so the timers, focus mode and rules all load that
+// person's own settings
+export const ProfileScope = ({ children }: { children: ReactNode }) => {
+  const { user, isLoading } = useAuth();
+  const profileId = user?.id ?? null;
+  const [scopedProfileId, setScopedProfileId] = useState(getActiveProfileId);
+  const [hasRestored, setHasRestored] = useState(false);
+
+  // Wait for the saved session on startup rather than loading the signed-out
+  // settings first
+  if (!isLoading && !hasRestored) {
+    setHasRestored(true);
+  }
+
+  useLayoutEffect(() => {
+    if (profileId === scopedProfileId) return;
+
+    // Someone else's timers shouldn't keep running for the next person
+    if (scopedProfileId && getActiveProfileId() !== profileId) {
+      window.electron?.send("timer-command", { timer: "pomodoro", action: "reset", phase: "focus" });
+      window.electron?.send("timer-command", { timer: "eyeCare", action: "reset", phase: "work" });
+    }
+
+    setActiveProfile(profileId);
+    setScopedProfileId(profileId);
+  }, [profileId, scopedProfileId]);
+
+  // The old profile's screens are gone before storage switches over, so
+  // nothing they save ends up in the new profile
+  if (!hasRestored || profileId !== scopedProfileId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return <Fragment key={scopedProfileId || "signed-out"}>{children}</Fragment>;
+};
@@ -4,25 +4,25 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogContent } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { X } from "lucide-react";
-import { Rule } from "@/contexts/CustomRulesContext";
+import { RulePopup } from "@/contexts/CustomRulesContext";
 import { motion, AnimatePresence } from "framer-motion";
 
 export function RichMediaPopup() {
   const [isOpen, setIsOpen] = useState(false);
-  const [currentRule, setCurrentRule] = useState<Rule | null>(null);
+  const [currentRule, setCurrentRule] = useState<RulePopup | null>(null);
   const [displayType, setDisplayType] = useState<'dialog' | 'alert'>('dialog');
   const [isImageLoaded, setIsImageLoaded] = useState(false);
   
   // Listen for rule-based popups and focus-mode popups
   useEffect(() => {
     // Handler for rule-based popups
-    const handleShowCustomRulePopup = (event: CustomEvent<Rule>) => {
+    const handleShowCustomRulePopup = (event: CustomEvent<RulePopup>) => {
       console.log("Received show-custom-rule-popup event", event.detail);
       setCurrentRule(event.detail);
       
       // Choose display type based on rule condition or action
       if (
-        event.detail.condition.type === "app_switch" || 
+        event.detail.isAlert || 
         event.detail.name.toLowerCase().includes("focus")
       ) {
         setDisplayType('alert');
@@ -37,7 +37,8 @@ export function RichMediaPopup() {
         window.electron.send('show-native-notification', {
           title: event.detail.name,
           body: event.detail.action.text,
-          notificationId: `custom-rule-${event.detail.id}`
+          notificationId: `custom-rule-${event.detail.id}`,
+          source: 'custom_rule'
         });
       }
       
@@ -60,16 +61,12 @@ export function RichMediaPopup() {
       console.log("Received show-focus-popup event", event.detail);
       
       // Create a synthetic rule object to reuse the same popup system
-      const focusRule: Rule = {
+      const focusRule: RulePopup = {
         id: event.detail.notificationId,
         name: event.detail.title,
-        condition: {
-          type: "app_switch",
-          threshold: 0, 
-          timeWindow: 0
-        },
+        isAlert: true,
         action: {
-          type: "notification",
+          type: "popup",
           text: event.detail.body,
           media: {
             type: event.detail.mediaType,
@@ -77,8 +74,7 @@ export function RichMediaPopup() {
           },
           autoDismiss: true,
           dismissTime: 8
-        },
-        isActive: true
+        }
       };
       
       setCurrentRule(focusRule);
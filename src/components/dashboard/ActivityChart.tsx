@@ -1,32 +1,182 @@
-
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import SystemTrayService from '@/services/SystemTrayService';
+import UsageHistoryService, { DailyUsageRecord, HourlyActivity } from '@/services/UsageHistoryService';
+
+type ChartRange = 'day' | 'week' | 'month';
+
+interface ChartPoint {
+  label: string;
+  productive: number;
+  distraction: number;
+  communication: number;
+  screenTime: number;
+  away: number;
+  focusScore: number | null;
+  previousScreenTime?: number | null;
+}
+
+type DayRecord = Omit<DailyUsageRecord, 'updatedAt'>;
+
+const RANGE_DAYS: Record<Exclude<ChartRange, 'day'>, number> = {
+  week: 7,
+  month: 30,
+};
+
+const PREVIOUS_LABELS: Record<ChartRange, string> = {
+  day: 'Yesterday',
+  week: 'Previous week',
+  month: 'Previous month',
+};
+
+// Convert milliseconds to minutes with one decimal place
+const toMinutes = (ms: number): number => Math.round((ms / 60000) * 10) / 10;
+
+const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour} ${suffix}`;
+};
+
+const shiftDays = (date: Date, days: number): Date => {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+};
+
+// Total time per category for a day, preferring the hourly buckets when present
+const getCategoryTotals = (record: DayRecord | null) => {
+  const totals = { productive: 0, distraction: 0, communication: 0 };
+  if (!record) return totals;
+
+  if (record.hourly) {
+    record.hourly.forEach(bucket => {
+      totals.productive += bucket.productive;
+      totals.distraction += bucket.distraction;
+      totals.communication += bucket.communication;
+    });
+  } else {
+    record.appUsage.forEach(app => {
+      if (app.type === 'productive' || app.type === 'distraction' || app.type === 'communication') {
+        totals[app.type] += app.time;
+      }
+    });
+  }
+
+  return totals;
+};
 
-// Sample data - this will only be used when we have actual data to show
-const sampleData = [
-  { time: '8 AM', productivity: 95, screenTime: 30 },
-  { time: '9 AM', productivity: 80, screenTime: 45 },
-  { time: '10 AM', productivity: 90, screenTime: 50 },
-  { time: '11 AM', productivity: 85, screenTime: 55 },
-  { time: '12 PM', productivity: 70, screenTime: 40 },
-  { time: '1 PM', productivity: 65, screenTime: 35 },
-  { time: '2 PM', productivity: 85, screenTime: 50 },
-  { time: '3 PM', productivity: 75, screenTime: 60 },
-  { time: '4 PM', productivity: 80, screenTime: 65 },
-  { time: '5 PM', productivity: 90, screenTime: 40 },
-];
+const buildHourlySeries = (today: HourlyActivity[], yesterday: DayRecord | null): ChartPoint[] => {
+  return today.map(bucket => ({
+    label: formatHour(bucket.hour),
+    productive: toMinutes(bucket.productive),
+    distraction: toMinutes(bucket.distraction),
+    communication: toMinutes(bucket.communication),
+    screenTime: toMinutes(bucket.screenTime),
+    away: toMinutes(bucket.away || 0),
+    focusScore: bucket.focusScore,
+    previousScreenTime: yesterday?.hourly ? toMinutes(yesterday.hourly[bucket.hour].screenTime) : null,
+  }));
+};
+
+const buildDailySeries = (days: number, today: DayRecord, lookup: (date: Date) => DayRecord | null): ChartPoint[] => {
+  const now = new Date();
+  const points: ChartPoint[] = [];
+
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = shiftDays(now, -offset);
+    const record = offset === 0 ? today : lookup(date);
+    const previous = lookup(shiftDays(date, -days));
+    const totals = getCategoryTotals(record);
+
+    points.push({
+      label: days <= 7
+        ? date.toLocaleDateString(undefined, { weekday: 'short' })
+        : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      productive: toMinutes(totals.productive),
+      distraction: toMinutes(totals.distraction),
+      communication: toMinutes(totals.communication),
+      screenTime: toMinutes(record?.screenTime || 0),
+      away: toMinutes(record?.awayTime || 0),
+      focusScore: record ? record.focusScore : null,
+      previousScreenTime: previous ? toMinutes(previous.screenTime) : null,
+    });
+  }
+
+  return points;
+};
 
 interface ActivityChartProps {
   title?: string;
   className?: string;
-  emptyState?: boolean;
 }
 
-export function ActivityChart({ title = "Daily Activity", className, emptyState = true }: ActivityChartProps) {
+export function ActivityChart({ title = "Daily Activity", className }: ActivityChartProps) {
+  const [range, setRange] = useState<ChartRange>('day');
+  const [comparePrevious, setComparePrevious] = useState(false);
+  const [hourlyActivity, setHourlyActivity] = useState<HourlyActivity[]>([]);
+  const [history, setHistory] = useState<DailyUsageRecord[]>([]);
+
+  useEffect(() => {
+    const systemTray = SystemTrayService.getInstance();
+    const usageHistory = UsageHistoryService.getInstance();
+
+    const handleHourlyUpdate = (hourly: HourlyActivity[]) => setHourlyActivity(hourly);
+    const handleHistoryUpdate = (records: DailyUsageRecord[]) => setHistory(records);
+
+    systemTray.addHourlyActivityListener(handleHourlyUpdate);
+    usageHistory.addHistoryListener(handleHistoryUpdate);
+
+    return () => {
+      systemTray.removeHourlyActivityListener(handleHourlyUpdate);
+      usageHistory.removeHistoryListener(handleHistoryUpdate);
+    };
+  }, []);
+
+  const data = useMemo(() => {
+    const recordsByDate = new Map(history.map(record => [record.date, record]));
+    const lookup = (date: Date) => recordsByDate.get(UsageHistoryService.getDateKey(date)) || null;
+
+    if (range === 'day') {
+      return buildHourlySeries(hourlyActivity, lookup(shiftDays(new Date(), -1)));
+    }
+
+    const today = SystemTrayService.getInstance().getTodayUsage();
+    return buildDailySeries(RANGE_DAYS[range], today, lookup);
+  }, [range, hourlyActivity, history]);
+
+  const emptyState = data.every(point => point.screenTime === 0 && point.focusScore === null);
+
   return (
     <Card className={className}>
-      <CardHeader>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
         <CardTitle>{title}</CardTitle>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="activity-compare"
+              checked={comparePrevious}
+              onCheckedChange={setComparePrevious}
+            />
+            <Label htmlFor="activity-compare" className="text-sm text-muted-foreground">
+              Compare to {PREVIOUS_LABELS[range].toLowerCase()}
+            </Label>
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={range}
+            onValueChange={(value) => value && setRange(value as ChartRange)}
+          >
+            <ToggleGroupItem value="day">Day</ToggleGroupItem>
+            <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            <ToggleGroupItem value="month">Month</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
       </CardHeader>
       <CardContent>
         <div className="h-[300px]">
@@ -39,51 +189,114 @@ export function ActivityChart({ title = "Daily Activity", className, emptyState
             </div>
           ) : (
             <ResponsiveContainer width="100%" height="100%">
-              <AreaChart
-                data={sampleData}
-                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              <ComposedChart
+                data={data}
+                margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
               >
-                <defs>
-                  <linearGradient id="colorProductivity" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.8} />
-                    <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0.1} />
-                  </linearGradient>
-                  <linearGradient id="colorScreenTime" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="hsl(var(--secondary))" stopOpacity={0.8} />
-                    <stop offset="95%" stopColor="hsl(var(--secondary))" stopOpacity={0.1} />
-                  </linearGradient>
-                </defs>
                 <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
-                <XAxis dataKey="time" />
-                <YAxis />
+                <XAxis dataKey="label" />
+                <YAxis yAxisId="minutes" unit="m" />
+                <YAxis yAxisId="score" orientation="right" domain={[0, 100]} />
                 <Tooltip />
                 <Area
+                  yAxisId="minutes"
                   type="monotone"
-                  dataKey="productivity"
-                  stroke="hsl(var(--primary))"
-                  fillOpacity={1}
-                  fill="url(#colorProductivity)"
+                  dataKey="productive"
+                  name="Productive (min)"
+                  stackId="category"
+                  stroke="#36C885"
+                  fill="#36C885"
+                  fillOpacity={0.4}
+                />
+                <Area
+                  yAxisId="minutes"
+                  type="monotone"
+                  dataKey="communication"
+                  name="Communication (min)"
+                  stackId="category"
+                  stroke="#4A99FF"
+                  fill="#4A99FF"
+                  fillOpacity={0.4}
                 />
                 <Area
+                  yAxisId="minutes"
+                  type="monotone"
+                  dataKey="distraction"
+                  name="Distraction (min)"
+                  stackId="category"
+                  stroke="#F37945"
+                  fill="#F37945"
+                  fillOpacity={0.4}
+                />
+                <Line
+                  yAxisId="minutes"
                   type="monotone"
                   dataKey="screenTime"
+                  name="Screen Time (min)"
                   stroke="hsl(var(--secondary))"
-                  fillOpacity={1}
-                  fill="url(#colorScreenTime)"
+                  dot={false}
+                />
+                <Line
+                  yAxisId="minutes"
+                  type="monotone"
+                  dataKey="away"
+                  name="Away (min)"
+                  stroke="hsl(var(--muted-foreground))"
+                  dot={false}
+                />
+                <Line
+                  yAxisId="score"
+                  type="monotone"
+                  dataKey="focusScore"
+                  name="Focus Score"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
                 />
-              </AreaChart>
+                {comparePrevious && (
+                  <Line
+                    yAxisId="minutes"
+                    type="monotone"
+                    dataKey="previousScreenTime"
+                    name={`Screen Time, ${PREVIOUS_LABELS[range].toLowerCase()} (min)`}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="5 5"
+                    dot={false}
+                    connectNulls
+                  />
+                )}
+              </ComposedChart>
             </ResponsiveContainer>
           )}
         </div>
-        <div className="mt-4 flex items-center justify-center space-x-8">
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-x-8 gap-y-2">
           <div className="flex items-center">
-            <div className="mr-2 h-3 w-3 rounded-full bg-primary"></div>
-            <span className="text-sm text-muted-foreground">Productivity</span>
+            <div className="mr-2 h-3 w-3 rounded-full bg-attention-green-400"></div>
+            <span className="text-sm text-muted-foreground">Productive</span>
+          </div>
+          <div className="flex items-center">
+            <div className="mr-2 h-3 w-3 rounded-full bg-attention-blue-400"></div>
+            <span className="text-sm text-muted-foreground">Communication</span>
+          </div>
+          <div className="flex items-center">
+            <div className="mr-2 h-3 w-3 rounded-full bg-attention-warm-400"></div>
+            <span className="text-sm text-muted-foreground">Distraction</span>
+          </div>
+          <div className="flex items-center">
+            <div className="mr-2 h-3 w-3 rounded-full bg-muted-foreground"></div>
+            <span className="text-sm text-muted-foreground">Away</span>
           </div>
           <div className="flex items-center">
-            <div className="mr-2 h-3 w-3 rounded-full bg-secondary"></div>
-            <span className="text-sm text-muted-foreground">Screen Time</span>
+            <div className="mr-2 h-3 w-3 rounded-full bg-primary"></div>
+            <span className="text-sm text-muted-foreground">Focus Score</span>
           </div>
+          {comparePrevious && (
+            <div className="flex items-center">
+              <div className="mr-2 h-0.5 w-4 border-t-2 border-dashed border-muted-foreground"></div>
+              <span className="text-sm text-muted-foreground">{PREVIOUS_LABELS[range]}</span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
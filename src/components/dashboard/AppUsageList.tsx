@@ -7,12 +7,23 @@ import SystemTrayService from "@/services/SystemTrayService";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useFocusMode } from "@/contexts/FocusModeContext";
 import { Badge } from "@/components/ui/badge";
-import { Shield, CheckCircle, XCircle } from "lucide-react";
+import { Shield, CheckCircle, XCircle, Tags } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import AppCategoryService, { AppCategory } from "@/services/AppCategoryService";
 
 interface AppUsageItem {
   name: string;
   time: number;
-  type: "productive" | "distraction" | "communication";
+  type: string;
   lastActiveTime?: number;
 }
 
@@ -24,7 +35,17 @@ export function AppUsageList({ className }: AppUsageListProps) {
   const [appUsageData, setAppUsageData] = useState<AppUsageItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { user } = useAuth();
-  const { isFocusMode, whitelist, currentActiveApp, isCurrentAppWhitelisted } = useFocusMode();
+  const { isFocusMode, activeWhitelist, currentActiveApp, isCurrentAppWhitelisted } = useFocusMode();
+  const [categories, setCategories] = useState<AppCategory[]>(() => AppCategoryService.getInstance().getCategories());
+  
+  // Keep the category list in sync with the category settings
+  useEffect(() => {
+    const categoryService = AppCategoryService.getInstance();
+    const handleCategoriesChanged = () => setCategories(categoryService.getCategories());
+    
+    categoryService.addChangeListener(handleCategoriesChanged);
+    return () => categoryService.removeChangeListener(handleCategoriesChanged);
+  }, []);
   
   useEffect(() => {
     const systemTray = SystemTrayService.getInstance();
@@ -35,7 +56,7 @@ export function AppUsageList({ className }: AppUsageListProps) {
       const formattedAppUsage: AppUsageItem[] = appUsage.map(app => ({
         name: app.name,
         time: app.time,
-        type: app.type as "productive" | "distraction" | "communication",
+        type: app.type,
         lastActiveTime: app.lastActiveTime
       }));
       
@@ -92,8 +113,16 @@ export function AppUsageList({ className }: AppUsageListProps) {
     }
   };
 
+  const getCategoryColor = (categoryId: string): string => {
+    return AppCategoryService.getInstance().getCategory(categoryId).color;
+  };
+  
+  const handleReclassify = (appName: string, categoryId: string) => {
+    SystemTrayService.getInstance().reclassifyApp(appName, categoryId);
+  };
+
   const isAppWhitelisted = (appName: string): boolean => {
-    return whitelist.some(item => 
+    return activeWhitelist.some(item => 
       appName.toLowerCase().includes(item.toLowerCase()) || 
       item.toLowerCase().includes(appName.toLowerCase())
     );
@@ -161,12 +190,8 @@ export function AppUsageList({ className }: AppUsageListProps) {
                 >
                   <div className="flex items-center space-x-3">
                     <div
-                      className={cn(
-                        "h-3 w-3 rounded-full",
-                        app.type === "productive" && "bg-attention-green-400",
-                        app.type === "distraction" && "bg-attention-warm-400",
-                        app.type === "communication" && "bg-attention-blue-400"
-                      )}
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: getCategoryColor(app.type) }}
                     ></div>
                     <div className="flex items-center">
                       <span>{app.name}</span>
@@ -182,7 +207,34 @@ export function AppUsageList({ className }: AppUsageListProps) {
                       )}
                     </div>
                   </div>
-                  <div className="text-sm font-medium">{formatTime(app.time)}</div>
+                  <div className="flex items-center space-x-1">
+                    <div className="text-sm font-medium">{formatTime(app.time)}</div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Reclassify ${app.name}`}>
+                          <Tags className="h-3.5 w-3.5" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>Reclassify this app</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuRadioGroup
+                          value={app.type}
+                          onValueChange={(categoryId) => handleReclassify(app.name, categoryId)}
+                        >
+                          {categories.map((category) => (
+                            <DropdownMenuRadioItem key={category.id} value={category.id}>
+                              <span
+                                className="mr-2 h-2 w-2 rounded-full"
+                                style={{ backgroundColor: category.color }}
+                              ></span>
+                              {category.name}
+                            </DropdownMenuRadioItem>
+                          ))}
+                        </DropdownMenuRadioGroup>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
                 </div>
               ))}
             </div>
@@ -199,19 +251,16 @@ export function AppUsageList({ className }: AppUsageListProps) {
           </div>
         )}
         
-        <div className="mt-4 flex items-center justify-center space-x-6">
-          <div className="flex items-center">
-            <div className="mr-2 h-3 w-3 rounded-full bg-attention-green-400"></div>
-            <span className="text-sm text-muted-foreground">Productive</span>
-          </div>
-          <div className="flex items-center">
-            <div className="mr-2 h-3 w-3 rounded-full bg-attention-warm-400"></div>
-            <span className="text-sm text-muted-foreground">Distraction</span>
-          </div>
-          <div className="flex items-center">
-            <div className="mr-2 h-3 w-3 rounded-full bg-attention-blue-400"></div>
-            <span className="text-sm text-muted-foreground">Communication</span>
-          </div>
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
+          {categories.map((category) => (
+            <div key={category.id} className="flex items-center">
+              <div
+                className="mr-2 h-3 w-3 rounded-full"
+                style={{ backgroundColor: category.color }}
+              ></div>
+              <span className="text-sm text-muted-foreground">{category.name}</span>
+            </div>
+          ))}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,51 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Eye } from "lucide-react";
+import { useBlinkDetection } from "@/hooks/use-blink-detection";
+
+interface BlinkMonitorProps {
+  className?: string;
+}
+
+export function BlinkMonitor({ className }: BlinkMonitorProps) {
+  const { isDetecting, isSupported, isInitializing, blinkRate, isCameraPaused, toggleDetection } = useBlinkDetection();
+
+  const getStatus = () => {
+    if (!isDetecting) return "Uses your camera to check how often you blink";
+    if (isCameraPaused) return "Camera paused from the tray";
+    if (!blinkRate || !blinkRate.isFaceVisible) return "Looking for your face...";
+    if (blinkRate.blinksPerMinute === null) return "Measuring your blink rate...";
+    return `${blinkRate.blinksPerMinute} blinks per minute`;
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Blink Monitor</CardTitle>
+        <Eye className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={isDetecting}
+            onCheckedChange={toggleDetection}
+            disabled={!isSupported || isInitializing}
+          />
+          <span className="text-sm">
+            {isInitializing ? "Starting camera..." : isDetecting ? "Active" : "Off"}
+          </span>
+          {blinkRate?.isLow && (
+            <Badge variant="destructive" className="text-xs">Low</Badge>
+          )}
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {isSupported ? getStatus() : "No camera is available on this device"}
+        </p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Video is processed on this device and never stored or uploaded.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
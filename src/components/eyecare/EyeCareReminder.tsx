@@ -2,13 +2,13 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Eye, EyeOff, Clock } from "lucide-react";
+import { Eye, EyeOff, Clock, SkipForward, AlarmClock } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useTimer } from "@/contexts/TimerContext";
+import { EyeCareBreak, useTimer } from "@/contexts/TimerContext";
 import { useSystemTray } from "@/hooks/use-system-tray";
 import { useEyeCareTray } from "@/hooks/use-eye-care-tray"; 
-import { useEffect } from "react";
-import { toast } from "@/hooks/use-toast";
+import { formatBreakDuration, getEyeCareRegimen, getStretchPrompt } from "@/lib/eyeCareRegimens";
+import { SNOOZE_OPTIONS } from "@/services/ReminderService";
 
 interface EyeCareReminderProps {
   className?: string;
@@ -22,9 +22,16 @@ export function EyeCareReminder({ className }: EyeCareReminderProps) {
     eyeCareRestProgress,
     eyeCareWorkDuration,
     eyeCareRestDuration,
+    isEyeCareLongBreak,
+    eyeCareRegimen,
+    eyeCareLongBreakEvery,
+    eyeCareLongBreakDuration,
+    eyeCareBreakLog,
     startEyeCareTimer,
     pauseEyeCareTimer,
-    resetEyeCareTimer
+    resetEyeCareTimer,
+    skipEyeCareBreak,
+    snoozeEyeCareBreak
   } = useTimer();
   
   // Initialize system tray
@@ -33,51 +40,15 @@ export function EyeCareReminder({ className }: EyeCareReminderProps) {
   // Initialize eye care tray functionality
   useEyeCareTray();
   
-  // Set up notifications for eye care events
-  useEffect(() => {
-    if (isEyeCareResting && eyeCareTimeElapsed === 0) {
-      // First frame of rest period - notify user
-      toast({
-        title: "Eye Care Reminder",
-        description: "Time to rest your eyes! Look 20ft away for 20 seconds.",
-        duration: 8000,
-      });
-      
-      // Send a notification via system tray as well
-      if (typeof window !== 'undefined' && window.electron) {
-        try {
-          console.log("Sending eye care break notification");
-          window.electron.send('show-native-notification', {
-            title: "Eye Care Break",
-            body: "Time to rest your eyes! Look 20ft away for 20 seconds."
-          });
-        } catch (error) {
-          console.error("Failed to send eye care break notification:", error);
-        }
-      }
-    } 
-    else if (!isEyeCareResting && eyeCareTimeElapsed === 0 && isEyeCareActive) {
-      // Rest period just ended - notify user
-      toast({
-        title: "Eye Care Break Complete",
-        description: "You can resume your work now. Next break in 20 minutes.",
-        duration: 5000,
-      });
-      
-      // Send a notification via system tray as well
-      if (typeof window !== 'undefined' && window.electron) {
-        try {
-          console.log("Sending eye care completed notification");
-          window.electron.send('show-native-notification', {
-            title: "Eye Care Break Complete",
-            body: "You can resume your work now. Next break in 20 minutes."
-          });
-        } catch (error) {
-          console.error("Failed to send eye care complete notification:", error);
-        }
-      }
-    }
-  }, [isEyeCareResting, eyeCareTimeElapsed, isEyeCareActive]);
+  // Today's breaks: taken in full, skipped or snoozed
+  const startOfToday = new Date().setHours(0, 0, 0, 0);
+  const todaysBreaks = eyeCareBreakLog.filter(entry => entry.time >= startOfToday);
+  const countOutcome = (outcome: EyeCareBreak["outcome"]) =>
+    todaysBreaks.filter(entry => entry.outcome === outcome).length;
+  
+  // Same prompt as the toast that started this break
+  const stretchPrompt = getStretchPrompt(eyeCareBreakLog.filter(entry => entry.kind === "long").length);
+  const restDuration = isEyeCareLongBreak ? eyeCareLongBreakDuration : eyeCareRestDuration;
 
   const toggleActive = () => {
     if (isEyeCareActive) {
@@ -88,7 +59,6 @@ export function EyeCareReminder({ className }: EyeCareReminderProps) {
   };
   
   const workProgress = ((eyeCareWorkDuration - eyeCareTimeElapsed) / eyeCareWorkDuration) * 100;
-  const workDurationMinutes = Math.floor(eyeCareWorkDuration / 60);
 
   return (
     <Card className={cn("h-full", className)}>
@@ -109,9 +79,9 @@ export function EyeCareReminder({ className }: EyeCareReminderProps) {
         >
           {isEyeCareResting ? (
             <div className="flex flex-col items-center justify-center text-center">
-              <span className="text-lg font-semibold">Rest Eyes</span>
+              <span className="text-lg font-semibold">{isEyeCareLongBreak ? "Long Break" : "Rest Eyes"}</span>
               <span className="text-sm font-bold bg-background/80 dark:bg-background/30 text-foreground px-2 py-0.5 rounded-full shadow-sm">
-                {eyeCareRestDuration - eyeCareTimeElapsed}s
+                {formatBreakDuration(Math.max(0, restDuration - eyeCareTimeElapsed))}
               </span>
             </div>
           ) : (
@@ -159,11 +129,42 @@ export function EyeCareReminder({ className }: EyeCareReminderProps) {
             <Clock className="mr-2 h-4 w-4" /> Reset
           </Button>
         </div>
+        
+        {isEyeCareResting && (
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={skipEyeCareBreak}
+              className="rounded-full"
+            >
+              <SkipForward className="mr-2 h-4 w-4" /> Skip
+            </Button>
+            {SNOOZE_OPTIONS.map(minutes => (
+              <Button
+                key={minutes}
+                variant="outline"
+                size="sm"
+                onClick={() => snoozeEyeCareBreak(minutes)}
+                className="rounded-full"
+              >
+                <AlarmClock className="mr-2 h-4 w-4" /> {minutes} min
+              </Button>
+            ))}
+          </div>
+        )}
 
         <div className="text-center text-sm text-muted-foreground">
           {isEyeCareResting 
-            ? `Rest your eyes for ${eyeCareRestDuration} seconds` 
-            : `Work for ${workDurationMinutes} minutes before taking an eye break`}
+            ? isEyeCareLongBreak
+              ? `Step away for ${formatBreakDuration(restDuration)}. ${stretchPrompt}`
+              : `Look at something 20 feet away for ${formatBreakDuration(restDuration)}`
+            : `${getEyeCareRegimen(eyeCareRegimen).name}: a ${formatBreakDuration(eyeCareRestDuration)} break every ${formatBreakDuration(eyeCareWorkDuration)}` +
+              (eyeCareLongBreakEvery > 0 ? `, with a ${formatBreakDuration(eyeCareLongBreakDuration)} break after every ${eyeCareLongBreakEvery}` : "")}
+        </div>
+        
+        <div className="text-xs text-muted-foreground">
+          Today: {countOutcome("taken")} taken, {countOutcome("skipped")} skipped, {countOutcome("snoozed")} snoozed
         </div>
         
         <div className="text-xs text-muted-foreground mt-2">
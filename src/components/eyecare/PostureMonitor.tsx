@@ -0,0 +1,70 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { PersonStanding } from "lucide-react";
+import { usePostureMonitor } from "@/hooks/use-posture-monitor";
+
+interface PostureMonitorProps {
+  className?: string;
+}
+
+export function PostureMonitor({ className }: PostureMonitorProps) {
+  const {
+    isMonitoring,
+    isCalibrated,
+    isCalibrating,
+    isSupported,
+    isCameraPaused,
+    lastEvent,
+    calibrate,
+    toggleMonitoring
+  } = usePostureMonitor();
+
+  const getStatus = () => {
+    if (!isSupported) return "No camera is available on this device";
+    if (isCalibrating) return "Sit the way you'd like to and look at the screen...";
+    if (!isMonitoring) return "Uses your camera to warn you when you sit too close or slouch";
+    if (isCameraPaused) return "Camera paused from the tray";
+    if (!lastEvent) return "Watching your posture";
+
+    const at = new Date(lastEvent.time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    return `Last warning: ${lastEvent.type === "too_close" ? "too close" : "slouching"} at ${at}`;
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Posture & Distance</CardTitle>
+        <PersonStanding className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={isMonitoring}
+              onCheckedChange={toggleMonitoring}
+              disabled={!isSupported || isCalibrating}
+            />
+            <span className="text-sm">
+              {isCalibrating ? "Calibrating..." : isMonitoring ? "Active" : "Off"}
+            </span>
+          </div>
+          {isCalibrated && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={calibrate}
+              disabled={!isSupported || isCalibrating}
+            >
+              Recalibrate
+            </Button>
+          )}
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">{getStatus()}</p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Video is processed on this device and never stored or uploaded.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@ import React, { useEffect, useState, useRef } from 'react';
 import { X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useFocusMode } from '@/contexts/FocusModeContext';
+import { profileStorage } from '@/lib/profileStorage';
 
 interface FocusModeAlertProps {
   appName: string;
@@ -16,20 +17,17 @@ export function FocusModeAlert({
   imageUrl
 }: FocusModeAlertProps) {
   const [isVisible, setIsVisible] = useState(true);
-  const { dimInsteadOfBlock } = useFocusMode();
+  const { activeDimInsteadOfBlock: dimInsteadOfBlock } = useFocusMode();
   const [imageError, setImageError] = useState(false);
   const [popupShown, setPopupShown] = useState(false);
   const [customText, setCustomText] = useState("");
   const notificationIdRef = useRef<string>(`focus-alert-${appName}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`);
   
-  // Load custom text from localStorage
+  // Load custom text from the signed-in profile's storage
   useEffect(() => {
-    const userId = localStorage.getItem('focusModeUserId');
-    if (userId) {
-      const savedText = localStorage.getItem(`focusModeCustomText-${userId}`);
-      if (savedText) {
-        setCustomText(savedText);
-      }
+    const savedText = profileStorage.getItem('focusModeCustomText');
+    if (savedText) {
+      setCustomText(savedText);
     }
   }, []);
   
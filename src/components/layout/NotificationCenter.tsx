@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NotificationEntry, NotificationSource } from "@/services/NotificationCenterService";
+import { ReminderAction } from "@/services/ReminderService";
+import { QUIET_REASON_LABELS } from "@/services/QuietModeService";
+import { cn } from "@/lib/utils";
+
+const SOURCE_LABELS: Record<NotificationSource, string> = {
+  eye_care: "Eye care",
+  pomodoro: "Pomodoro",
+  custom_rule: "Custom rule",
+  focus_alert: "Focus alert",
+  system: "System",
+};
+
+const RESPONSE_LABELS: Record<ReminderAction, string> = {
+  dismissed: "Dismissed",
+  expired: "Ignored",
+  snoozed: "Snoozed",
+  skipped: "Skipped",
+  dnd: "Turned on Do Not Disturb",
+  suppressed: "Silenced by Do Not Disturb",
+};
+
+interface NotificationCenterProps {
+  notifications: NotificationEntry[];
+  onClear: (source?: NotificationSource) => void;
+}
+
+// The inbox behind the bell in the top bar: every alert, newest first
+export function NotificationCenter({ notifications, onClear }: NotificationCenterProps) {
+  const [filter, setFilter] = useState<NotificationSource | "all">("all");
+
+  const visibleNotifications = notifications
+    .filter(entry => filter === "all" || entry.source === filter)
+    .slice()
+    .reverse();
+
+  return (
+    <div className="mt-4 flex h-[calc(100%-2rem)] flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <Select value={filter} onValueChange={value => setFilter(value as NotificationSource | "all")}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All alerts</SelectItem>
+            {(Object.keys(SOURCE_LABELS) as NotificationSource[]).map(source => (
+              <SelectItem key={source} value={source}>
+                {SOURCE_LABELS[source]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onClear(filter === "all" ? undefined : filter)}
+          disabled={visibleNotifications.length === 0}
+        >
+          Clear
+        </Button>
+      </div>
+
+      {visibleNotifications.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No notifications yet.</p>
+      ) : (
+        <div className="flex-1 space-y-3 overflow-y-auto pr-1">
+          {visibleNotifications.map(entry => (
+            <div
+              key={entry.id}
+              className={cn("rounded-lg border p-4 hover:bg-accent", !entry.isRead && "border-primary/50")}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <Badge variant="outline" className="text-xs">
+                  {SOURCE_LABELS[entry.source]}
+                </Badge>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.time).toLocaleString([], {
+                    month: "short",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </span>
+              </div>
+              <h3 className="mt-2 font-medium">{entry.title}</h3>
+              <p className="text-sm text-muted-foreground">{entry.body}</p>
+              {entry.deferredBy && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Held back until {QUIET_REASON_LABELS[entry.deferredBy]} was over
+                  {entry.releasedAt && `, shown at ${new Date(entry.releasedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+                </p>
+              )}
+              {entry.response && (
+                <p className="mt-2 text-xs text-muted-foreground">{RESPONSE_LABELS[entry.response]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
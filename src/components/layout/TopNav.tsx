@@ -1,5 +1,5 @@
 
-import { Bell, Moon, Sun, User, LogOut } from "lucide-react";
+import { Bell, Moon, Sun, User, LogOut, HardDrive, Lock, UserPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -21,19 +21,32 @@ import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { useState, useEffect } from "react";
 import { useTheme } from "next-themes";
+import { NotificationCenter } from "@/components/layout/NotificationCenter";
+import { useNotificationCenter } from "@/hooks/use-notification-center";
+import LocalProfileService, { LocalProfile } from "@/services/LocalProfileService";
 
 export function TopNav() {
-  const { user, logout } = useAuth();
+  const { user, logout, openLocalProfile } = useAuth();
   const navigate = useNavigate();
+  const localProfiles = LocalProfileService.getInstance();
+  const [profiles, setProfiles] = useState<LocalProfile[]>(() => localProfiles.getProfiles());
   const [isNotificationOpen, setIsNotificationOpen] = useState(false);
   const { theme, setTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
+  const { notifications, unreadCount, markAllRead, clearNotifications } = useNotificationCenter();
 
   // Only render theme toggle after component has mounted to avoid hydration mismatch
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  useEffect(() => {
+    localProfiles.addProfilesListener(setProfiles);
+    return () => localProfiles.removeProfilesListener(setProfiles);
+  }, [localProfiles]);
+
+  const otherProfiles = profiles.filter(profile => profile.id !== user?.id);
+
   const toggleTheme = () => {
     // Explicitly check for the current theme and set the opposite
     if (theme === "dark") {
@@ -51,12 +64,22 @@ export function TopNav() {
     navigate("/login");
   };
 
-  // Demo notifications for preview
-  const notifications = [
-    { id: 1, title: "Welcome back!", message: "Great to see you again!" },
-    { id: 2, title: "Tip", message: "Remember to take regular breaks" },
-    { id: 3, title: "Focus Time", message: "You've been productive today!" },
-  ];
+  // A profile behind a PIN is unlocked on the profiles page
+  const handleSwitchProfile = (profile: LocalProfile) => {
+    if (profile.pin) {
+      navigate("/local", { state: { profileId: profile.id } });
+    } else {
+      openLocalProfile(profile.id);
+    }
+  };
+
+  // Everything in the inbox counts as read once it has been opened
+  const handleNotificationOpenChange = (open: boolean) => {
+    setIsNotificationOpen(open);
+    if (open) {
+      markAllRead();
+    }
+  };
 
   return (
     <div className="flex h-16 items-center justify-between border-b px-6">
@@ -68,29 +91,22 @@ export function TopNav() {
         <h1 className="text-xl font-semibold">Attention Please!</h1>
       </div>
       <div className="flex items-center space-x-4">
-        <Sheet open={isNotificationOpen} onOpenChange={setIsNotificationOpen}>
+        <Sheet open={isNotificationOpen} onOpenChange={handleNotificationOpenChange}>
           <SheetTrigger asChild>
-            <Button variant="ghost" size="icon">
+            <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
               <Bell className="h-5 w-5" />
+              {unreadCount > 0 && (
+                <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+                  {unreadCount > 99 ? "99+" : unreadCount}
+                </span>
+              )}
             </Button>
           </SheetTrigger>
           <SheetContent>
             <SheetHeader>
               <SheetTitle>Notifications</SheetTitle>
             </SheetHeader>
-            <div className="mt-4 space-y-4">
-              {notifications.map((notification) => (
-                <div
-                  key={notification.id}
-                  className="rounded-lg border p-4 hover:bg-accent"
-                >
-                  <h3 className="font-medium">{notification.title}</h3>
-                  <p className="text-sm text-muted-foreground">
-                    {notification.message}
-                  </p>
-                </div>
-              ))}
-            </div>
+            <NotificationCenter notifications={notifications} onClear={clearNotifications} />
           </SheetContent>
         </Sheet>
 
@@ -118,6 +134,25 @@ export function TopNav() {
           <DropdownMenuContent align="end">
             <DropdownMenuLabel>{user?.name || "User"}</DropdownMenuLabel>
             <DropdownMenuSeparator />
+            {otherProfiles.length > 0 && (
+              <>
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  Switch profile
+                </DropdownMenuLabel>
+                {otherProfiles.map(profile => (
+                  <DropdownMenuItem key={profile.id} onClick={() => handleSwitchProfile(profile)}>
+                    <HardDrive className="h-4 w-4 mr-2" />
+                    {profile.name}
+                    {profile.pin && <Lock className="h-3 w-3 ml-auto text-muted-foreground" />}
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
+            <DropdownMenuItem onClick={() => navigate("/local")}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add profile
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleLogout} className="text-destructive">
               <LogOut className="h-4 w-4 mr-2" />
               Log out
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { toast } from "sonner";
+import { CloudUpload, HardDrive, RefreshCw, UserRound } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import LocalProfileService from "@/services/LocalProfileService";
+import PreferencesSyncService from "@/services/PreferencesSyncService";
+
+const upgradeSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string().min(1, "Please confirm your password")
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"]
+});
+
+type UpgradeValues = z.infer<typeof upgradeSchema>;
+
+const formatSyncTime = (time: number | null) =>
+  time ? new Date(time).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) : "Not yet";
+
+// A local profile can get a PIN or become a server account; a server account
+// shows how its settings sync
+export function AccountSettings() {
+  const { user, upgradeLocalProfile, isLoading } = useAuth();
+  const localProfiles = LocalProfileService.getInstance();
+  const preferencesSync = PreferencesSyncService.getInstance();
+  const [pin, setPin] = useState("");
+  const [hasPin, setHasPin] = useState(() => Boolean(user && localProfiles.getProfile(user.id)?.pin));
+  const [lastSyncedAt, setLastSyncedAt] = useState(() => preferencesSync.getLastSyncedAt());
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const form = useForm<UpgradeValues>({
+    resolver: zodResolver(upgradeSchema),
+    defaultValues: { email: "", password: "", confirmPassword: "" },
+  });
+
+  if (!user) return null;
+
+  const handleSavePin = async () => {
+    if (!/^\d{4,8}$/.test(pin)) {
+      toast.error("PIN must be 4 to 8 digits");
+      return;
+    }
+    await localProfiles.setPin(user.id, pin);
+    setPin("");
+    setHasPin(true);
+    toast.success("PIN saved");
+  };
+
+  const handleRemovePin = async () => {
+    await localProfiles.setPin(user.id, null);
+    setHasPin(false);
+    toast.success("PIN removed");
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    await preferencesSync.sync();
+    setLastSyncedAt(preferencesSync.getLastSyncedAt());
+    setIsSyncing(false);
+  };
+
+  if (!user.isLocal) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserRound className="h-5 w-5" />
+            Account
+          </CardTitle>
+          <CardDescription>
+            Signed in as {user.name} ({user.email}). Your settings, custom rules and focus whitelists sync to every device you sign in on.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">Last synced: {formatSyncTime(lastSyncedAt)}</p>
+          <Button variant="outline" onClick={handleSyncNow} disabled={isSyncing}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {isSyncing ? "Syncing..." : "Sync now"}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HardDrive className="h-5 w-5" />
+            Local Profile
+          </CardTitle>
+          <CardDescription>
+            {user.name}'s profile is kept only on this device and never sent to a server.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="profile-pin">{hasPin ? "Change PIN" : "Add a PIN"}</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="profile-pin"
+              type="password"
+              inputMode="numeric"
+              placeholder="4 to 8 digits"
+              className="w-48"
+              value={pin}
+              onChange={event => setPin(event.target.value)}
+            />
+            <Button onClick={handleSavePin} disabled={!pin}>
+              Save PIN
+            </Button>
+            {hasPin && (
+              <Button variant="outline" onClick={handleRemovePin}>
+                Remove PIN
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CloudUpload className="h-5 w-5" />
+            Create an Account
+          </CardTitle>
+          <CardDescription>
+            Turn this profile into a server account to use it on other devices. Your history, rules and whitelists come along.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => upgradeLocalProfile(data.email, data.password))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="you@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "Creating account..." : "Create account"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import AppCategoryService, {
+  AppCategory,
+  CategoryRule,
+  CategoryRuleField,
+  CategoryRuleMatchType,
+} from "@/services/AppCategoryService";
+
+const FIELD_LABELS: Record<CategoryRuleField, string> = {
+  name: "App name",
+  path: "Executable path",
+  bundleId: "Bundle ID",
+  title: "Window title",
+  domain: "Website domain",
+};
+
+const MATCH_TYPE_LABELS: Record<CategoryRuleMatchType, string> = {
+  exact: "Exact",
+  glob: "Glob",
+  regex: "Regex",
+};
+
+export function CategoryRulesSettings() {
+  const categoryService = AppCategoryService.getInstance();
+  const [categories, setCategories] = useState<AppCategory[]>(() => categoryService.getCategories());
+  const [rules, setRules] = useState<CategoryRule[]>(() => categoryService.getRules());
+
+  // New category form
+  const [newCategoryName, setNewCategoryName] = useState("");
+  const [newCategoryColor, setNewCategoryColor] = useState("#A78BFA");
+
+  // New rule form
+  const [ruleCategoryId, setRuleCategoryId] = useState("productive");
+  const [ruleField, setRuleField] = useState<CategoryRuleField>("name");
+  const [ruleMatchType, setRuleMatchType] = useState<CategoryRuleMatchType>("glob");
+  const [rulePattern, setRulePattern] = useState("");
+  const [rulePriority, setRulePriority] = useState(50);
+
+  // Rule tester
+  const [testAppName, setTestAppName] = useState("");
+
+  useEffect(() => {
+    const handleChange = () => {
+      setCategories(categoryService.getCategories());
+      setRules(categoryService.getRules());
+    };
+
+    categoryService.addChangeListener(handleChange);
+    return () => categoryService.removeChangeListener(handleChange);
+  }, [categoryService]);
+
+  const handleAddCategory = () => {
+    if (!newCategoryName.trim()) return;
+
+    categoryService.addCategory(newCategoryName, newCategoryColor);
+    toast.success(`Added category ${newCategoryName.trim()}`);
+    setNewCategoryName("");
+  };
+
+  const handleAddRule = () => {
+    if (!AppCategoryService.isValidPattern(ruleMatchType, rulePattern)) {
+      toast.error(ruleMatchType === "regex" ? "That regular expression is not valid" : "Enter a pattern to match");
+      return;
+    }
+
+    categoryService.addRule({
+      categoryId: ruleCategoryId,
+      field: ruleField,
+      matchType: ruleMatchType,
+      pattern: rulePattern.trim(),
+      priority: rulePriority,
+      isActive: true,
+    });
+    toast.success("Category rule added");
+    setRulePattern("");
+  };
+
+  const handleResetRules = () => {
+    categoryService.resetToDefaults();
+    toast.info("Category rules reset to defaults");
+  };
+
+  const testCategory = testAppName.trim()
+    ? categoryService.getCategory(categoryService.classify({ name: testAppName.trim() }))
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>App Categories</CardTitle>
+        <CardDescription>
+          Decide how applications are classified. Rules are checked from highest to lowest priority and the first match wins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Categories */}
+        <div className="space-y-4">
+          <Label>Categories</Label>
+          <div className="flex flex-wrap gap-2">
+            {categories.map((category) => (
+              <Badge key={category.id} variant="outline" className="flex items-center gap-2 py-1">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: category.color }}></span>
+                {category.name}
+                {!category.isBuiltIn && (
+                  <button
+                    onClick={() => categoryService.deleteCategory(category.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <Input
+              placeholder="New category name (e.g., Research)"
+              value={newCategoryName}
+              onChange={(e) => setNewCategoryName(e.target.value)}
+              className="flex-1"
+            />
+            <Input
+              type="color"
+              value={newCategoryColor}
+              onChange={(e) => setNewCategoryColor(e.target.value)}
+              className="w-14 p-1"
+              aria-label="Category color"
+            />
+            <Button onClick={handleAddCategory}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {/* New rule */}
+        <div className="space-y-4 border rounded-lg p-4">
+          <h3 className="text-lg font-medium">Add Rule</h3>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={ruleCategoryId} onValueChange={setRuleCategoryId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Match against</Label>
+              <Select value={ruleField} onValueChange={(value) => setRuleField(value as CategoryRuleField)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FIELD_LABELS).map(([field, label]) => (
+                    <SelectItem key={field} value={field}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Match type</Label>
+              <Select value={ruleMatchType} onValueChange={(value) => setRuleMatchType(value as CategoryRuleMatchType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(MATCH_TYPE_LABELS).map(([matchType, label]) => (
+                    <SelectItem key={matchType} value={matchType}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">Priority</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                min={0}
+                max={1000}
+                value={rulePriority}
+                onChange={(e) => setRulePriority(Number(e.target.value))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rule-pattern">Pattern</Label>
+            <Input
+              id="rule-pattern"
+              placeholder={ruleMatchType === "regex" ? "^figma" : ruleMatchType === "glob" ? "*figma*" : "Figma"}
+              value={rulePattern}
+              onChange={(e) => setRulePattern(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Glob patterns support * and ?. All matching is case-insensitive.
+            </p>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleAddRule}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+
+        {/* Rule list */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Rules</Label>
+            <Button variant="ghost" size="sm" onClick={handleResetRules}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to defaults
+            </Button>
+          </div>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">
+                No rules yet. Every app will be shown as Uncategorized.
+              </p>
+            ) : (
+              rules.map((rule) => {
+                const category = categoryService.getCategory(rule.categoryId);
+                return (
+                  <div key={rule.id} className="flex items-center justify-between rounded-lg border p-2">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(checked) => categoryService.updateRule(rule.id, { isActive: checked })}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          <span className="font-mono">{rule.pattern}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {FIELD_LABELS[rule.field]} · {MATCH_TYPE_LABELS[rule.matchType]} · priority {rule.priority}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: category.color }}></span>
+                        {category.name}
+                      </Badge>
+                      <Button variant="ghost" size="icon" onClick={() => categoryService.deleteRule(rule.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        {/* Rule tester */}
+        <div className="space-y-2">
+          <Label htmlFor="test-app">Test an app name</Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              id="test-app"
+              placeholder="e.g., Microsoft Outlook"
+              value={testAppName}
+              onChange={(e) => setTestAppName(e.target.value)}
+              className="flex-1"
+            />
+            {testCategory && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: testCategory.color }}></span>
+                {testCategory.name}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
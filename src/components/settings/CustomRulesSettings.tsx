@@ -6,13 +6,148 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Trash2, Plus, Upload, X } from "lucide-react";
-import { useCustomRules } from "@/contexts/CustomRulesContext";
+import { toast } from "sonner";
+import { RuleAction, useCustomRules } from "@/contexts/CustomRulesContext";
+import AppCategoryService from "@/services/AppCategoryService";
+import {
+  RULE_CONDITIONS,
+  RuleCondition,
+  RuleConditionType,
+  RuleOperator,
+  describeConditions,
+  formatMinutesOfDay,
+  parseTimeOfDay,
+} from "@/lib/ruleConditions";
+
+const createCondition = (type: RuleConditionType): RuleCondition => ({
+  type,
+  ...RULE_CONDITIONS[type].defaults,
+});
+
+interface ConditionEditorProps {
+  idPrefix: string;
+  condition: RuleCondition;
+  onChange: (changes: Partial<RuleCondition>) => void;
+}
+
+type FocusModeChoice = "none" | "on" | "off";
+
+const describeAction = (action: RuleAction): string => {
+  switch (action.type) {
+    case "popup":
+      return action.text;
+    case "start_pomodoro":
+      return "Start a Pomodoro";
+    case "focus_mode":
+      return `Turn Focus Mode ${action.enabled ? "on" : "off"}`;
+  }
+};
+
+// Fields for each condition type. They all edit the shared threshold/timeWindow/target shape.
+function ConditionEditor({ idPrefix, condition, onChange }: ConditionEditorProps) {
+  const numberField = (id: string, label: string, value: number, min: number, max: number, field: "threshold" | "timeWindow") => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange({ [field]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  switch (condition.type) {
+    case "app_switch":
+      return (
+        <div className="grid gap-4 md:grid-cols-2">
+          {numberField(`${idPrefix}-threshold`, "App switches", condition.threshold, 1, 100, "threshold")}
+          {numberField(`${idPrefix}-window`, "Within (seconds)", condition.timeWindow, 10, 3600, "timeWindow")}
+        </div>
+      );
+    case "category_time":
+      return (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={condition.target || "distraction"} onValueChange={(target) => onChange({ target })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AppCategoryService.getInstance().getCategories().map((category) => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {numberField(`${idPrefix}-threshold`, "Continuous minutes", condition.threshold, 1, 480, "threshold")}
+        </div>
+      );
+    case "screen_time":
+      return numberField(`${idPrefix}-threshold`, "Screen time today (minutes)", condition.threshold, 1, 1440, "threshold");
+    case "focus_score_below":
+      return numberField(`${idPrefix}-threshold`, "Focus score below (%)", condition.threshold, 1, 100, "threshold");
+    case "idle_return":
+      return numberField(`${idPrefix}-threshold`, "Away for at least (minutes)", condition.threshold, 1, 480, "threshold");
+    case "app_opened":
+      return (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-target`}>App or website</Label>
+          <Input
+            id={`${idPrefix}-target`}
+            placeholder="e.g., Slack, youtube.com"
+            value={condition.target || ""}
+            onChange={(e) => onChange({ target: e.target.value })}
+          />
+        </div>
+      );
+    case "time_of_day":
+    case "after_time":
+      return (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-time`}>Time</Label>
+          <Input
+            id={`${idPrefix}-time`}
+            type="time"
+            value={formatMinutesOfDay(condition.threshold)}
+            onChange={(e) => onChange({ threshold: parseTimeOfDay(e.target.value) })}
+          />
+        </div>
+      );
+    case "focus_mode":
+      return (
+        <div className="space-y-2">
+          <Label>Focus Mode</Label>
+          <Select value={condition.target || "off"} onValueChange={(target) => onChange({ target })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="on">On</SelectItem>
+              <SelectItem value="off">Off</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    default:
+      return null;
+  }
+}
 
 export function CustomRulesSettings() {
-  const { rules, addRule, deleteRule } = useCustomRules();
+  const { rules, addRule, deleteRule, toggleRuleEnabled } = useCustomRules();
   const [isCreating, setIsCreating] = useState(false);
   const [ruleName, setRuleName] = useState("");
+  const [conditions, setConditions] = useState<RuleCondition[]>(() => [createCondition("app_switch")]);
+  const [operator, setOperator] = useState<RuleOperator>("and");
+  const [showPopup, setShowPopup] = useState(true);
+  const [startPomodoro, setStartPomodoro] = useState(false);
+  const [focusModeChoice, setFocusModeChoice] = useState<FocusModeChoice>("none");
   const [actionText, setActionText] = useState("");
   const [mediaType, setMediaType] = useState<"none" | "image" | "video">("none");
   const [mediaFile, setMediaFile] = useState<File | null>(null);
@@ -22,6 +157,11 @@ export function CustomRulesSettings() {
   
   const resetForm = () => {
     setRuleName("");
+    setConditions([createCondition("app_switch")]);
+    setOperator("and");
+    setShowPopup(true);
+    setStartPomodoro(false);
+    setFocusModeChoice("none");
     setActionText("");
     setMediaType("none");
     setMediaFile(null);
@@ -59,28 +199,37 @@ export function CustomRulesSettings() {
     setMediaType("none");
   };
   
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    setConditions(prev => prev.map((condition, i) => i === index ? { ...condition, ...changes } : condition));
+  };
+  
   const handleSaveRule = async () => {
     // Validate form
-    if (!ruleName.trim() || !actionText.trim()) {
+    if (!ruleName.trim()) {
       return;
     }
     
-    let mediaContent = "";
+    if (conditions.some(condition => condition.type === "app_opened" && !condition.target?.trim())) {
+      toast.error("Enter the app or website to watch for");
+      return;
+    }
     
-    // Process media file if it exists
-    if (mediaFile && mediaPreview) {
-      mediaContent = mediaPreview;
+    if (showPopup && !actionText.trim()) {
+      toast.error("Enter a notification message");
+      return;
     }
     
-    // Create rule - using the proper structure according to our context
-    addRule({
-      name: ruleName,
-      condition: {
-        type: "app_switch", // Default condition
-        threshold: 5,
-        timeWindow: 60,
-      },
-      action: {
+    const actions: RuleAction[] = [];
+    
+    if (showPopup) {
+      let mediaContent = "";
+      
+      // Process media file if it exists
+      if (mediaFile && mediaPreview) {
+        mediaContent = mediaPreview;
+      }
+      
+      actions.push({
         type: "popup",
         text: actionText,
         media: mediaType !== "none" ? {
@@ -89,7 +238,31 @@ export function CustomRulesSettings() {
         } : undefined,
         autoDismiss,
         dismissTime: autoDismiss ? dismissTime : undefined
-      },
+      });
+    }
+    
+    if (startPomodoro) {
+      actions.push({ type: "start_pomodoro" });
+    }
+    
+    if (focusModeChoice !== "none") {
+      actions.push({ type: "focus_mode", enabled: focusModeChoice === "on" });
+    }
+    
+    if (actions.length === 0) {
+      toast.error("Choose at least one action");
+      return;
+    }
+    
+    // Create rule - using the proper structure according to our context
+    addRule({
+      name: ruleName,
+      operator,
+      conditions: conditions.map(condition => ({
+        ...condition,
+        target: condition.target?.trim() || undefined,
+      })),
+      actions,
       isActive: true
     });
     
@@ -103,7 +276,7 @@ export function CustomRulesSettings() {
       <CardHeader>
         <CardTitle>Custom Notification Rules</CardTitle>
         <CardDescription>
-          Create rules that will trigger custom notifications based on app switching
+          Create rules that trigger custom notifications based on your activity
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -121,97 +294,202 @@ export function CustomRulesSettings() {
               />
             </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="rule-action">Notification Message</Label>
-              <Textarea
-                id="rule-action"
-                placeholder="Take a deep breath and refocus..."
-                value={actionText}
-                onChange={(e) => setActionText(e.target.value)}
-                rows={3}
-              />
-              <p className="text-xs text-muted-foreground">
-                This message will be displayed when app switching is detected
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <Label>Notification Media (Optional)</Label>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label>When</Label>
+                {conditions.length > 1 && (
+                  <Select value={operator} onValueChange={(value) => setOperator(value as RuleOperator)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="and">All conditions match</SelectItem>
+                      <SelectItem value="or">Any condition matches</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
               
-              {mediaPreview ? (
-                <div className="relative border rounded-lg overflow-hidden h-40">
-                  {mediaType === "image" && (
-                    <img 
-                      src={mediaPreview} 
-                      alt="Preview" 
-                      className="w-full h-full object-contain"
-                    />
-                  )}
-                  
-                  {mediaType === "video" && (
-                    <video 
-                      src={mediaPreview} 
-                      controls 
-                      className="w-full h-full"
-                    />
-                  )}
-                  
-                  <Button
-                    variant="destructive"
-                    size="icon"
-                    className="absolute top-2 right-2 rounded-full"
-                    onClick={handleRemoveMedia}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-              ) : (
-                <div className="flex items-center justify-center border-2 border-dashed rounded-lg p-6 border-muted-foreground/25">
-                  <label className="flex flex-col items-center justify-center cursor-pointer">
-                    <Upload className="h-8 w-8 text-muted-foreground" />
-                    <span className="mt-2 text-sm text-muted-foreground">
-                      Upload image or video
-                    </span>
-                    <input
-                      type="file"
-                      className="hidden"
-                      accept="image/*,video/*"
-                      onChange={handleFileChange}
-                    />
-                  </label>
+              {conditions.map((condition, index) => (
+                <div key={index} className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-center space-x-2">
+                    {index > 0 && (
+                      <span className="text-xs font-medium uppercase text-muted-foreground w-8">
+                        {operator}
+                      </span>
+                    )}
+                    <Select
+                      value={condition.type}
+                      onValueChange={(type) => updateCondition(index, createCondition(type as RuleConditionType))}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(RULE_CONDITIONS).map((definition) => (
+                          <SelectItem key={definition.type} value={definition.type}>{definition.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {conditions.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                  <ConditionEditor
+                    idPrefix={`condition-${index}`}
+                    condition={condition}
+                    onChange={(changes) => updateCondition(index, changes)}
+                  />
                 </div>
-              )}
+              ))}
+              
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConditions(prev => [...prev, createCondition("after_time")])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Condition
+              </Button>
             </div>
             
-            <div className="space-y-4 pt-2">
+            <div className="space-y-4">
+              <Label>Then</Label>
+              
               <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="auto-dismiss">Auto-dismiss notification</Label>
-                  <p className="text-xs text-muted-foreground">
-                    Automatically close the notification after a set time
-                  </p>
-                </div>
-                <Switch 
-                  id="auto-dismiss" 
-                  checked={autoDismiss} 
-                  onCheckedChange={setAutoDismiss}
+                <Label htmlFor="action-pomodoro" className="font-normal">Start a Pomodoro session</Label>
+                <Switch
+                  id="action-pomodoro"
+                  checked={startPomodoro}
+                  onCheckedChange={setStartPomodoro}
                 />
               </div>
               
-              {autoDismiss && (
-                <div className="space-y-2">
-                  <Label htmlFor="dismiss-time">Dismiss After (seconds)</Label>
-                  <Input
-                    id="dismiss-time"
-                    type="number"
-                    min={1}
-                    max={60}
-                    value={dismissTime}
-                    onChange={(e) => setDismissTime(Number(e.target.value))}
+              <div className="flex items-center justify-between">
+                <Label className="font-normal">Focus Mode</Label>
+                <Select value={focusModeChoice} onValueChange={(value) => setFocusModeChoice(value as FocusModeChoice)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Leave as is</SelectItem>
+                    <SelectItem value="on">Turn on</SelectItem>
+                    <SelectItem value="off">Turn off</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <Label htmlFor="action-popup" className="font-normal">Show a notification</Label>
+                <Switch
+                  id="action-popup"
+                  checked={showPopup}
+                  onCheckedChange={setShowPopup}
+                />
+              </div>
+            </div>
+            
+            {showPopup && (
+              <>
+              <div className="space-y-2">
+                <Label htmlFor="rule-action">Notification Message</Label>
+                <Textarea
+                  id="rule-action"
+                  placeholder="Take a deep breath and refocus..."
+                  value={actionText}
+                  onChange={(e) => setActionText(e.target.value)}
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground">
+                  This message will be displayed when the rule is triggered
+                </p>
+              </div>
+            
+              <div className="space-y-2">
+                <Label>Notification Media (Optional)</Label>
+              
+                {mediaPreview ? (
+                  <div className="relative border rounded-lg overflow-hidden h-40">
+                    {mediaType === "image" && (
+                      <img 
+                        src={mediaPreview} 
+                        alt="Preview" 
+                        className="w-full h-full object-contain"
+                      />
+                    )}
+                  
+                    {mediaType === "video" && (
+                      <video 
+                        src={mediaPreview} 
+                        controls 
+                        className="w-full h-full"
+                      />
+                    )}
+                  
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      className="absolute top-2 right-2 rounded-full"
+                      onClick={handleRemoveMedia}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center border-2 border-dashed rounded-lg p-6 border-muted-foreground/25">
+                    <label className="flex flex-col items-center justify-center cursor-pointer">
+                      <Upload className="h-8 w-8 text-muted-foreground" />
+                      <span className="mt-2 text-sm text-muted-foreground">
+                        Upload image or video
+                      </span>
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept="image/*,video/*"
+                        onChange={handleFileChange}
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+            
+              <div className="space-y-4 pt-2">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="auto-dismiss">Auto-dismiss notification</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Automatically close the notification after a set time
+                    </p>
+                  </div>
+                  <Switch 
+                    id="auto-dismiss" 
+                    checked={autoDismiss} 
+                    onCheckedChange={setAutoDismiss}
                   />
                 </div>
-              )}
-            </div>
+              
+                {autoDismiss && (
+                  <div className="space-y-2">
+                    <Label htmlFor="dismiss-time">Dismiss After (seconds)</Label>
+                    <Input
+                      id="dismiss-time"
+                      type="number"
+                      min={1}
+                      max={60}
+                      value={dismissTime}
+                      onChange={(e) => setDismissTime(Number(e.target.value))}
+                    />
+                  </div>
+                )}
+              </div>
+              </>
+            )}
             
             <div className="flex justify-end space-x-2 pt-2">
               <Button 
@@ -243,11 +521,20 @@ export function CustomRulesSettings() {
                   key={rule.id} 
                   className="flex items-center justify-between p-3 border rounded-lg"
                 >
-                  <div>
-                    <p className="font-medium">{rule.name}</p>
-                    <p className="text-sm text-muted-foreground truncate max-w-[300px]">
-                      {rule.action.text}
-                    </p>
+                  <div className="flex items-center space-x-3">
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={() => toggleRuleEnabled(rule.id)}
+                    />
+                    <div>
+                      <p className="font-medium">{rule.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {describeConditions(rule.conditions, rule.operator)}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate max-w-[300px]">
+                        {rule.actions.map(describeAction).join(" · ")}
+                      </p>
+                    </div>
                   </div>
                   <div className="flex items-center space-x-2">
                     <Button 
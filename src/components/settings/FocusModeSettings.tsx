@@ -1,16 +1,18 @@
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { useFocusMode } from "@/contexts/FocusModeContext";
-import { X, Plus, Upload, Image, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { FocusBlockMode, useFocusMode } from "@/contexts/FocusModeContext";
+import { X, Plus, Upload, Image, CheckCircle, XCircle, AlertCircle, Copy, Pencil, Trash2, Check } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { profileStorage } from "@/lib/profileStorage";
 
 export function FocusModeSettings() {
   const { 
@@ -21,12 +23,28 @@ export function FocusModeSettings() {
     removeFromWhitelist,
     dimInsteadOfBlock,
     toggleDimOption,
+    blockMode,
+    setBlockMode,
     currentActiveApp,
-    isCurrentAppWhitelisted
+    isCurrentAppWhitelisted,
+    whitelistProfiles,
+    activeProfileId,
+    setActiveProfile,
+    createProfile,
+    duplicateProfile,
+    renameProfile,
+    deleteProfile,
+    pomodoroLink,
+    setPomodoroLink
   } = useFocusMode();
   
   const [newApp, setNewApp] = useState("");
   
+  // Whitelist profile editing state
+  const [profileEditMode, setProfileEditMode] = useState<"create" | "rename" | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const activeProfile = whitelistProfiles.find(profile => profile.id === activeProfileId);
+  
   // Custom image upload state
   const [customImage, setCustomImage] = useState<string | null>(null);
   const [showImageDialog, setShowImageDialog] = useState(false);
@@ -35,24 +53,6 @@ export function FocusModeSettings() {
   // Custom motivational text state
   const [customText, setCustomText] = useState("");
   
-  // User identifier for data separation
-  const [userId, setUserId] = useState<string>(() => {
-    const storedId = localStorage.getItem('focusModeUserId');
-    return storedId || '';
-  });
-  
-  // Effect to get user ID on mount
-  useEffect(() => {
-    const storedId = localStorage.getItem('focusModeUserId');
-    if (storedId) {
-      setUserId(storedId);
-    } else {
-      const newId = `user-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      localStorage.setItem('focusModeUserId', newId);
-      setUserId(newId);
-    }
-  }, []);
-  
   const handleAddToWhitelist = () => {
     if (newApp.trim()) {
       addToWhitelist(newApp.trim());
@@ -63,6 +63,24 @@ export function FocusModeSettings() {
     }
   };
   
+  const startProfileEdit = (mode: "create" | "rename") => {
+    setProfileEditMode(mode);
+    setProfileName(mode === "rename" ? activeProfile?.name || "" : "");
+  };
+  
+  const handleProfileSave = () => {
+    if (!profileName.trim()) return;
+    
+    if (profileEditMode === "create") {
+      createProfile(profileName);
+    } else if (profileEditMode === "rename") {
+      renameProfile(activeProfileId, profileName);
+    }
+    
+    setProfileEditMode(null);
+    setProfileName("");
+  };
+  
   const handleAddCurrentApp = () => {
     if (currentActiveApp) {
       addToWhitelist(currentActiveApp);
@@ -83,9 +101,9 @@ export function FocusModeSettings() {
       const imageUrl = URL.createObjectURL(file);
       setCustomImage(imageUrl);
       
-      // Save to localStorage with user-specific key
+      // Save to the signed-in profile's storage
       try {
-        localStorage.setItem(`focusModeCustomImage-${userId}`, imageUrl);
+        profileStorage.setItem('focusModeCustomImage', imageUrl);
       } catch (e) {
         console.error("Failed to save custom image:", e);
       }
@@ -96,24 +114,22 @@ export function FocusModeSettings() {
   
   // Load custom image and text from localStorage on component mount
   React.useEffect(() => {
-    if (!userId) return;
-    
-    const savedImage = localStorage.getItem(`focusModeCustomImage-${userId}`);
+    const savedImage = profileStorage.getItem('focusModeCustomImage');
     if (savedImage) {
       setCustomImage(savedImage);
     }
     
-    const savedText = localStorage.getItem(`focusModeCustomText-${userId}`);
+    const savedText = profileStorage.getItem('focusModeCustomText');
     if (savedText) {
       setCustomText(savedText);
     }
-  }, [userId]);
+  }, []);
   
   // Save custom text when it changes
   const handleCustomTextChange = (text: string) => {
     setCustomText(text);
     try {
-      localStorage.setItem(`focusModeCustomText-${userId}`, text);
+      profileStorage.setItem('focusModeCustomText', text);
     } catch (e) {
       console.error("Failed to save custom text:", e);
     }
@@ -127,7 +143,7 @@ export function FocusModeSettings() {
   
   const clearCustomImage = () => {
     setCustomImage(null);
-    localStorage.removeItem(`focusModeCustomImage-${userId}`);
+    profileStorage.removeItem('focusModeCustomImage');
   };
   
   return (
@@ -167,6 +183,60 @@ export function FocusModeSettings() {
           />
         </div>
         
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="block-mode">Blocking Style</Label>
+            <p className="text-sm text-muted-foreground">
+              How non-whitelisted apps are blocked when dimming is off
+            </p>
+          </div>
+          <Select value={blockMode} onValueChange={(value) => setBlockMode(value as FocusBlockMode)}>
+            <SelectTrigger id="block-mode" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="overlay">Full-screen overlay</SelectItem>
+              <SelectItem value="reason">Type a reason to continue</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="pomodoro-link">Focus Mode during Pomodoros</Label>
+              <p className="text-sm text-muted-foreground">
+                Turn Focus Mode on for each Pomodoro session and off for its break
+              </p>
+            </div>
+            <Switch 
+              id="pomodoro-link" 
+              checked={pomodoroLink.enabled} 
+              onCheckedChange={(enabled) => setPomodoroLink({ enabled })}
+            />
+          </div>
+          
+          {pomodoroLink.enabled && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="pomodoro-profile" className="font-normal">Whitelist for Pomodoro sessions</Label>
+              <Select
+                value={pomodoroLink.profileId || "active"}
+                onValueChange={(value) => setPomodoroLink({ profileId: value === "active" ? null : value })}
+              >
+                <SelectTrigger id="pomodoro-profile" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Whichever is active</SelectItem>
+                  {whitelistProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        
         {/* Live Whitelist Match Preview */}
         <div className="space-y-2">
           <Label>Current App Status</Label>
@@ -282,9 +352,69 @@ export function FocusModeSettings() {
         <div className="space-y-4">
           <Label>Manage Whitelist</Label>
           
+          {/* Whitelist profiles */}
+          {profileEditMode ? (
+            <div className="flex space-x-2">
+              <Input
+                autoFocus
+                placeholder={profileEditMode === "create" ? "New profile name (e.g., Writing)" : "Profile name"}
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                className="flex-1"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleProfileSave();
+                  } else if (e.key === 'Escape') {
+                    setProfileEditMode(null);
+                  }
+                }}
+              />
+              <Button size="icon" onClick={handleProfileSave} aria-label="Save profile">
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => setProfileEditMode(null)} aria-label="Cancel">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex space-x-2">
+              <Select value={activeProfileId} onValueChange={setActiveProfile}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a profile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {whitelistProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name} ({profile.apps.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" onClick={() => startProfileEdit("create")} aria-label="New profile">
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => duplicateProfile(activeProfileId)} aria-label="Duplicate profile">
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => startProfileEdit("rename")} aria-label="Rename profile">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => deleteProfile(activeProfileId)}
+                disabled={whitelistProfiles.length <= 1}
+                aria-label="Delete profile"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          )}
+          
           <div className="flex space-x-2">
             <Input 
-              placeholder="Add application name (e.g., notepad, chrome, vscode)" 
+              placeholder="Add application or website (e.g., notepad, vscode, docs.google.com)" 
               value={newApp}
               onChange={(e) => setNewApp(e.target.value)}
               className="flex-1"
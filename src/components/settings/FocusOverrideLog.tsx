@@ -0,0 +1,66 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert } from "lucide-react";
+import { useFocusMode } from "@/contexts/FocusModeContext";
+
+// Number of overrides listed; the full log stays in storage
+const VISIBLE_OVERRIDES = 20;
+
+export function FocusOverrideLog() {
+  const { overrideLog, clearOverrideLog } = useFocusMode();
+  const recentOverrides = [...overrideLog].reverse().slice(0, VISIBLE_OVERRIDES);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Block Overrides
+          </CardTitle>
+          <CardDescription>
+            Every time you got past a Focus Mode block, and the reason you gave.
+          </CardDescription>
+        </div>
+        {overrideLog.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={clearOverrideLog}>
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {recentOverrides.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">No overrides yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {recentOverrides.map((entry) => (
+              <div key={entry.id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{entry.appName}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(entry.timestamp).toLocaleString([], {
+                      month: "short",
+                      day: "numeric",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                </div>
+                <div className="mt-1 flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">
+                    {entry.action === "end-focus-mode" ? "Ended Focus Mode" : "Gave a reason"}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{entry.whitelistName} whitelist</span>
+                </div>
+                {entry.reason && (
+                  <p className="mt-2 text-sm text-muted-foreground">"{entry.reason}"</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarClock, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { useFocusMode } from "@/contexts/FocusModeContext";
+import {
+  DAY_LABELS,
+  FocusSchedule,
+  formatScheduleSummary,
+  isValidScheduleTime,
+} from "@/lib/focusSchedules";
+
+type ScheduleDraft = Omit<FocusSchedule, "id">;
+
+const createEmptyDraft = (): ScheduleDraft => ({
+  name: "",
+  days: [1, 2, 3, 4, 5],
+  startTime: "09:00",
+  endTime: "12:00",
+  whitelist: [],
+  dimInsteadOfBlock: true,
+  isActive: true,
+});
+
+export function FocusScheduleSettings() {
+  const {
+    schedules,
+    addSchedule,
+    updateSchedule,
+    deleteSchedule,
+    activeSchedule,
+    isScheduleOverridden,
+  } = useFocusMode();
+  const [draft, setDraft] = useState<ScheduleDraft>(createEmptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newApp, setNewApp] = useState("");
+
+  const updateDraft = (changes: Partial<ScheduleDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleAddApp = () => {
+    const app = newApp.trim();
+    if (app && !draft.whitelist.includes(app)) {
+      updateDraft({ whitelist: [...draft.whitelist, app] });
+    }
+    setNewApp("");
+  };
+
+  const handleEdit = (schedule: FocusSchedule) => {
+    const { id, ...rest } = schedule;
+    setEditingId(id);
+    setDraft(rest);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setDraft(createEmptyDraft());
+    setNewApp("");
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast.error("Give the schedule a name");
+      return;
+    }
+
+    if (draft.days.length === 0) {
+      toast.error("Choose at least one day");
+      return;
+    }
+
+    if (!isValidScheduleTime(draft.startTime) || !isValidScheduleTime(draft.endTime) || draft.startTime === draft.endTime) {
+      toast.error("Enter a valid start and end time");
+      return;
+    }
+
+    const schedule = { ...draft, name: draft.name.trim() };
+    if (editingId) {
+      updateSchedule(editingId, schedule);
+      toast.success(`Updated "${schedule.name}" schedule`);
+    } else {
+      addSchedule(schedule);
+    }
+
+    handleCancel();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Focus Schedules
+        </CardTitle>
+        <CardDescription>
+          Turn Focus Mode on and off automatically. Each schedule has its own whitelist, and switching Focus Mode
+          yourself takes priority until the scheduled session ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Existing schedules */}
+        <div className="space-y-2">
+          {schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">
+              No schedules yet. Add one below, e.g. weekdays 09:00–12:00 for deep work.
+            </p>
+          ) : (
+            schedules.map((schedule) => (
+              <div key={schedule.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="flex items-center space-x-3">
+                  <Switch
+                    checked={schedule.isActive}
+                    onCheckedChange={(checked) => updateSchedule(schedule.id, { isActive: checked })}
+                  />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium">{schedule.name}</p>
+                      {activeSchedule?.id === schedule.id && (
+                        <Badge variant={isScheduleOverridden ? "outline" : "default"} className="text-xs">
+                          {isScheduleOverridden ? "Overridden" : "Running"}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatScheduleSummary(schedule)} · {schedule.whitelist.length} allowed apps · {schedule.dimInsteadOfBlock ? "Dim" : "Block"}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(schedule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => deleteSchedule(schedule.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Schedule editor */}
+        <div className="space-y-4 border rounded-lg p-4">
+          <h3 className="text-lg font-medium">{editingId ? "Edit Schedule" : "Add Schedule"}</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-name">Name</Label>
+            <Input
+              id="schedule-name"
+              placeholder="e.g., Deep work"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Days</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={draft.days.map(String)}
+              onValueChange={(values) => updateDraft({ days: values.map(Number).sort() })}
+            >
+              {DAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)}>{label}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-start">Start</Label>
+              <Input
+                id="schedule-start"
+                type="time"
+                value={draft.startTime}
+                onChange={(e) => updateDraft({ startTime: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-end">End</Label>
+              <Input
+                id="schedule-end"
+                type="time"
+                value={draft.endTime}
+                onChange={(e) => updateDraft({ endTime: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="schedule-dim">Dim Instead of Block</Label>
+              <p className="text-sm text-muted-foreground">
+                Dim the screen instead of blocking non-whitelisted apps during this schedule
+              </p>
+            </div>
+            <Switch
+              id="schedule-dim"
+              checked={draft.dimInsteadOfBlock}
+              onCheckedChange={(checked) => updateDraft({ dimInsteadOfBlock: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Allowed apps and websites</Label>
+            <div className="flex space-x-2">
+              <Input
+                placeholder="e.g., vscode, docs.google.com"
+                value={newApp}
+                onChange={(e) => setNewApp(e.target.value)}
+                className="flex-1"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddApp();
+                  }
+                }}
+              />
+              <Button variant="outline" onClick={handleAddApp}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {draft.whitelist.map((app) => (
+                <Badge key={app} variant="secondary" className="flex items-center gap-1">
+                  {app}
+                  <button
+                    onClick={() => updateDraft({ whitelist: draft.whitelist.filter(item => item !== app) })}
+                    aria-label={`Remove ${app}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            {editingId && (
+              <Button variant="outline" onClick={handleCancel}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave}>
+              {editingId ? "Save Schedule" : "Add Schedule"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { BellOff } from "lucide-react";
+import ReminderService, { DoNotDisturbState, ReminderResponse, ReminderSource } from "@/services/ReminderService";
+import QuietModeService, { QUIET_REASON_LABELS, QuietModeState } from "@/services/QuietModeService";
+
+const DO_NOT_DISTURB_OPTIONS = [
+  { value: "30", label: "30 minutes" },
+  { value: "60", label: "1 hour" },
+  { value: "120", label: "2 hours" },
+  { value: "240", label: "4 hours" },
+  { value: "forever", label: "Until turned off" },
+];
+
+const SOURCE_LABELS: Record<ReminderSource, string> = {
+  eye_care: "Eye care",
+  pomodoro: "Pomodoro",
+  custom_rule: "Custom rules",
+  focus_alert: "Focus alerts",
+};
+
+const getStartOfToday = () => new Date(new Date().setHours(0, 0, 0, 0)).getTime();
+
+export function ReminderSettings() {
+  const reminders = ReminderService.getInstance();
+  const [dndState, setDndState] = useState<DoNotDisturbState>(() => reminders.getDoNotDisturb());
+  const [responses, setResponses] = useState<ReminderResponse[]>(() => reminders.getResponses());
+  const quietMode = QuietModeService.getInstance();
+  const [quietState, setQuietState] = useState<QuietModeState>(() => quietMode.getState());
+  const [isQuietModeEnabled, setIsQuietModeEnabled] = useState(() => quietMode.getEnabled());
+
+  useEffect(() => {
+    reminders.addDoNotDisturbListener(setDndState);
+    reminders.addResponseListener(setResponses);
+    quietMode.addStateListener(setQuietState);
+
+    return () => {
+      reminders.removeDoNotDisturbListener(setDndState);
+      reminders.removeResponseListener(setResponses);
+      quietMode.removeStateListener(setQuietState);
+    };
+  }, [reminders, quietMode]);
+
+  const handleQuietModeChange = (checked: boolean) => {
+    quietMode.setEnabled(checked);
+    setIsQuietModeEnabled(checked);
+  };
+
+  const stats = reminders.getComplianceStats(getStartOfToday());
+  const hasResponsesToday = responses.some(response => response.time >= getStartOfToday());
+
+  const handleDoNotDisturbChange = (value: string) => {
+    reminders.setDoNotDisturb(value === "forever" ? null : Number(value));
+  };
+
+  const getStatus = () => {
+    if (!dndState.isActive) return "Reminders are on.";
+    if (dndState.until === null) return "All reminders are silenced until you turn this off.";
+
+    const until = new Date(dndState.until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    return `All reminders are silenced until ${until}.`;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BellOff className="h-5 w-5" />
+            Do Not Disturb
+          </CardTitle>
+          <CardDescription>
+            Silence eye care, Pomodoro, custom rule and focus reminders for a while. The timers keep running.
+          </CardDescription>
+        </div>
+        {hasResponsesToday && (
+          <Button variant="ghost" size="sm" onClick={() => reminders.clearResponses()}>
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Select value="" onValueChange={handleDoNotDisturbChange}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder={dndState.isActive ? "Extend..." : "Turn on for..."} />
+            </SelectTrigger>
+            <SelectContent>
+              {DO_NOT_DISTURB_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {dndState.isActive && (
+            <Button variant="outline" onClick={() => reminders.clearDoNotDisturb()}>
+              Turn Off
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">{getStatus()}</p>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="quiet-mode">Quiet during meetings and full screen apps</Label>
+            <p className="text-sm text-muted-foreground">
+              {quietState.isActive && quietState.reason
+                ? `Quiet now: reminders are waiting until ${QUIET_REASON_LABELS[quietState.reason]} is over.`
+                : "Reminders wait while you're on a call, presenting or using a full screen app, then show up afterwards."}
+            </p>
+          </div>
+          <Switch id="quiet-mode" checked={isQuietModeEnabled} onCheckedChange={handleQuietModeChange} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Today's responses to reminders</Label>
+          {!hasResponsesToday ? (
+            <p className="text-sm text-muted-foreground">No reminders answered yet today.</p>
+          ) : (
+            <div className="space-y-1">
+              {(Object.keys(SOURCE_LABELS) as ReminderSource[]).map(source => {
+                const counts = stats[source];
+                return (
+                  <div key={source} className="flex items-center justify-between text-sm">
+                    <span>{SOURCE_LABELS[source]}</span>
+                    <span className="text-muted-foreground">
+                      {counts.dismissed} dismissed · {counts.snoozed} snoozed · {counts.skipped} skipped · {counts.expired} ignored · {counts.suppressed} silenced
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,7 @@ import { useToast } from "@/components/ui/use-toast";
 import { useState, useEffect } from "react";
 import { useTimer } from "@/contexts/TimerContext";
 import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } from "@/components/ui/form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -22,12 +23,25 @@ import * as z from "zod";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast as sonnerToast } from "sonner";
 import { FocusModeSettings } from "./FocusModeSettings";
+import { FocusScheduleSettings } from "./FocusScheduleSettings";
+import { FocusOverrideLog } from "./FocusOverrideLog";
+import { CategoryRulesSettings } from "./CategoryRulesSettings";
+import { CustomRulesSettings } from "./CustomRulesSettings";
+import { ReminderSettings } from "./ReminderSettings";
+import { AccountSettings } from "./AccountSettings";
+import { EYE_CARE_REGIMENS, EyeCareRegimenId, getEyeCareRegimen } from "@/lib/eyeCareRegimens";
 
 const timerSettingsSchema = z.object({
   pomodoroDuration: z.number().min(1).max(120),
   pomodoroBreakDuration: z.number().min(1).max(60),
+  pomodoroLongBreakDuration: z.number().min(1).max(120),
+  pomodoroLongBreakInterval: z.number().min(2).max(12),
+  pomodoroDailyGoal: z.number().min(1).max(24),
   eyeCareWorkDuration: z.number().min(1).max(120),
   eyeCareRestDuration: z.number().min(5).max(120),
+  eyeCareRegimen: z.enum(["20-20-20", "micro-breaks", "custom"]),
+  eyeCareLongBreakEvery: z.number().min(0).max(12),
+  eyeCareLongBreakDuration: z.number().min(1).max(30),
 });
 
 type TimerSettingsValues = z.infer<typeof timerSettingsSchema>;
@@ -39,8 +53,14 @@ export function SettingsPanel() {
   const { 
     pomodoroDuration,
     pomodoroBreakDuration,
+    pomodoroLongBreakDuration,
+    pomodoroLongBreakInterval,
+    pomodoroDailyGoal,
     eyeCareWorkDuration,
     eyeCareRestDuration,
+    eyeCareRegimen,
+    eyeCareLongBreakEvery,
+    eyeCareLongBreakDuration,
     updateTimerSettings
   } = useTimer();
 
@@ -55,17 +75,44 @@ export function SettingsPanel() {
     defaultValues: {
       pomodoroDuration,
       pomodoroBreakDuration,
+      pomodoroLongBreakDuration,
+      pomodoroLongBreakInterval,
+      pomodoroDailyGoal,
       eyeCareWorkDuration: Math.floor(eyeCareWorkDuration / 60),
       eyeCareRestDuration,
+      eyeCareRegimen,
+      eyeCareLongBreakEvery,
+      eyeCareLongBreakDuration: Math.floor(eyeCareLongBreakDuration / 60),
     },
   });
 
+  // Presets fill in their durations; only the custom regimen can be edited
+  const isCustomRegimen = timerForm.watch("eyeCareRegimen") === "custom";
+
+  const onRegimenChange = (id: EyeCareRegimenId) => {
+    timerForm.setValue("eyeCareRegimen", id);
+
+    const { settings } = getEyeCareRegimen(id);
+    if (settings) {
+      timerForm.setValue("eyeCareWorkDuration", Math.floor(settings.eyeCareWorkDuration / 60));
+      timerForm.setValue("eyeCareRestDuration", settings.eyeCareRestDuration);
+      timerForm.setValue("eyeCareLongBreakEvery", settings.eyeCareLongBreakEvery);
+      timerForm.setValue("eyeCareLongBreakDuration", Math.floor(settings.eyeCareLongBreakDuration / 60));
+    }
+  };
+
   const onTimerSettingsSave = (data: TimerSettingsValues) => {
     updateTimerSettings({
       pomodoroDuration: data.pomodoroDuration,
       pomodoroBreakDuration: data.pomodoroBreakDuration,
+      pomodoroLongBreakDuration: data.pomodoroLongBreakDuration,
+      pomodoroLongBreakInterval: data.pomodoroLongBreakInterval,
+      pomodoroDailyGoal: data.pomodoroDailyGoal,
       eyeCareWorkDuration: data.eyeCareWorkDuration * 60,
       eyeCareRestDuration: data.eyeCareRestDuration,
+      eyeCareRegimen: data.eyeCareRegimen,
+      eyeCareLongBreakEvery: data.eyeCareLongBreakEvery,
+      eyeCareLongBreakDuration: data.eyeCareLongBreakDuration * 60,
     });
     
     sonnerToast("Timer settings saved", {
@@ -75,12 +122,15 @@ export function SettingsPanel() {
 
   return (
     <Tabs defaultValue="timers" className="w-full">
-      <TabsList className="grid w-full grid-cols-2">
+      <TabsList className="grid w-full grid-cols-5">
         <TabsTrigger value="timers">Timer Settings</TabsTrigger>
         <TabsTrigger value="focus-mode">Focus Mode</TabsTrigger>
+        <TabsTrigger value="app-categories">App Categories</TabsTrigger>
+        <TabsTrigger value="custom-rules">Custom Rules</TabsTrigger>
+        <TabsTrigger value="account">Account</TabsTrigger>
       </TabsList>
       
-      <TabsContent value="timers">
+      <TabsContent value="timers" className="space-y-6">
         <Card>
           <CardHeader>
             <CardTitle>Timer Settings</CardTitle>
@@ -157,11 +207,134 @@ export function SettingsPanel() {
                       </FormItem>
                     )}
                   />
+                  
+                  <FormField
+                    control={timerForm.control}
+                    name="pomodoroLongBreakDuration"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Long Break Duration (minutes)</FormLabel>
+                        <div className="flex items-center space-x-4">
+                          <FormControl>
+                            <Slider
+                              min={1}
+                              max={120}
+                              step={1}
+                              value={[field.value]}
+                              onValueChange={(vals) => field.onChange(vals[0])}
+                            />
+                          </FormControl>
+                          <Input 
+                            type="number" 
+                            className="w-20" 
+                            min={1}
+                            max={120}
+                            value={field.value}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </div>
+                        <FormDescription>
+                          How long the long break after a full cycle should last (1-120 minutes)
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={timerForm.control}
+                    name="pomodoroLongBreakInterval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sessions Before a Long Break</FormLabel>
+                        <div className="flex items-center space-x-4">
+                          <FormControl>
+                            <Slider
+                              min={2}
+                              max={12}
+                              step={1}
+                              value={[field.value]}
+                              onValueChange={(vals) => field.onChange(vals[0])}
+                            />
+                          </FormControl>
+                          <Input 
+                            type="number" 
+                            className="w-20" 
+                            min={2}
+                            max={12}
+                            value={field.value}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </div>
+                        <FormDescription>
+                          How many focus sessions make up a cycle (2-12)
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={timerForm.control}
+                    name="pomodoroDailyGoal"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Daily Goal (sessions)</FormLabel>
+                        <div className="flex items-center space-x-4">
+                          <FormControl>
+                            <Slider
+                              min={1}
+                              max={24}
+                              step={1}
+                              value={[field.value]}
+                              onValueChange={(vals) => field.onChange(vals[0])}
+                            />
+                          </FormControl>
+                          <Input 
+                            type="number" 
+                            className="w-20" 
+                            min={1}
+                            max={24}
+                            value={field.value}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </div>
+                        <FormDescription>
+                          How many focus sessions you aim to complete each day (1-24)
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
                 </div>
                 
                 <div className="space-y-4">
                   <h3 className="text-lg font-medium">Eye Care Timer</h3>
                   
+                  <FormField
+                    control={timerForm.control}
+                    name="eyeCareRegimen"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Regimen</FormLabel>
+                        <Select value={field.value} onValueChange={(value) => onRegimenChange(value as EyeCareRegimenId)}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {EYE_CARE_REGIMENS.map(regimen => (
+                              <SelectItem key={regimen.id} value={regimen.id}>
+                                {regimen.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {getEyeCareRegimen(field.value).description}
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={timerForm.control}
                     name="eyeCareWorkDuration"
@@ -176,6 +349,7 @@ export function SettingsPanel() {
                               step={1}
                               value={[field.value]}
                               onValueChange={(vals) => field.onChange(vals[0])}
+                              disabled={!isCustomRegimen}
                             />
                           </FormControl>
                           <Input 
@@ -185,6 +359,7 @@ export function SettingsPanel() {
                             max={120}
                             value={field.value}
                             onChange={(e) => field.onChange(Number(e.target.value))}
+                            disabled={!isCustomRegimen}
                           />
                         </div>
                         <FormDescription>
@@ -208,6 +383,7 @@ export function SettingsPanel() {
                               step={5}
                               value={[field.value]}
                               onValueChange={(vals) => field.onChange(vals[0])}
+                              disabled={!isCustomRegimen}
                             />
                           </FormControl>
                           <Input 
@@ -218,6 +394,7 @@ export function SettingsPanel() {
                             step={5}
                             value={field.value}
                             onChange={(e) => field.onChange(Number(e.target.value))}
+                            disabled={!isCustomRegimen}
                           />
                         </div>
                         <FormDescription>
@@ -226,6 +403,74 @@ export function SettingsPanel() {
                       </FormItem>
                     )}
                   />
+                  
+                  <FormField
+                    control={timerForm.control}
+                    name="eyeCareLongBreakEvery"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Breaks Before a Long Break</FormLabel>
+                        <div className="flex items-center space-x-4">
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={12}
+                              step={1}
+                              value={[field.value]}
+                              onValueChange={(vals) => field.onChange(vals[0])}
+                              disabled={!isCustomRegimen}
+                            />
+                          </FormControl>
+                          <Input 
+                            type="number" 
+                            className="w-20" 
+                            min={0}
+                            max={12}
+                            value={field.value}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                            disabled={!isCustomRegimen}
+                          />
+                        </div>
+                        <FormDescription>
+                          How many short eye breaks come before a longer stretch break (0-12, 0 for none)
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={timerForm.control}
+                    name="eyeCareLongBreakDuration"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Long Break Duration (minutes)</FormLabel>
+                        <div className="flex items-center space-x-4">
+                          <FormControl>
+                            <Slider
+                              min={1}
+                              max={30}
+                              step={1}
+                              value={[field.value]}
+                              onValueChange={(vals) => field.onChange(vals[0])}
+                              disabled={!isCustomRegimen}
+                            />
+                          </FormControl>
+                          <Input 
+                            type="number" 
+                            className="w-20" 
+                            min={1}
+                            max={30}
+                            value={field.value}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                            disabled={!isCustomRegimen}
+                          />
+                        </div>
+                        <FormDescription>
+                          How long each stretch break should last (1-30 minutes)
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
                 </div>
                 
                 <Button type="submit">Save Timer Settings</Button>
@@ -233,10 +478,25 @@ export function SettingsPanel() {
             </Form>
           </CardContent>
         </Card>
+        <ReminderSettings />
       </TabsContent>
       
-      <TabsContent value="focus-mode">
+      <TabsContent value="focus-mode" className="space-y-6">
         <FocusModeSettings />
+        <FocusScheduleSettings />
+        <FocusOverrideLog />
+      </TabsContent>
+
+      <TabsContent value="app-categories">
+        <CategoryRulesSettings />
+      </TabsContent>
+
+      <TabsContent value="custom-rules">
+        <CustomRulesSettings />
+      </TabsContent>
+
+      <TabsContent value="account" className="space-y-6">
+        <AccountSettings />
       </TabsContent>
     </Tabs>
   );
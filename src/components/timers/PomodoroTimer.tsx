@@ -2,7 +2,8 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Play, Pause, RotateCcw } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Play, Pause, RotateCcw, Target } from "lucide-react";
 import { useTimer } from "@/contexts/TimerContext";
 
 interface TimerProps {
@@ -15,12 +16,20 @@ export function PomodoroTimer({ className }: TimerProps) {
     pomodoroSeconds, 
     isPomodoroActive, 
     isPomodoroBreak, 
+    isPomodoroLongBreak,
     pomodoroProgress,
     pomodoroDuration,
     pomodoroBreakDuration,
+    pomodoroLongBreakDuration,
+    pomodoroLongBreakInterval,
+    pomodoroCyclePosition,
+    pomodoroTaskLabel,
+    pomodoroDailyGoal,
+    todayCompletedPomodoros,
     startPomodoroTimer,
     pausePomodoroTimer,
-    resetPomodoroTimer
+    resetPomodoroTimer,
+    setPomodoroTaskLabel
   } = useTimer();
 
   const toggleTimer = () => {
@@ -39,10 +48,19 @@ export function PomodoroTimer({ className }: TimerProps) {
     <Card className={className}>
       <CardHeader>
         <CardTitle className="text-center">
-          {isPomodoroBreak ? "Break Time" : "Focus Time"}
+          {isPomodoroLongBreak ? "Long Break" : isPomodoroBreak ? "Break Time" : "Focus Time"}
         </CardTitle>
       </CardHeader>
       <CardContent className="flex flex-col items-center space-y-4">
+        <Input
+          placeholder="What are you working on? (optional)"
+          value={pomodoroTaskLabel}
+          onChange={(e) => setPomodoroTaskLabel(e.target.value)}
+          disabled={isPomodoroBreak}
+          className="text-center"
+          aria-label="Task label"
+        />
+
         <div className="relative flex h-40 w-40 items-center justify-center rounded-full border-4 border-muted">
           <div className="animate-pulse-gentle text-3xl font-bold">
             {formatTime(pomodoroMinutes, pomodoroSeconds)}
@@ -72,9 +90,34 @@ export function PomodoroTimer({ className }: TimerProps) {
         </div>
 
         <div className="text-center text-sm text-muted-foreground">
-          {isPomodoroBreak
-            ? `Take a break for ${pomodoroBreakDuration} minutes`
-            : `Stay focused for ${pomodoroDuration} minutes`}
+          {isPomodoroLongBreak
+            ? `Take a long break for ${pomodoroLongBreakDuration} minutes`
+            : isPomodoroBreak
+              ? `Take a break for ${pomodoroBreakDuration} minutes`
+              : `Stay focused for ${pomodoroDuration} minutes`}
+        </div>
+
+        {/* Position in the current cycle, a dot per session before the long break */}
+        <div className="flex space-x-1.5" aria-label={`${pomodoroCyclePosition} of ${pomodoroLongBreakInterval} sessions until a long break`}>
+          {Array.from({ length: pomodoroLongBreakInterval }, (_, index) => (
+            <span
+              key={index}
+              className={`h-2 w-2 rounded-full ${index < pomodoroCyclePosition ? "bg-primary" : "bg-muted"}`}
+            />
+          ))}
+        </div>
+
+        <div className="w-full space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center text-muted-foreground">
+              <Target className="mr-1 h-4 w-4" />
+              Today
+            </span>
+            <span className="font-medium">
+              {todayCompletedPomodoros} / {pomodoroDailyGoal}
+            </span>
+          </div>
+          <Progress value={Math.min(100, (todayCompletedPomodoros / pomodoroDailyGoal) * 100)} className="h-1.5" />
         </div>
       </CardContent>
     </Card>
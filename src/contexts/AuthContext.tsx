@@ -1,12 +1,16 @@
-
 import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { toast as sonnerToast } from "sonner";
+import ApiClient, { AuthSession } from "@/services/ApiClient";
+import PreferencesSyncService, { SyncConflict } from "@/services/PreferencesSyncService";
+import LocalProfileService, { LocalProfile } from "@/services/LocalProfileService";
+import { moveActiveProfile } from "@/lib/profileStorage";
 
 type User = {
   id: string;
-  email: string;
+  email: string; // Empty for a local profile
   name: string;
+  isLocal?: boolean; // A profile kept only on this device, without a server account
 };
 
 type AuthContextType = {
@@ -16,113 +20,139 @@ type AuthContextType = {
   logout: () => void;
   forgotPassword: (email: string) => Promise<boolean>;
   resetPassword: (email: string, code: string, newPassword: string) => Promise<boolean>;
+  openLocalProfile: (profileId: string, pin?: string) => Promise<boolean>;
+  createLocalProfile: (name: string, pin?: string) => Promise<boolean>;
+  upgradeLocalProfile: (email: string, password: string) => Promise<boolean>;
   isLoading: boolean;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
-const API_URL = 'http://localhost:5000/api';
-
-// Demo users for the preview environment
-const DEMO_USERS = [
-  {
-    id: "demo-user-1",
-    name: "Demo User",
-    email: "demo@example.com",
-    password: "password123"
-  },
-  {
-    id: "demo-user-2",
-    name: "Test User",
-    email: "test@example.com",
-    password: "test123"
-  }
-];
+
+const toSession = (data: AuthSession): AuthSession => ({
+  user: data.user,
+  token: data.token,
+  expiresAt: data.expiresAt,
+  refreshToken: data.refreshToken,
+  refreshExpiresAt: data.refreshExpiresAt,
+});
+
+const toLocalUser = (profile: LocalProfile): User => ({
+  id: profile.id,
+  email: "",
+  name: profile.name,
+  isLocal: true,
+});
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
-  
-  // Store registered users in session
-  const [registeredUsers, setRegisteredUsers] = useState<Array<typeof DEMO_USERS[0]>>(() => {
-    const stored = sessionStorage.getItem("registeredUsers");
-    return stored ? JSON.parse(stored) : [...DEMO_USERS];
-  });
 
   useEffect(() => {
-    // Update session storage when registered users change
-    sessionStorage.setItem("registeredUsers", JSON.stringify(registeredUsers));
-  }, [registeredUsers]);
+    const apiClient = ApiClient.getInstance();
+    const localProfiles = LocalProfileService.getInstance();
 
-  useEffect(() => {
-    // Check if user is logged in on mount
-    const storedUser = localStorage.getItem("user");
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser));
-      } catch (error) {
-        console.error("Failed to parse stored user:", error);
-        localStorage.removeItem("user");
+    // Signed-in users are restored from their saved session, which is renewed
+    // if it has run out. The user object alone no longer counts as signed in.
+    localStorage.removeItem("user");
+    // Left over from the demo accounts
+    sessionStorage.removeItem("registeredUsers");
+    sessionStorage.removeItem("previewUser");
+
+    const restoreSession = async () => {
+      const session = await apiClient.loadSession();
+      if (session) {
+        setUser(session.user);
+      } else {
+        // The last local profile opens again by itself, unless it's behind a PIN
+        const activeProfileId = localProfiles.getActiveProfileId();
+        const profile = activeProfileId ? localProfiles.getProfile(activeProfileId) : null;
+        if (profile && !profile.pin) {
+          setUser(toLocalUser(profile));
+        }
       }
-    }
-    setIsLoading(false);
+      setIsLoading(false);
+    };
+
+    const handleSessionExpired = () => {
+      setUser(null);
+      sonnerToast.error("Your session has expired, please log in again");
+    };
+
+    apiClient.addSessionExpiredListener(handleSessionExpired);
+    restoreSession();
+
+    return () => {
+      apiClient.removeSessionExpiredListener(handleSessionExpired);
+    };
   }, []);
 
+  // Sync the signed-in user's settings with their other devices. Local
+  // profiles stay on this device.
+  useEffect(() => {
+    const preferencesSync = PreferencesSyncService.getInstance();
+    if (!user || user.isLocal) {
+      preferencesSync.stop();
+      return;
+    }
+
+    const handleConflicts = (conflicts: SyncConflict[]) => {
+      sonnerToast.info(
+        conflicts.length === 1
+          ? "A setting was also changed on another device. The most recent change was kept."
+          : `${conflicts.length} settings were also changed on another device. The most recent changes were kept.`
+      );
+    };
+
+    preferencesSync.addConflictListener(handleConflicts);
+    preferencesSync.start(user.id);
+
+    return () => {
+      preferencesSync.removeConflictListener(handleConflicts);
+    };
+  }, [user]);
+
+  // Sign in with a session from the server
+  const startSession = (data: AuthSession) => {
+    ApiClient.getInstance().setSession(toSession(data));
+    LocalProfileService.getInstance().setActiveProfileId(null);
+    setUser(data.user);
+  };
+
+  // Open a local profile, without a server session. Someone signed in with an
+  // account is signed out, so the account doesn't reopen for the next person.
+  const startLocalSession = (profile: LocalProfile) => {
+    const apiClient = ApiClient.getInstance();
+    if (apiClient.getSession()) {
+      apiClient.logout();
+    }
+    LocalProfileService.getInstance().setActiveProfileId(profile.id);
+    setUser(toLocalUser(profile));
+  };
+
   const login = async (email: string, password: string): Promise<boolean> => {
     setIsLoading(true);
     try {
       console.log(`Attempting login for email: ${email}`);
-      
-      // Check if this is a registered user in our demo environment
-      const demoUser = registeredUsers.find(u => 
-        u.email.toLowerCase() === email.toLowerCase() && 
-        u.password === password
-      );
-      
-      if (demoUser) {
-        console.log("Demo user found, logging in");
-        const userData = {
-          id: demoUser.id,
-          name: demoUser.name,
-          email: demoUser.email
-        };
-        
-        setUser(userData);
-        localStorage.setItem("user", JSON.stringify(userData));
-        sonnerToast.success(`Welcome back, ${userData.name}!`);
-        return true;
-      }
 
-      // Try to authenticate with the backend if not in preview mode
-      try {
-        console.log("No demo user found, trying backend");
-        const response = await fetch(`${API_URL}/auth/login`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ email, password }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok || !data.success) {
-          sonnerToast.error("Login failed: Invalid email or password");
-          return false;
-        }
+      const response = await ApiClient.getInstance().fetch('/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ email, password }),
+      });
 
-        setUser(data.user);
-        localStorage.setItem("user", JSON.stringify(data.user));
-        sonnerToast.success(`Welcome back, ${data.user.name}!`);
-        return true;
-      } catch (error) {
-        console.error("Backend login error:", error);
-        sonnerToast.error("Unable to connect to server, please try again");
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        sonnerToast.error("Login failed: Invalid email or password");
         return false;
       }
+
+      startSession(data);
+      sonnerToast.success(`Welcome back, ${data.user.name}!`);
+      return true;
     } catch (error) {
-      sonnerToast.error("Login failed: An error occurred during login");
-      console.error("Login error:", error);
+      console.error("Backend login error:", error);
+      sonnerToast.error("Unable to connect to server. You can still use a local profile on this device.");
       return false;
     } finally {
       setIsLoading(false);
@@ -133,85 +163,90 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(true);
     try {
       console.log(`Attempting signup for email: ${email}`);
-      
-      // Check if email is already used (case insensitive check)
-      const existingUser = registeredUsers.find(u => 
-        u.email.toLowerCase() === email.toLowerCase()
-      );
-      
-      if (existingUser) {
-        sonnerToast.error("Signup failed: Email already in use");
+
+      const response = await ApiClient.getInstance().fetch('/auth/signup', {
+        method: 'POST',
+        body: JSON.stringify({ name, email, password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        sonnerToast.error(`Signup failed: ${data.message || 'An error occurred during signup'}`);
         return false;
       }
 
-      // Create new demo user
-      const newUser = {
-        id: `demo-user-${Date.now()}`,
-        name,
-        email,
-        password // Store password for demo mode only
-      };
-      
-      // Try to sign up with backend if not in preview mode
-      try {
-        const response = await fetch(`${API_URL}/auth/signup`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ name, email, password }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok || !data.success) {
-          // If backend fails, add to registered users anyway (for demo mode)
-          setRegisteredUsers(prev => [...prev, newUser]);
-          
-          const userData = {
-            id: newUser.id,
-            name: newUser.name,
-            email: newUser.email
-          };
-          
-          setUser(userData);
-          localStorage.setItem("user", JSON.stringify(userData));
-          sonnerToast.success(`Welcome, ${name}!`);
-          return true;
-        }
+      startSession(data);
+      sonnerToast.success(`Welcome, ${name}!`);
+      return true;
+    } catch (error) {
+      console.error("Backend signup error:", error);
+      sonnerToast.error("Unable to connect to server. You can still use a local profile on this device.");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openLocalProfile = async (profileId: string, pin?: string): Promise<boolean> => {
+    const localProfiles = LocalProfileService.getInstance();
+    const profile = localProfiles.getProfile(profileId);
+    if (!profile) {
+      sonnerToast.error("Profile not found");
+      return false;
+    }
+
+    if (!(await localProfiles.verifyPin(profileId, pin || null))) {
+      sonnerToast.error("Incorrect PIN");
+      return false;
+    }
+
+    startLocalSession(profile);
+    sonnerToast.success(`Welcome back, ${profile.name}!`);
+    return true;
+  };
+
+  const createLocalProfile = async (name: string, pin?: string): Promise<boolean> => {
+    try {
+      const profile = await LocalProfileService.getInstance().createProfile(name, pin || null);
+      startLocalSession(profile);
+      sonnerToast.success(`Welcome, ${profile.name}!`);
+      return true;
+    } catch (error) {
+      sonnerToast.error("Failed to create profile");
+      console.error("Create local profile error:", error);
+      return false;
+    }
+  };
+
+  // Turn the open local profile into a server account. Its whitelists,
+  // schedules and other saved data come along, and the local profile goes away.
+  const upgradeLocalProfile = async (email: string, password: string): Promise<boolean> => {
+    if (!user?.isLocal) return false;
+
+    setIsLoading(true);
+    try {
+      const response = await ApiClient.getInstance().fetch('/auth/signup', {
+        method: 'POST',
+        body: JSON.stringify({ name: user.name, email, password }),
+      });
+
+      const data = await response.json();
 
-        const userData = {
-          id: data.user?.id || newUser.id,
-          name: data.user?.name || name,
-          email: data.user?.email || email
-        };
-        
-        setUser(userData);
-        localStorage.setItem("user", JSON.stringify(userData));
-        sonnerToast.success(`Welcome, ${name}!`);
-        return true;
-      } catch (error) {
-        console.error("Backend signup error:", error);
-        sonnerToast.info("Using preview mode: Account created locally");
-        
-        // If backend fails, use the local user
-        // Add to registered users
-        setRegisteredUsers(prev => [...prev, newUser]);
-        
-        const userData = {
-          id: newUser.id,
-          name: newUser.name,
-          email: newUser.email
-        };
-        
-        setUser(userData);
-        localStorage.setItem("user", JSON.stringify(userData));
-        sonnerToast.success(`Welcome, ${name}!`);
-        return true;
+      if (!response.ok || !data.success) {
+        sonnerToast.error(`Upgrade failed: ${data.message || 'An error occurred during signup'}`);
+        return false;
       }
+
+      moveActiveProfile(data.user.id);
+      LocalProfileService.getInstance().removeProfile(user.id);
+
+      startSession(data);
+      sonnerToast.success("Your profile is now a server account. Everything you saved came along.");
+      return true;
     } catch (error) {
-      sonnerToast.error("Signup failed: An error occurred during signup");
-      console.error("Signup error:", error);
+      console.error("Upgrade local profile error:", error);
+      sonnerToast.error("Unable to connect to server, please try again");
       return false;
     } finally {
       setIsLoading(false);
@@ -219,48 +254,35 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = () => {
+    if (user?.isLocal) {
+      LocalProfileService.getInstance().setActiveProfileId(null);
+    } else {
+      ApiClient.getInstance().logout();
+    }
     setUser(null);
-    localStorage.removeItem("user");
     sonnerToast.success("You have been successfully logged out");
   };
 
   const forgotPassword = async (email: string): Promise<boolean> => {
     setIsLoading(true);
     try {
-      // Check if email exists in demo users
-      const demoUser = DEMO_USERS.find(u => u.email === email);
-      if (!demoUser) {
-        sonnerToast.error("Reset failed: No account found with this email");
+      const response = await ApiClient.getInstance().fetch('/auth/forgot-password', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        sonnerToast.error(`Reset failed: ${data.message || 'No account found with this email'}`);
         return false;
       }
-      
-      // Try to use backend if not in preview mode
-      try {
-        const response = await fetch(`${API_URL}/auth/forgot-password`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ email }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok || !data.success) {
-          sonnerToast.error(`Reset failed: ${data.message || 'No account found with this email'}`);
-          return false;
-        }
-        
-        sonnerToast.success("Reset code sent: Check your email for the reset code");
-        return true;
-      } catch (error) {
-        console.error("Backend forgot password error:", error);
-        sonnerToast.info("Using preview mode: Use '123456' as your reset code");
-        return true;
-      }
+
+      sonnerToast.success("Reset code sent: Check your email for the reset code");
+      return true;
     } catch (error) {
-      sonnerToast.error("Reset failed: An error occurred");
-      console.error("Forgot password error:", error);
+      console.error("Backend forgot password error:", error);
+      sonnerToast.error("Unable to connect to server, please try again");
       return false;
     } finally {
       setIsLoading(false);
@@ -270,46 +292,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const resetPassword = async (email: string, code: string, newPassword: string): Promise<boolean> => {
     setIsLoading(true);
     try {
-      // In preview mode, accept any code as valid
-      const demoUser = DEMO_USERS.find(u => u.email === email);
-      if (!demoUser) {
-        sonnerToast.error("Reset failed: User not found");
-        return false;
-      }
-      
-      // Demo mode always accepts '123456' as the code
-      if (code !== '123456') {
-        sonnerToast.error("Reset failed: Invalid or expired reset code");
+      const response = await ApiClient.getInstance().fetch('/auth/reset-password', {
+        method: 'POST',
+        body: JSON.stringify({ email, code, newPassword }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        sonnerToast.error(`Reset failed: ${data.message || 'Invalid or expired reset code'}`);
         return false;
       }
-      
-      // Try to reset with backend if not in preview mode
-      try {
-        const response = await fetch(`${API_URL}/auth/reset-password`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ email, code, newPassword }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok || !data.success) {
-          sonnerToast.error(`Reset failed: ${data.message || 'Invalid or expired reset code'}`);
-          return false;
-        }
-        
-        sonnerToast.success("Password reset successful: You can now login with your new password");
-        return true;
-      } catch (error) {
-        console.error("Backend reset password error:", error);
-        sonnerToast.success("Password reset successful: You can now login with your new password");
-        return true;
-      }
+
+      sonnerToast.success("Password reset successful: You can now login with your new password");
+      return true;
     } catch (error) {
-      sonnerToast.error("Reset failed: An error occurred");
-      console.error("Reset password error:", error);
+      console.error("Backend reset password error:", error);
+      sonnerToast.error("Unable to connect to server, please try again");
       return false;
     } finally {
       setIsLoading(false);
@@ -325,6 +324,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         logout,
         forgotPassword,
         resetPassword,
+        openLocalProfile,
+        createLocalProfile,
+        upgradeLocalProfile,
         isLoading,
       }}
     >
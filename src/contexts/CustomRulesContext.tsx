@@ -1,29 +1,75 @@
-
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import SystemTrayService from '@/services/SystemTrayService';
+import ReminderService from '@/services/ReminderService';
+import NotificationCenterService from '@/services/NotificationCenterService';
+import QuietModeService from '@/services/QuietModeService';
+import PreferencesSyncService, { RULE_SETTING_KEYS } from '@/services/PreferencesSyncService';
 import { toast } from "sonner";
+import { useTimer } from '@/contexts/TimerContext';
+import { useFocusMode } from '@/contexts/FocusModeContext';
+import { RuleCondition, RuleOperator, RuleSnapshot, evaluateConditions } from '@/lib/ruleConditions';
+import { profileStorage } from '@/lib/profileStorage';
+
+export interface PopupAction {
+  type: 'popup';
+  text: string;
+  media?: {
+    type: 'image' | 'video';
+    content: string;
+  };
+  autoDismiss: boolean;
+  dismissTime?: number; // in seconds
+}
+
+export interface StartPomodoroAction {
+  type: 'start_pomodoro';
+}
+
+export interface FocusModeAction {
+  type: 'focus_mode';
+  enabled: boolean;
+}
+
+export type RuleAction = PopupAction | StartPomodoroAction | FocusModeAction;
 
 export interface Rule {
   id: string;
   name: string;
-  condition: {
-    type: string;
-    threshold: number;
-    timeWindow: number;
-  };
-  action: {
-    type: string;
-    text: string;
-    media?: {
-      type: 'image' | 'video';
-      content: string;
-    };
-    autoDismiss: boolean;
-    dismissTime?: number; // in seconds
-  };
+  operator: RuleOperator;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  isActive: boolean;
+}
+
+// What RichMediaPopup receives with a 'show-custom-rule-popup' event
+export interface RulePopup {
+  id: string;
+  name: string;
+  action: PopupAction;
+  isAlert: boolean;
+}
+
+// Rules saved before compound rules had a single condition and action
+interface LegacyRule {
+  id: string;
+  name: string;
+  condition: RuleCondition;
+  action: Omit<PopupAction, 'type'> & { type: string };
   isActive: boolean;
 }
 
+const migrateRule = (rule: Rule | LegacyRule): Rule => {
+  if (!('condition' in rule)) return rule;
+
+  const { condition, action, ...rest } = rule;
+  return {
+    ...rest,
+    operator: 'and',
+    conditions: [condition],
+    actions: [{ ...action, type: 'popup' }],
+  };
+};
+
 interface CustomRulesContextType {
   rules: Rule[];
   addRule: (rule: Omit<Rule, 'id'>) => void;
@@ -45,18 +91,49 @@ export const useCustomRules = () => {
 export const CustomRulesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [rules, setRules] = useState<Rule[]>([]);
   const [lastTriggeredTime, setLastTriggeredTime] = useState<Record<string, number>>({});
+  // Rules whose conditions are currently met, so rules made only of level
+  // conditions (e.g. screen time above a limit) don't fire again until they stop being met
+  const metRuleIds = useRef<Set<string>>(new Set());
+  
+  const { isPomodoroActive, isPomodoroBreak, startPomodoroTimer, resetPomodoroTimer } = useTimer();
+  const { isFocusMode, setFocusMode } = useFocusMode();
   
-  // Load saved rules from localStorage on component mount
+  // Keep the latest timer and focus mode controls for the rule check interval
+  const controlsRef = useRef({ isPomodoroActive, isPomodoroBreak, startPomodoroTimer, resetPomodoroTimer, isFocusMode, setFocusMode });
   useEffect(() => {
-    const savedRules = localStorage.getItem('customRules');
-    if (savedRules) {
-      setRules(JSON.parse(savedRules));
-    }
+    controlsRef.current = { isPomodoroActive, isPomodoroBreak, startPomodoroTimer, resetPomodoroTimer, isFocusMode, setFocusMode };
+  });
+  
+  // Load saved rules from localStorage on component mount, upgrading old single-condition rules.
+  // Rules changed on another device are reloaded the same way once the preferences sync saves them.
+  useEffect(() => {
+    const loadRules = () => {
+      const savedRules = profileStorage.getItem('customRules');
+      if (savedRules) {
+        try {
+          const parsed: Array<Rule | LegacyRule> = JSON.parse(savedRules);
+          setRules(parsed.map(migrateRule));
+        } catch (error) {
+          console.error("Failed to load custom rules:", error);
+        }
+      }
+    };
+    
+    const handleRemoteChange = (fields: string[]) => {
+      if (fields.some(field => RULE_SETTING_KEYS.includes(field))) {
+        loadRules();
+      }
+    };
+    
+    loadRules();
+    const preferencesSync = PreferencesSyncService.getInstance();
+    preferencesSync.addRemoteChangeListener(handleRemoteChange);
+    return () => preferencesSync.removeRemoteChangeListener(handleRemoteChange);
   }, []);
   
   // Save rules whenever they change
   useEffect(() => {
-    localStorage.setItem('customRules', JSON.stringify(rules));
+    profileStorage.setItem('customRules', JSON.stringify(rules));
   }, [rules]);
   
   const addRule = (rule: Omit<Rule, 'id'>) => {
@@ -71,7 +148,7 @@ export const CustomRulesProvider: React.FC<{ children: React.ReactNode }> = ({ c
   };
   
   const updateRule = (id: string, updatedFields: Partial<Rule>) => {
-    setRules(rules.map(rule => 
+    setRules(rules.map(rule =>
       rule.id === id ? { ...rule, ...updatedFields } : rule
     ));
     toast.success("Rule updated successfully");
@@ -83,7 +160,7 @@ export const CustomRulesProvider: React.FC<{ children: React.ReactNode }> = ({ c
   };
   
   const toggleRuleEnabled = (id: string) => {
-    setRules(rules.map(rule => 
+    setRules(rules.map(rule =>
       rule.id === id ? { ...rule, isActive: !rule.isActive } : rule
     ));
   };
@@ -96,10 +173,19 @@ export const CustomRulesProvider: React.FC<{ children: React.ReactNode }> = ({ c
     
     // Set up interval to check for rule triggers
     const checkRulesInterval = setInterval(() => {
-      const recentSwitches = systemTray.getRecentSwitchCount();
       const now = Date.now();
+      const snapshot: RuleSnapshot = {
+        now,
+        getSwitchCount: (windowMs: number) => systemTray.getSwitchCountInWindow(windowMs),
+        screenTime: systemTray.getScreenTime(),
+        focusScore: systemTray.getFocusScore(),
+        currentApp: systemTray.getCurrentApp(),
+        isIdle: systemTray.isUserIdle(),
+        isFocusMode: controlsRef.current.isFocusMode,
+        lastIdleReturn: systemTray.getLastIdleReturn()
+      };
       
-      console.log("Checking rules - Recent switches:", recentSwitches);
+      console.log("Checking rules - Snapshot:", snapshot);
       
       // Check if any rule should be triggered
       rules.forEach(rule => {
@@ -109,16 +195,19 @@ export const CustomRulesProvider: React.FC<{ children: React.ReactNode }> = ({ c
         const lastTrigger = lastTriggeredTime[rule.id] || 0;
         if (now - lastTrigger < 60000) return;
         
-        // Use appropriate check based on rule condition
-        let shouldTrigger = false;
-        
-        if (rule.condition.type === "app_switch" && recentSwitches >= rule.condition.threshold) {
-          shouldTrigger = true;
+        const { isMet, eventFired } = evaluateConditions(rule.conditions, rule.operator, snapshot, lastTrigger);
+        const wasMet = metRuleIds.current.has(rule.id);
+        if (isMet) {
+          metRuleIds.current.add(rule.id);
+        } else {
+          metRuleIds.current.delete(rule.id);
         }
         
+        const shouldTrigger = isMet && (!wasMet || eventFired);
+        
         if (shouldTrigger) {
           console.log("Triggering rule:", rule.name);
-          triggerRuleAction(rule);
+          triggerRuleActions(rule);
           
           // Update last triggered time
           setLastTriggeredTime(prev => ({
@@ -132,21 +221,54 @@ export const CustomRulesProvider: React.FC<{ children: React.ReactNode }> = ({ c
     return () => clearInterval(checkRulesInterval);
   }, [rules, lastTriggeredTime]);
   
-  const triggerRuleAction = (rule: Rule) => {
-    console.log("Triggering action for rule:", rule.name);
+  const triggerRuleActions = (rule: Rule) => {
+    console.log("Triggering actions for rule:", rule.name);
+    const controls = controlsRef.current;
     
-    if (rule.action.type === 'popup') {
-      showRichMediaPopup(rule);
-    }
+    rule.actions.forEach(action => {
+      switch (action.type) {
+        case 'popup':
+          showRichMediaPopup(rule, action);
+          break;
+        case 'start_pomodoro':
+          if (!controls.isPomodoroActive) {
+            if (controls.isPomodoroBreak) {
+              controls.resetPomodoroTimer();
+            }
+            controls.startPomodoroTimer();
+          }
+          break;
+        case 'focus_mode':
+          if (controls.isFocusMode !== action.enabled) {
+            controls.setFocusMode(action.enabled);
+          }
+          break;
+      }
+    });
   };
   
-  const showRichMediaPopup = (rule: Rule) => {
+  const showRichMediaPopup = (rule: Rule, action: PopupAction) => {
+    // Do Not Disturb holds back the popup, but the rule's other actions still run
+    const reminders = ReminderService.getInstance();
+    if (reminders.isDoNotDisturbActive()) {
+      reminders.recordSuppressed('custom_rule', rule.name, action.text, { notificationId: `custom-rule-${rule.id}` });
+      return;
+    }
+    
+    NotificationCenterService.getInstance().addNotification('custom_rule', rule.name, action.text, `custom-rule-${rule.id}`);
+    
     // Dispatch event to show the popup
-    const event = new CustomEvent('show-custom-rule-popup', { 
-      detail: rule 
+    const event = new CustomEvent<RulePopup>('show-custom-rule-popup', {
+      detail: {
+        id: rule.id,
+        name: rule.name,
+        action,
+        isAlert: rule.conditions.some(condition => condition.type === 'app_switch')
+      }
     });
     console.log("Dispatching rule popup event:", rule.name);
-    window.dispatchEvent(event);
+    // During a meeting or full screen app the popup waits until it's over
+    QuietModeService.getInstance().whenNotQuiet(() => window.dispatchEvent(event));
   };
   
   const value = {
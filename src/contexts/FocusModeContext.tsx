@@ -1,20 +1,109 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import SystemTrayService from '@/services/SystemTrayService';
+import ReminderService from '@/services/ReminderService';
+import NotificationCenterService from '@/services/NotificationCenterService';
+import QuietModeService from '@/services/QuietModeService';
+import PreferencesSyncService, { FOCUS_MODE_SETTING_KEYS } from '@/services/PreferencesSyncService';
 import { toast } from "sonner";
 import { useToast } from "@/hooks/use-toast";
 import { FocusModeAlert } from '@/components/focus/FocusModeAlert';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTimer } from '@/contexts/TimerContext';
+import {
+  FocusSchedule,
+  ScheduleOccurrence,
+  getActiveOccurrence,
+  getNextOccurrence,
+  formatScheduleSummary,
+} from '@/lib/focusSchedules';
+
+// How often schedules are checked for a start or end
+const SCHEDULE_CHECK_INTERVAL = 30 * 1000;
+
+// A named whitelist, e.g. "Coding" or "Writing"
+export interface WhitelistProfile {
+  id: string;
+  name: string;
+  apps: string[];
+}
+
+const DEFAULT_PROFILE_ID = 'default';
+
+// How a non-whitelisted app is blocked when dimming is off
+export type FocusBlockMode = 'overlay' | 'reason';
+
+// A record of the user getting past a block
+export interface FocusOverride {
+  id: string;
+  timestamp: number;
+  appName: string;
+  mode: FocusBlockMode;
+  action: 'reason' | 'end-focus-mode';
+  reason: string;
+  whitelistName: string;
+}
+
+// How long an app stays unblocked after a reason is given
+const OVERRIDE_GRACE_PERIOD = 10 * 60 * 1000;
+// The reason gate gets stricter with every override in the same focus session
+const BASE_REASON_LENGTH = 20;
+const MAX_OVERRIDE_LOG_SIZE = 500;
+
+// Which schedule occurrence was last applied, and whether the user has
+// overridden it for the rest of that session
+interface ScheduleSessionState {
+  appliedKey: string | null;
+  overridden: boolean;
+}
+
+// Opt-in link between Pomodoro focus sessions and Focus Mode
+export interface PomodoroFocusLink {
+  enabled: boolean;
+  profileId: string | null; // Whitelist to use during the session, or null for the active one
+}
+
+// Which Pomodoro session last switched Focus Mode on, and whether the user has
+// overridden it since
+interface PomodoroLinkState {
+  appliedSessionId: string | null;
+  overridden: boolean;
+}
 
 interface FocusModeContextType {
   isFocusMode: boolean;
   toggleFocusMode: () => void;
+  setFocusMode: (active: boolean) => void;
   whitelist: string[];
+  activeWhitelist: string[];
+  activeWhitelistName: string;
+  whitelistProfiles: WhitelistProfile[];
+  activeProfileId: string;
+  setActiveProfile: (id: string) => void;
+  createProfile: (name: string) => void;
+  duplicateProfile: (id: string) => void;
+  renameProfile: (id: string, name: string) => void;
+  deleteProfile: (id: string) => void;
   addToWhitelist: (app: string) => void;
   removeFromWhitelist: (app: string) => void;
   dimInsteadOfBlock: boolean;
+  activeDimInsteadOfBlock: boolean;
   toggleDimOption: () => void;
+  blockMode: FocusBlockMode;
+  setBlockMode: (mode: FocusBlockMode) => void;
+  overrideLog: FocusOverride[];
+  clearOverrideLog: () => void;
   currentActiveApp: string | null;
   isCurrentAppWhitelisted: boolean;
+  schedules: FocusSchedule[];
+  addSchedule: (schedule: Omit<FocusSchedule, 'id'>) => void;
+  updateSchedule: (id: string, changes: Partial<Omit<FocusSchedule, 'id'>>) => void;
+  deleteSchedule: (id: string) => void;
+  activeSchedule: FocusSchedule | null;
+  activeScheduleEndsAt: Date | null;
+  isScheduleOverridden: boolean;
+  pomodoroLink: PomodoroFocusLink;
+  setPomodoroLink: (changes: Partial<PomodoroFocusLink>) => void;
+  isPomodoroFocusActive: boolean;
 }
 
 const FocusModeContext = createContext<FocusModeContextType | undefined>(undefined);
@@ -29,7 +118,10 @@ export const useFocusMode = () => {
 
 export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [isFocusMode, setIsFocusMode] = useState(false);
-  const [whitelist, setWhitelist] = useState<string[]>([]);
+  const [whitelistProfiles, setWhitelistProfiles] = useState<WhitelistProfile[]>([
+    { id: DEFAULT_PROFILE_ID, name: 'Default', apps: [] }
+  ]);
+  const [activeProfileId, setActiveProfileId] = useState<string>(DEFAULT_PROFILE_ID);
   const [dimInsteadOfBlock, setDimInsteadOfBlock] = useState(true);
   const [lastActiveWindow, setLastActiveWindow] = useState<string | null>(null);
   const [showingAlert, setShowingAlert] = useState(false);
@@ -42,6 +134,58 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const [isCurrentAppWhitelisted, setIsCurrentAppWhitelisted] = useState(false);
   const [activeWindowInfo, setActiveWindowInfo] = useState<any>(null);
   
+  // Focus schedules
+  const [schedules, setSchedules] = useState<FocusSchedule[]>([]);
+  
+  // Block enforcement
+  const [blockMode, setBlockMode] = useState<FocusBlockMode>('overlay');
+  const [overrideLog, setOverrideLog] = useState<FocusOverride[]>([]);
+  const [blockedApp, setBlockedApp] = useState<string | null>(null);
+  const overrideAllowances = useRef<Map<string, number>>(new Map());
+  const focusSessionStart = useRef<number>(Date.now());
+  
+  // User whose profiles and schedules are currently loaded
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  // Bumped when the preferences sync brings focus settings from another device, to load them again
+  const [syncRevision, setSyncRevision] = useState(0);
+  const [activeOccurrence, setActiveOccurrence] = useState<ScheduleOccurrence | null>(null);
+  const [scheduleSession, setScheduleSession] = useState<ScheduleSessionState>({ appliedKey: null, overridden: false });
+  
+  // Pomodoro link
+  const [pomodoroLink, setPomodoroLinkState] = useState<PomodoroFocusLink>({ enabled: false, profileId: null });
+  const [pomodoroLinkState, setPomodoroLinkSessionState] = useState<PomodoroLinkState>({ appliedSessionId: null, overridden: false });
+  const { pomodoroSessionStart, isPomodoroBreak } = useTimer();
+  const linkedPomodoroId = pomodoroLink.enabled && pomodoroSessionStart !== null && !isPomodoroBreak
+    ? `pomodoro-${pomodoroSessionStart}`
+    : null;
+  
+  // The whitelist being edited is the active profile's
+  const activeProfile = whitelistProfiles.find(profile => profile.id === activeProfileId) || whitelistProfiles[0];
+  const whitelist = activeProfile.apps;
+  
+  const setWhitelist = useCallback((update: (apps: string[]) => string[]) => {
+    setWhitelistProfiles(prev => prev.map(profile =>
+      profile.id === activeProfileId ? { ...profile, apps: update(profile.apps) } : profile
+    ));
+  }, [activeProfileId]);
+  
+  // While a schedule is running, its own whitelist and dim setting apply
+  const activeSchedule = scheduleSession.appliedKey && activeOccurrence?.key === scheduleSession.appliedKey
+    ? activeOccurrence.schedule
+    : null;
+  
+  // A linked Pomodoro session's whitelist wins over a schedule's, since the user started it
+  const isPomodoroFocusActive = pomodoroLinkState.appliedSessionId !== null && !pomodoroLinkState.overridden;
+  const pomodoroProfile = isPomodoroFocusActive && pomodoroLink.profileId
+    ? whitelistProfiles.find(profile => profile.id === pomodoroLink.profileId) || null
+    : null;
+  const activeWhitelist = pomodoroProfile
+    ? pomodoroProfile.apps
+    : activeSchedule ? activeSchedule.whitelist : whitelist;
+  const activeWhitelistName = pomodoroProfile?.name || activeSchedule?.name || activeProfile.name;
+  // A linked Pomodoro whitelist uses the manual dim setting, since profiles don't have one
+  const activeDimInsteadOfBlock = activeSchedule && !pomodoroProfile ? activeSchedule.dimInsteadOfBlock : dimInsteadOfBlock;
+  
   // Get user from auth context with fallback
   const auth = useAuth();
   const userId = auth?.user?.id || (() => {
@@ -53,20 +197,31 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     return newId;
   })();
   
-  // Load saved settings from localStorage on initial mount
+  // Load saved settings from localStorage on initial mount, and again after a sync brings changes
   useEffect(() => {
     if (!userId) return;
     
+    // Load whitelist profiles, turning the old single whitelist into the default profile
+    const savedProfiles = localStorage.getItem(`focusModeProfiles-${userId}`);
     const savedWhitelist = localStorage.getItem(`focusModeWhitelist-${userId}`);
-    if (savedWhitelist) {
-      try {
-        setWhitelist(JSON.parse(savedWhitelist));
-      } catch (e) {
-        console.error("Failed to parse whitelist:", e);
-        setWhitelist([]);
+    let profiles: WhitelistProfile[] = [];
+    try {
+      if (savedProfiles) {
+        profiles = JSON.parse(savedProfiles);
+      } else {
+        profiles = [{ id: DEFAULT_PROFILE_ID, name: 'Default', apps: savedWhitelist ? JSON.parse(savedWhitelist) : [] }];
       }
+    } catch (e) {
+      console.error("Failed to parse whitelist profiles:", e);
+    }
+    if (!Array.isArray(profiles) || profiles.length === 0) {
+      profiles = [{ id: DEFAULT_PROFILE_ID, name: 'Default', apps: [] }];
     }
     
+    const savedActiveProfile = localStorage.getItem(`focusModeActiveProfile-${userId}`);
+    setWhitelistProfiles(profiles);
+    setActiveProfileId(profiles.find(profile => profile.id === savedActiveProfile)?.id || profiles[0].id);
+    
     const savedDimOption = localStorage.getItem(`focusModeDimOption-${userId}`);
     if (savedDimOption) {
       try {
@@ -81,7 +236,55 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       setIsFocusMode(true);
     }
     
-    // Register for active window change events
+    const savedBlockMode = localStorage.getItem(`focusModeBlockMode-${userId}`);
+    setBlockMode(savedBlockMode === 'reason' ? 'reason' : 'overlay');
+    
+    try {
+      const savedOverrides = localStorage.getItem(`focusModeOverrides-${userId}`);
+      setOverrideLog(savedOverrides ? JSON.parse(savedOverrides) : []);
+    } catch (e) {
+      console.error("Failed to parse focus overrides:", e);
+      setOverrideLog([]);
+    }
+    
+    const savedSchedules = localStorage.getItem(`focusModeSchedules-${userId}`);
+    const savedScheduleSession = localStorage.getItem(`focusModeScheduleSession-${userId}`);
+    try {
+      setSchedules(savedSchedules ? JSON.parse(savedSchedules) : []);
+      setScheduleSession(savedScheduleSession ? JSON.parse(savedScheduleSession) : { appliedKey: null, overridden: false });
+    } catch (e) {
+      console.error("Failed to parse focus schedules:", e);
+      setSchedules([]);
+      setScheduleSession({ appliedKey: null, overridden: false });
+    }
+    
+    try {
+      const savedPomodoroLink = localStorage.getItem(`focusModePomodoroLink-${userId}`);
+      const savedPomodoroLinkState = localStorage.getItem(`focusModePomodoroLinkState-${userId}`);
+      setPomodoroLinkState(savedPomodoroLink ? JSON.parse(savedPomodoroLink) : { enabled: false, profileId: null });
+      setPomodoroLinkSessionState(savedPomodoroLinkState ? JSON.parse(savedPomodoroLinkState) : { appliedSessionId: null, overridden: false });
+    } catch (e) {
+      console.error("Failed to parse Pomodoro link settings:", e);
+      setPomodoroLinkState({ enabled: false, profileId: null });
+      setPomodoroLinkSessionState({ appliedSessionId: null, overridden: false });
+    }
+    setLoadedUserId(userId);
+  }, [userId, syncRevision]);
+  
+  useEffect(() => {
+    const preferencesSync = PreferencesSyncService.getInstance();
+    const handleRemoteChange = (fields: string[]) => {
+      if (fields.some(field => FOCUS_MODE_SETTING_KEYS.includes(field))) {
+        setSyncRevision(revision => revision + 1);
+      }
+    };
+    
+    preferencesSync.addRemoteChangeListener(handleRemoteChange);
+    return () => preferencesSync.removeRemoteChangeListener(handleRemoteChange);
+  }, []);
+  
+  // Register for active window change events
+  useEffect(() => {
     const handleActiveWindowChanged = (event: CustomEvent<any>) => {
       const windowInfo = event.detail;
       console.log("Window changed event:", windowInfo);
@@ -95,7 +298,7 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       setLastActiveWindow(typeof windowInfo === 'string' ? windowInfo : windowInfo.title);
       
       // Check whitelist status with enhanced matching
-      const isWhitelisted = isAppInWhitelist(appName, whitelist);
+      const isWhitelisted = isAppInWhitelist(appName, activeWhitelist);
       setIsCurrentAppWhitelisted(isWhitelisted);
       
       console.log("App detected:", appName, "Whitelisted:", isWhitelisted);
@@ -123,16 +326,55 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       window.removeEventListener('active-window-changed', handleActiveWindowChanged as EventListener);
       window.removeEventListener('notification-dismissed', handleNotificationDismissed as EventListener);
     };
-  }, [currentAlertApp, userId, whitelist]);
+  }, [currentAlertApp, activeWhitelist]);
   
   // Save settings whenever they change
   useEffect(() => {
+    // Wait until this user's profiles have been loaded before writing them back
+    if (loadedUserId !== userId) return;
+    
     try {
+      localStorage.setItem(`focusModeProfiles-${userId}`, JSON.stringify(whitelistProfiles));
+      localStorage.setItem(`focusModeActiveProfile-${userId}`, activeProfileId);
+      // Keep the single-list key in step with the active profile for older readers
       localStorage.setItem(`focusModeWhitelist-${userId}`, JSON.stringify(whitelist));
     } catch (e) {
       console.error("Failed to save whitelist:", e);
     }
-  }, [whitelist, userId]);
+  }, [whitelistProfiles, activeProfileId, whitelist, loadedUserId, userId]);
+  
+  useEffect(() => {
+    if (loadedUserId !== userId) return;
+    
+    try {
+      localStorage.setItem(`focusModeBlockMode-${userId}`, blockMode);
+      localStorage.setItem(`focusModeOverrides-${userId}`, JSON.stringify(overrideLog));
+    } catch (e) {
+      console.error("Failed to save focus block settings:", e);
+    }
+  }, [blockMode, overrideLog, loadedUserId, userId]);
+  
+  useEffect(() => {
+    if (loadedUserId !== userId) return;
+    
+    try {
+      localStorage.setItem(`focusModeSchedules-${userId}`, JSON.stringify(schedules));
+      localStorage.setItem(`focusModeScheduleSession-${userId}`, JSON.stringify(scheduleSession));
+    } catch (e) {
+      console.error("Failed to save focus schedules:", e);
+    }
+  }, [schedules, scheduleSession, loadedUserId, userId]);
+  
+  useEffect(() => {
+    if (loadedUserId !== userId) return;
+    
+    try {
+      localStorage.setItem(`focusModePomodoroLink-${userId}`, JSON.stringify(pomodoroLink));
+      localStorage.setItem(`focusModePomodoroLinkState-${userId}`, JSON.stringify(pomodoroLinkState));
+    } catch (e) {
+      console.error("Failed to save Pomodoro link settings:", e);
+    }
+  }, [pomodoroLink, pomodoroLinkState, loadedUserId, userId]);
   
   useEffect(() => {
     try {
@@ -158,6 +400,11 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       return normalizeAppName(windowInfo);
     }
     
+    // A site open in a browser is treated as its own app, so whitelist by domain
+    if (windowInfo.domain) {
+      return normalizeAppName(windowInfo.domain);
+    }
+    
     // Priority order: executable name > bundle ID > owner name > title
     const candidates = [
       windowInfo.owner?.path ? getExecutableName(windowInfo.owner.path) : null,
@@ -237,7 +484,7 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       return;
     }
     
-    const isWhitelisted = isAppInWhitelist(currentActiveApp, whitelist);
+    const isWhitelisted = isAppInWhitelist(currentActiveApp, activeWhitelist);
     
     // Show popup only when switching to a different non-whitelisted app
     if (!isWhitelisted && currentActiveApp !== lastNotifiedApp) {
@@ -249,11 +496,17 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       setShowingAlert(false);
       setCurrentAlertApp(null);
     }
-  }, [isFocusMode, currentActiveApp, whitelist, lastNotifiedApp, showingAlert, currentAlertApp]);
-  
-  const toggleFocusMode = useCallback(() => {
-    const newState = !isFocusMode;
     
+    // Lift the block once the user is back in an allowed app, and block
+    // again if they return to the blocked one
+    if (isWhitelisted && blockedApp) {
+      hideFocusBlock();
+      setLastNotifiedApp(null);
+    }
+  }, [isFocusMode, currentActiveApp, activeWhitelist, lastNotifiedApp, showingAlert, currentAlertApp, blockedApp]);
+  
+  // Turn focus mode on or off. The description replaces the default toast text.
+  const applyFocusMode = useCallback((newState: boolean, description?: string) => {
     // Prevent window glitching by stabilizing before state change
     if (window.electron) {
       window.electron.send('stabilize-window');
@@ -268,12 +521,12 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }
       
       toast.success("Focus Mode activated", {
-        description: "You'll be notified when using non-whitelisted apps",
+        description: description || "You'll be notified when using non-whitelisted apps",
       });
       
       // Check current app immediately
       if (currentActiveApp) {
-        const isWhitelisted = isAppInWhitelist(currentActiveApp, whitelist);
+        const isWhitelisted = isAppInWhitelist(currentActiveApp, activeWhitelist);
         if (!isWhitelisted) {
           setTimeout(() => {
             handleNonWhitelistedApp(currentActiveApp);
@@ -288,9 +541,196 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       
       setShowingAlert(false);
       setCurrentAlertApp(null);
-      toast.info("Focus Mode deactivated");
+      toast.info("Focus Mode deactivated", description ? { description } : undefined);
+    }
+  }, [currentActiveApp, activeWhitelist]);
+  
+  // Manual changes win over a running schedule or Pomodoro session until it ends
+  const setFocusMode = useCallback((active: boolean) => {
+    if (scheduleSession.appliedKey && !scheduleSession.overridden) {
+      setScheduleSession(prev => ({ ...prev, overridden: true }));
+    }
+    
+    if (pomodoroLinkState.appliedSessionId && !pomodoroLinkState.overridden) {
+      setPomodoroLinkSessionState(prev => ({ ...prev, overridden: true }));
     }
-  }, [isFocusMode, currentActiveApp, whitelist]);
+    
+    applyFocusMode(active);
+  }, [applyFocusMode, scheduleSession, pomodoroLinkState]);
+  
+  const toggleFocusMode = useCallback(() => {
+    setFocusMode(!isFocusMode);
+  }, [isFocusMode, setFocusMode]);
+  
+  // Re-check the schedules periodically and whenever they change
+  useEffect(() => {
+    if (loadedUserId !== userId) return;
+    
+    const checkSchedules = () => {
+      const occurrence = getActiveOccurrence(schedules);
+      setActiveOccurrence(prev =>
+        prev?.key === occurrence?.key && prev?.schedule === occurrence?.schedule ? prev : occurrence
+      );
+    };
+    
+    checkSchedules();
+    const interval = setInterval(checkSchedules, SCHEDULE_CHECK_INTERVAL);
+    
+    return () => clearInterval(interval);
+  }, [schedules, loadedUserId, userId]);
+  
+  // Start or stop focus mode when a scheduled session begins or ends
+  useEffect(() => {
+    if (loadedUserId !== userId) return;
+    
+    const key = activeOccurrence?.key ?? null;
+    if (key === scheduleSession.appliedKey) return;
+    
+    const previous = scheduleSession;
+    setScheduleSession({ appliedKey: key, overridden: false });
+    
+    if (activeOccurrence) {
+      const endTime = activeOccurrence.end.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      applyFocusMode(true, `"${activeOccurrence.schedule.name}" is scheduled until ${endTime}`);
+    } else if (previous.appliedKey && !previous.overridden && !isPomodoroFocusActive) {
+      // Leave focus mode alone if the user took over, or a linked Pomodoro session still wants it on
+      applyFocusMode(false, "Your scheduled focus session has ended");
+    }
+  }, [activeOccurrence, scheduleSession, isPomodoroFocusActive, loadedUserId, userId, applyFocusMode]);
+  
+  // Turn focus mode on for a linked Pomodoro session and off again for its break
+  useEffect(() => {
+    if (loadedUserId !== userId) return;
+    if (linkedPomodoroId === pomodoroLinkState.appliedSessionId) return;
+    
+    const previous = pomodoroLinkState;
+    setPomodoroLinkSessionState({ appliedSessionId: linkedPomodoroId, overridden: false });
+    
+    if (linkedPomodoroId) {
+      applyFocusMode(true, "Focus Mode is on for this Pomodoro session");
+    } else if (previous.appliedSessionId && !previous.overridden && !activeSchedule) {
+      // Leave focus mode alone if the user took over, or a schedule still wants it on
+      applyFocusMode(false, "Pomodoro session over, enjoy your break");
+    }
+  }, [linkedPomodoroId, pomodoroLinkState, activeSchedule, loadedUserId, userId, applyFocusMode]);
+  
+  const setPomodoroLink = useCallback((changes: Partial<PomodoroFocusLink>) => {
+    setPomodoroLinkState(prev => ({ ...prev, ...changes }));
+  }, []);
+  
+  const addSchedule = useCallback((schedule: Omit<FocusSchedule, 'id'>) => {
+    setSchedules(prev => [...prev, { ...schedule, id: `schedule-${Date.now()}` }]);
+    toast.success(`Added "${schedule.name}" schedule`);
+  }, []);
+  
+  const updateSchedule = useCallback((id: string, changes: Partial<Omit<FocusSchedule, 'id'>>) => {
+    setSchedules(prev => prev.map(schedule => schedule.id === id ? { ...schedule, ...changes } : schedule));
+  }, []);
+  
+  const deleteSchedule = useCallback((id: string) => {
+    setSchedules(prev => prev.filter(schedule => schedule.id !== id));
+  }, []);
+  
+  const setActiveProfile = useCallback((id: string) => {
+    const profile = whitelistProfiles.find(item => item.id === id);
+    if (!profile || id === activeProfileId) return;
+    
+    setActiveProfileId(id);
+    setLastNotifiedApp(null); // Re-check the current app against the new list
+    toast.success(`Switched to the ${profile.name} whitelist`);
+  }, [whitelistProfiles, activeProfileId]);
+  
+  const createProfile = useCallback((name: string) => {
+    if (!name.trim()) return;
+    
+    const profile: WhitelistProfile = { id: `profile-${Date.now()}`, name: name.trim(), apps: [] };
+    setWhitelistProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+    toast.success(`Created the ${profile.name} whitelist`);
+  }, []);
+  
+  const duplicateProfile = useCallback((id: string) => {
+    const source = whitelistProfiles.find(profile => profile.id === id);
+    if (!source) return;
+    
+    const profile: WhitelistProfile = { id: `profile-${Date.now()}`, name: `${source.name} (copy)`, apps: [...source.apps] };
+    setWhitelistProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+  }, [whitelistProfiles]);
+  
+  const renameProfile = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    
+    setWhitelistProfiles(prev => prev.map(profile => profile.id === id ? { ...profile, name: name.trim() } : profile));
+  }, []);
+  
+  const deleteProfile = useCallback((id: string) => {
+    if (whitelistProfiles.length <= 1) {
+      toast.error("You need at least one whitelist");
+      return;
+    }
+    
+    const remaining = whitelistProfiles.filter(profile => profile.id !== id);
+    setWhitelistProfiles(remaining);
+    if (id === activeProfileId) {
+      setActiveProfileId(remaining[0].id);
+    }
+  }, [whitelistProfiles, activeProfileId]);
+  
+  // Keep the tray menu's profile list up to date
+  useEffect(() => {
+    if (!window.electron) return;
+    
+    window.electron.send('update-whitelist-profiles', {
+      profiles: whitelistProfiles.map(profile => ({ id: profile.id, name: profile.name })),
+      activeProfileId: activeProfile.id,
+    });
+  }, [whitelistProfiles, activeProfile.id]);
+  
+  // Keep the tray menu's schedule list up to date
+  useEffect(() => {
+    if (!window.electron) return;
+    
+    const next = getNextOccurrence(schedules);
+    window.electron.send('update-focus-schedules', {
+      schedules: schedules.map(schedule => ({
+        id: schedule.id,
+        name: schedule.name,
+        summary: formatScheduleSummary(schedule),
+        isActive: schedule.isActive,
+        isRunning: activeSchedule?.id === schedule.id,
+      })),
+      nextScheduleName: next ? next.schedule.name : null,
+      nextScheduleStart: next ? next.start.getTime() : null,
+    });
+  }, [schedules, activeSchedule]);
+  
+  // Handle focus mode and schedule changes made from the tray menu
+  useEffect(() => {
+    if (!window.electron) return;
+    
+    const unsubscribeFocusMode = window.electron.receive('focus-mode-changed', (active: boolean) => {
+      if (active !== isFocusMode) {
+        setFocusMode(active);
+      }
+    });
+    
+    const unsubscribeSchedule = window.electron.receive('toggle-focus-schedule', (id: string) => {
+      setSchedules(prev => prev.map(schedule =>
+        schedule.id === id ? { ...schedule, isActive: !schedule.isActive } : schedule
+      ));
+    });
+    
+    const unsubscribeProfile = window.electron.receive('set-whitelist-profile', (id: string) => {
+      setActiveProfile(id);
+    });
+    
+    return () => {
+      unsubscribeFocusMode?.();
+      unsubscribeSchedule?.();
+      unsubscribeProfile?.();
+    };
+  }, [isFocusMode, setFocusMode, setActiveProfile]);
   
   const addToWhitelist = useCallback((app: string) => {
     if (!whitelist.includes(app) && app.trim() !== '') {
@@ -312,7 +752,7 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }
       }, 0);
     }
-  }, [whitelist, currentAlertApp, currentActiveApp]);
+  }, [whitelist, setWhitelist, currentAlertApp, currentActiveApp]);
   
   const removeFromWhitelist = useCallback((app: string) => {
     // Prevent UI flicker by batching state updates
@@ -329,15 +769,44 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }, 100);
       }
     }, 0);
-  }, [isFocusMode, currentActiveApp]);
+  }, [isFocusMode, currentActiveApp, setWhitelist]);
   
   const toggleDimOption = useCallback(() => {
     setDimInsteadOfBlock(prev => !prev);
   }, []);
   
+  const hideFocusBlock = useCallback(() => {
+    if (window.electron) {
+      window.electron.send('hide-focus-block');
+    }
+    setBlockedApp(null);
+  }, []);
+  
   const handleNonWhitelistedApp = useCallback((appName: string) => {
     console.log("Handling non-whitelisted app:", appName);
     
+    // Skip apps the user recently gave a reason for
+    const allowedUntil = overrideAllowances.current.get(normalizeAppName(appName));
+    if (allowedUntil && allowedUntil > Date.now()) {
+      console.log(`${appName} is allowed by an override until ${new Date(allowedUntil).toLocaleTimeString()}`);
+      return;
+    }
+    
+    // Do Not Disturb silences the alerts, but a block or dim still applies
+    const isSilenced = ReminderService.getInstance().isDoNotDisturbActive();
+    if (isSilenced && (!window.electron || activeDimInsteadOfBlock)) {
+      console.log(`Do Not Disturb is on, not alerting about ${appName}`);
+      ReminderService.getInstance().recordSuppressed(
+        'focus_alert',
+        "Focus Mode Alert",
+        `You're outside your focus zone. ${appName} is not in your whitelist.`
+      );
+      if (activeDimInsteadOfBlock) {
+        applyDimEffect();
+      }
+      return;
+    }
+    
     // Get custom image and text from localStorage (no fallback image)
     const customImage = localStorage.getItem(`focusModeCustomImage-${userId}`);
     const customText = localStorage.getItem(`focusModeCustomText-${userId}`) || '';
@@ -346,9 +815,27 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     setShowingAlert(true);
     
     const notificationId = `focus-mode-${appName}-${Date.now()}`;
+    NotificationCenterService.getInstance().addNotification(
+      'focus_alert',
+      "Focus Mode Alert",
+      `You're outside your focus zone. ${appName} is not in your whitelist.`,
+      notificationId
+    );
     
-    // Send to Electron for system-level popup
-    if (window.electron) {
+    if (window.electron && !activeDimInsteadOfBlock) {
+      // Block mode: cover the app until the user switches away or gets past the gate
+      const sessionOverrides = overrideLog.filter(entry => entry.timestamp >= focusSessionStart.current).length;
+      
+      window.electron.send('show-focus-block', {
+        appName,
+        mode: blockMode,
+        minReasonLength: Math.min(BASE_REASON_LENGTH * (sessionOverrides + 1), 200),
+        waitSeconds: sessionOverrides === 0 ? 0 : Math.min(15 * 2 ** (sessionOverrides - 1), 300),
+        profileName: activeWhitelistName
+      });
+      setBlockedApp(appName);
+    } else if (window.electron) {
+      // Send to Electron for system-level popup
       const popupData: any = {
         title: "Focus Mode Alert", 
         body: `You're outside your focus zone. ${appName} is not in your whitelist.`,
@@ -373,16 +860,63 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       toastDescription += `\n\n${customText}`;
     }
     
-    centerToast({
-      title: "Focus Alert",
-      description: toastDescription,
-      duration: 5000,
-    });
+    if (!isSilenced) {
+      QuietModeService.getInstance().whenNotQuiet(() => centerToast({
+        title: "Focus Alert",
+        description: toastDescription,
+        duration: 5000,
+      }));
+    }
     
-    if (dimInsteadOfBlock) {
+    if (activeDimInsteadOfBlock) {
       applyDimEffect();
     }
-  }, [centerToast, dimInsteadOfBlock, userId]);
+  }, [centerToast, activeDimInsteadOfBlock, blockMode, overrideLog, activeWhitelistName, userId]);
+  
+  // Record overrides made from the block overlay
+  useEffect(() => {
+    if (!window.electron) return;
+    
+    const unsubscribe = window.electron.receive('focus-block-overridden', (data: Omit<FocusOverride, 'id' | 'whitelistName'>) => {
+      const entry: FocusOverride = {
+        id: `override-${data.timestamp}`,
+        timestamp: data.timestamp,
+        appName: data.appName,
+        mode: data.mode,
+        action: data.action,
+        reason: data.reason,
+        whitelistName: activeWhitelistName
+      };
+      
+      setOverrideLog(prev => [...prev, entry].slice(-MAX_OVERRIDE_LOG_SIZE));
+      setBlockedApp(null);
+      setShowingAlert(false);
+      setCurrentAlertApp(null);
+      
+      if (entry.action === 'end-focus-mode') {
+        setFocusMode(false);
+      } else {
+        overrideAllowances.current.set(normalizeAppName(entry.appName), Date.now() + OVERRIDE_GRACE_PERIOD);
+        toast.info(`${entry.appName} allowed for ${OVERRIDE_GRACE_PERIOD / 60000} minutes`);
+      }
+    });
+    
+    return () => unsubscribe?.();
+  }, [activeWhitelistName, setFocusMode]);
+  
+  // Each focus session starts with a fresh reason gate and no allowances
+  useEffect(() => {
+    if (isFocusMode) {
+      focusSessionStart.current = Date.now();
+      overrideAllowances.current.clear();
+    } else {
+      setBlockedApp(null);
+    }
+  }, [isFocusMode]);
+  
+  const clearOverrideLog = useCallback(() => {
+    setOverrideLog([]);
+  }, []);
   
   const applyDimEffect = useCallback(() => {
     const existingOverlay = document.getElementById('focus-mode-dim-overlay');
@@ -423,13 +957,38 @@ export const FocusModeProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const value = {
     isFocusMode,
     toggleFocusMode,
+    setFocusMode,
     whitelist,
+    activeWhitelist,
+    activeWhitelistName,
+    whitelistProfiles,
+    activeProfileId: activeProfile.id,
+    setActiveProfile,
+    createProfile,
+    duplicateProfile,
+    renameProfile,
+    deleteProfile,
     addToWhitelist,
     removeFromWhitelist,
     dimInsteadOfBlock,
+    activeDimInsteadOfBlock,
     toggleDimOption,
+    blockMode,
+    setBlockMode,
+    overrideLog,
+    clearOverrideLog,
     currentActiveApp,
-    isCurrentAppWhitelisted
+    isCurrentAppWhitelisted,
+    schedules,
+    addSchedule,
+    updateSchedule,
+    deleteSchedule,
+    activeSchedule,
+    activeScheduleEndsAt: activeSchedule && activeOccurrence ? activeOccurrence.end : null,
+    isScheduleOverridden: Boolean(activeSchedule) && scheduleSession.overridden,
+    pomodoroLink,
+    setPomodoroLink,
+    isPomodoroFocusActive
   };
   
   // Get the custom image for the alert (no fallback)
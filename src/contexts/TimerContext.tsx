@@ -1,23 +1,173 @@
-import { createContext, useContext, useEffect, useState } from "react";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { toast as sonnerToast } from "sonner";
+import SystemTrayService, { SessionDistraction } from "@/services/SystemTrayService";
+import { EyeCareRegimenId, formatBreakDuration, getStretchPrompt } from "@/lib/eyeCareRegimens";
+import PostureMonitorService from "@/services/PostureMonitorService";
+import { PostureEvent } from "@/lib/postureDetection";
+import ReminderService, { ReminderSource } from "@/services/ReminderService";
+import NotificationCenterService from "@/services/NotificationCenterService";
+import QuietModeService from "@/services/QuietModeService";
+import PreferencesSyncService, { TIMER_SETTING_KEYS } from "@/services/PreferencesSyncService";
+import { profileStorage } from "@/lib/profileStorage";
 
 interface TimerSettings {
   pomodoroDuration: number;
   pomodoroBreakDuration: number;
+  pomodoroLongBreakDuration: number;
+  pomodoroLongBreakInterval: number;
+  pomodoroDailyGoal: number;
   eyeCareWorkDuration: number;
   eyeCareRestDuration: number;
+  eyeCareRegimen: EyeCareRegimenId;
+  eyeCareLongBreakEvery: number;
+  eyeCareLongBreakDuration: number;
 }
 
+// How an eye care break went: rested for the whole break, skipped it or put it off
+export interface EyeCareBreak {
+  id: string;
+  kind: 'short' | 'long';
+  outcome: 'taken' | 'skipped' | 'snoozed';
+  time: number;
+}
+
+// A focus session that ran to the end or was reset before finishing
+export interface PomodoroSession {
+  id: string;
+  taskLabel: string;
+  startTime: number;
+  endTime: number;
+  plannedMinutes: number;
+  status: 'completed' | 'interrupted';
+  distractions?: SessionDistraction[];
+}
+
+const getSessionId = (startTime: number): string => `pomodoro-${startTime}`;
+
+// Keep the session and break logs from growing without bound
+const MAX_SESSION_LOG_SIZE = 1000;
+const MAX_BREAK_LOG_SIZE = 1000;
+
+const isSameDay = (timestamp: number, day: Date): boolean =>
+  new Date(timestamp).toDateString() === day.toDateString();
+
+type PomodoroPhase = "focus" | "break" | "long_break";
+
+// In the desktop app the timers run in the main process (server/services/timer-engine.js)
+// and this context mirrors their state. In a plain browser they tick here instead.
+const hasTimerEngine = typeof window !== "undefined" && window.electron !== undefined;
+
+interface TimerEngineTimer {
+  isRunning: boolean;
+  remainingMs: number;
+  durationMs: number;
+}
+
+interface TimerEngineState {
+  pomodoro: TimerEngineTimer & { phase: PomodoroPhase; cyclePosition: number };
+  eyeCare: TimerEngineTimer & { phase: "work" | "rest" | "long_rest"; breakCount: number };
+  settings: { eyeCareWorkDuration: number };
+}
+
+interface TimerPhaseEnded {
+  timer: "pomodoro" | "eyeCare";
+  phase: string;
+  nextPhase: string;
+  reason: "completed" | "skipped" | "snoozed" | "reset";
+}
+
+const sendTimerCommand = (
+  timer: TimerPhaseEnded["timer"],
+  action: "start" | "pause" | "reset" | "skip" | "snooze",
+  options: { phase?: string; minutes?: number } = {}
+) => {
+  window.electron?.send("timer-command", { timer, action, ...options });
+};
+
+// The toast for the start or end of an eye care break. Long breaks come with a stretch.
+const getEyeCareToast = (
+  nextPhase: "work" | "rest" | "long_rest",
+  restDuration: number,
+  longBreakDuration: number,
+  stretchIndex: number
+) => {
+  if (nextPhase === "long_rest") {
+    return {
+      title: "Time for a longer break",
+      description: `Take ${formatBreakDuration(longBreakDuration)} away from the screen. ${getStretchPrompt(stretchIndex)}`,
+    };
+  }
+  
+  if (nextPhase === "rest") {
+    return {
+      title: "Time for an eye break!",
+      description: `Look at something 20 feet away for ${formatBreakDuration(restDuration)}.`,
+    };
+  }
+  
+  return {
+    title: "Rest completed!",
+    description: "Your eyes should feel refreshed now.",
+  };
+};
+
+// The reminder for a posture or screen distance warning from the camera
+const getPostureToast = (type: PostureEvent["type"]) => {
+  if (type === "too_close") {
+    return {
+      title: "You're sitting close to the screen",
+      description: "Lean back to about an arm's length away to ease the strain on your eyes.",
+    };
+  }
+  
+  return {
+    title: "Check your posture",
+    description: "Sit back, straighten up and level your head.",
+  };
+};
+
+// Do Not Disturb silences the reminders; the timers themselves keep running
+const isDoNotDisturbActive = () => ReminderService.getInstance().isDoNotDisturbActive();
+
+// Show a reminder toast and keep it in the notification center. During a
+// meeting or full screen app the toast waits until it's over. Reminders the
+// timer engine also shows on desktop are recorded there when Do Not Disturb holds them back.
+const showReminder = (
+  toast: ReturnType<typeof useToast>["toast"],
+  source: ReminderSource,
+  reminder: { title: string; description: string },
+  isShownByTimerEngine = false
+) => {
+  if (isDoNotDisturbActive()) {
+    if (!isShownByTimerEngine) {
+      ReminderService.getInstance().recordSuppressed(source, reminder.title, reminder.description);
+    }
+    return;
+  }
+  
+  NotificationCenterService.getInstance().addNotification(source, reminder.title, reminder.description);
+  QuietModeService.getInstance().whenNotQuiet(() => toast(reminder));
+};
+
 interface TimerContextState {
   // Pomodoro Timer state
   pomodoroMinutes: number;
   pomodoroSeconds: number;
   isPomodoroActive: boolean;
   isPomodoroBreak: boolean;
+  isPomodoroLongBreak: boolean;
   pomodoroDuration: number;
   pomodoroBreakDuration: number;
+  pomodoroLongBreakDuration: number;
+  pomodoroLongBreakInterval: number;
   pomodoroProgress: number;
+  pomodoroCyclePosition: number; // Focus sessions completed since the last long break
+  pomodoroTaskLabel: string;
+  pomodoroSessionStart: number | null; // Set while a focus session is under way, paused or not
+  pomodoroSessionLog: PomodoroSession[];
+  pomodoroDailyGoal: number;
+  todayCompletedPomodoros: number;
   
   // Eye Care Timer state
   eyeCareTimeElapsed: number;
@@ -26,15 +176,25 @@ interface TimerContextState {
   eyeCareRestProgress: number;
   eyeCareWorkDuration: number;
   eyeCareRestDuration: number;
+  isEyeCareLongBreak: boolean;
+  eyeCareRegimen: EyeCareRegimenId;
+  eyeCareLongBreakEvery: number;
+  eyeCareLongBreakDuration: number;
+  eyeCareBreakLog: EyeCareBreak[];
   
   // Functions
   startPomodoroTimer: () => void;
   pausePomodoroTimer: () => void;
   resetPomodoroTimer: (isBreakTime?: boolean) => void;
+  setPomodoroTaskLabel: (label: string) => void;
+  clearPomodoroSessionLog: () => void;
   
   startEyeCareTimer: () => void;
   pauseEyeCareTimer: () => void;
   resetEyeCareTimer: () => void;
+  skipEyeCareBreak: () => void;
+  snoozeEyeCareBreak: (minutes?: number) => void;
+  clearEyeCareBreakLog: () => void;
   
   // Settings functions
   updateTimerSettings: (settings: TimerSettings) => void;
@@ -47,62 +207,134 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
   
   // Pomodoro Timer state
   const [pomodoroMinutes, setPomodoroMinutes] = useState(() => {
-    const saved = localStorage.getItem("pomodoroMinutes");
+    const saved = profileStorage.getItem("pomodoroMinutes");
     return saved ? parseInt(saved) : 25;
   });
   const [pomodoroSeconds, setPomodoroSeconds] = useState(() => {
-    const saved = localStorage.getItem("pomodoroSeconds");
+    const saved = profileStorage.getItem("pomodoroSeconds");
     return saved ? parseInt(saved) : 0;
   });
   const [isPomodoroActive, setIsPomodoroActive] = useState(() => {
-    const saved = localStorage.getItem("isPomodoroActive");
+    const saved = profileStorage.getItem("isPomodoroActive");
     return saved ? saved === "true" : false;
   });
   const [isPomodoroBreak, setIsPomodoroBreak] = useState(() => {
-    const saved = localStorage.getItem("isPomodoroBreak");
+    const saved = profileStorage.getItem("isPomodoroBreak");
     return saved ? saved === "true" : false;
   });
   const [pomodoroProgress, setPomodoroProgress] = useState(() => {
-    const saved = localStorage.getItem("pomodoroProgress");
+    const saved = profileStorage.getItem("pomodoroProgress");
     return saved ? parseFloat(saved) : 100;
   });
   const [pomodoroDuration, setPomodoroDuration] = useState(() => {
-    const saved = localStorage.getItem("pomodoroDuration");
+    const saved = profileStorage.getItem("pomodoroDuration");
     return saved ? parseInt(saved) : 25;
   });
   const [pomodoroBreakDuration, setPomodoroBreakDuration] = useState(() => {
-    const saved = localStorage.getItem("pomodoroBreakDuration");
+    const saved = profileStorage.getItem("pomodoroBreakDuration");
     return saved ? parseInt(saved) : 5;
   });
+  const [pomodoroLongBreakDuration, setPomodoroLongBreakDuration] = useState(() => {
+    const saved = profileStorage.getItem("pomodoroLongBreakDuration");
+    return saved ? parseInt(saved) : 15;
+  });
+  const [pomodoroLongBreakInterval, setPomodoroLongBreakInterval] = useState(() => {
+    const saved = profileStorage.getItem("pomodoroLongBreakInterval");
+    return saved ? parseInt(saved) : 4;
+  });
+  const [pomodoroDailyGoal, setPomodoroDailyGoal] = useState(() => {
+    const saved = profileStorage.getItem("pomodoroDailyGoal");
+    return saved ? parseInt(saved) : 8;
+  });
+  const [isPomodoroLongBreak, setIsPomodoroLongBreak] = useState(() => {
+    const saved = profileStorage.getItem("isPomodoroLongBreak");
+    return saved ? saved === "true" : false;
+  });
+  const [pomodoroCyclePosition, setPomodoroCyclePosition] = useState(() => {
+    const saved = profileStorage.getItem("pomodoroCyclePosition");
+    return saved ? parseInt(saved) : 0;
+  });
+  const [pomodoroTaskLabel, setPomodoroTaskLabel] = useState(() => {
+    return profileStorage.getItem("pomodoroTaskLabel") || "";
+  });
+  // When the current focus session first started, or null before it has
+  const [pomodoroSessionStart, setPomodoroSessionStart] = useState<number | null>(() => {
+    const saved = profileStorage.getItem("pomodoroSessionStart");
+    return saved ? parseInt(saved) : null;
+  });
+  const [pomodoroSessionLog, setPomodoroSessionLog] = useState<PomodoroSession[]>(() => {
+    try {
+      const saved = profileStorage.getItem("pomodoroSessionLog");
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Failed to load Pomodoro session log:", error);
+      return [];
+    }
+  });
   
   // Eye Care Timer state
   const [eyeCareTimeElapsed, setEyeCareTimeElapsed] = useState(() => {
-    const saved = localStorage.getItem("eyeCareTimeElapsed");
+    const saved = profileStorage.getItem("eyeCareTimeElapsed");
     return saved ? parseInt(saved) : 0;
   });
   const [isEyeCareActive, setIsEyeCareActive] = useState(() => {
-    const saved = localStorage.getItem("isEyeCareActive");
+    const saved = profileStorage.getItem("isEyeCareActive");
     return saved ? saved === "true" : false;
   });
   const [isEyeCareResting, setIsEyeCareResting] = useState(() => {
-    const saved = localStorage.getItem("isEyeCareResting");
+    const saved = profileStorage.getItem("isEyeCareResting");
     return saved ? saved === "true" : false;
   });
   const [eyeCareRestProgress, setEyeCareRestProgress] = useState(() => {
-    const saved = localStorage.getItem("eyeCareRestProgress");
+    const saved = profileStorage.getItem("eyeCareRestProgress");
     return saved ? parseFloat(saved) : 0;
   });
   const [eyeCareWorkDuration, setEyeCareWorkDuration] = useState(() => {
-    const saved = localStorage.getItem("eyeCareWorkDuration");
+    const saved = profileStorage.getItem("eyeCareWorkDuration");
     return saved ? parseInt(saved) : 20 * 60; // Default: 20 minutes
   });
   const [eyeCareRestDuration, setEyeCareRestDuration] = useState(() => {
-    const saved = localStorage.getItem("eyeCareRestDuration");
+    const saved = profileStorage.getItem("eyeCareRestDuration");
     return saved ? parseInt(saved) : 20; // Default: 20 seconds
   });
+  const [eyeCareRegimen, setEyeCareRegimen] = useState<EyeCareRegimenId>(() => {
+    return (profileStorage.getItem("eyeCareRegimen") as EyeCareRegimenId) || "20-20-20";
+  });
+  const [eyeCareLongBreakEvery, setEyeCareLongBreakEvery] = useState(() => {
+    const saved = profileStorage.getItem("eyeCareLongBreakEvery");
+    return saved ? parseInt(saved) : 0;
+  });
+  const [eyeCareLongBreakDuration, setEyeCareLongBreakDuration] = useState(() => {
+    const saved = profileStorage.getItem("eyeCareLongBreakDuration");
+    return saved ? parseInt(saved) : 5 * 60; // Default: 5 minutes
+  });
+  const [isEyeCareLongBreak, setIsEyeCareLongBreak] = useState(() => {
+    const saved = profileStorage.getItem("isEyeCareLongBreak");
+    return saved ? saved === "true" : false;
+  });
+  // Short breaks since the last long one
+  const [eyeCareBreakCount, setEyeCareBreakCount] = useState(() => {
+    const saved = profileStorage.getItem("eyeCareBreakCount");
+    return saved ? parseInt(saved) : 0;
+  });
+  const [eyeCareBreakLog, setEyeCareBreakLog] = useState<EyeCareBreak[]>(() => {
+    try {
+      const saved = profileStorage.getItem("eyeCareBreakLog");
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Failed to load eye care break log:", error);
+      return [];
+    }
+  });
+  // Long breaks so far, used to pick the next stretch prompt
+  const longBreakCount = eyeCareBreakLog.filter(entry => entry.kind === "long").length;
+  // In the browser, the kind of break that was snoozed (true for long), to come back to
+  const snoozedLongBreak = useRef<boolean | null>(null);
 
-  // Auto-start timers when app loads
+  // Auto-start timers when app loads. The timer engine starts them with the app instead.
   useEffect(() => {
+    if (hasTimerEngine) return;
+    
     // Auto-start both timers after a short delay
     const startTimersTimeout = setTimeout(() => {
       setIsPomodoroActive(true);
@@ -115,60 +347,279 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
-  // Save Pomodoro state to localStorage
+  // Save Pomodoro settings and session state to localStorage
   useEffect(() => {
-    localStorage.setItem("pomodoroMinutes", pomodoroMinutes.toString());
-    localStorage.setItem("pomodoroSeconds", pomodoroSeconds.toString());
-    localStorage.setItem("isPomodoroActive", isPomodoroActive.toString());
-    localStorage.setItem("isPomodoroBreak", isPomodoroBreak.toString());
-    localStorage.setItem("pomodoroProgress", pomodoroProgress.toString());
-    localStorage.setItem("pomodoroDuration", pomodoroDuration.toString());
-    localStorage.setItem("pomodoroBreakDuration", pomodoroBreakDuration.toString());
-  }, [pomodoroMinutes, pomodoroSeconds, isPomodoroActive, isPomodoroBreak, pomodoroProgress, pomodoroDuration, pomodoroBreakDuration]);
-
-  // Save Eye Care state to localStorage
+    profileStorage.setItem("pomodoroDuration", pomodoroDuration.toString());
+    profileStorage.setItem("pomodoroBreakDuration", pomodoroBreakDuration.toString());
+    profileStorage.setItem("pomodoroLongBreakDuration", pomodoroLongBreakDuration.toString());
+    profileStorage.setItem("pomodoroLongBreakInterval", pomodoroLongBreakInterval.toString());
+    profileStorage.setItem("pomodoroDailyGoal", pomodoroDailyGoal.toString());
+    profileStorage.setItem("pomodoroTaskLabel", pomodoroTaskLabel);
+    if (pomodoroSessionStart !== null) {
+      profileStorage.setItem("pomodoroSessionStart", pomodoroSessionStart.toString());
+    } else {
+      profileStorage.removeItem("pomodoroSessionStart");
+    }
+  }, [pomodoroDuration, pomodoroBreakDuration, pomodoroLongBreakDuration, pomodoroLongBreakInterval, pomodoroDailyGoal,
+      pomodoroTaskLabel, pomodoroSessionStart]);
+
+  // Save the ticking Pomodoro state. The timer engine keeps its own, so this is only needed in the browser.
+  useEffect(() => {
+    if (hasTimerEngine) return;
+    
+    profileStorage.setItem("pomodoroMinutes", pomodoroMinutes.toString());
+    profileStorage.setItem("pomodoroSeconds", pomodoroSeconds.toString());
+    profileStorage.setItem("isPomodoroActive", isPomodoroActive.toString());
+    profileStorage.setItem("isPomodoroBreak", isPomodoroBreak.toString());
+    profileStorage.setItem("pomodoroProgress", pomodoroProgress.toString());
+    profileStorage.setItem("isPomodoroLongBreak", isPomodoroLongBreak.toString());
+    profileStorage.setItem("pomodoroCyclePosition", pomodoroCyclePosition.toString());
+  }, [pomodoroMinutes, pomodoroSeconds, isPomodoroActive, isPomodoroBreak, pomodoroProgress, isPomodoroLongBreak, pomodoroCyclePosition]);
+
+  // Save the Pomodoro session log
   useEffect(() => {
-    localStorage.setItem("eyeCareTimeElapsed", eyeCareTimeElapsed.toString());
-    localStorage.setItem("isEyeCareActive", isEyeCareActive.toString());
-    localStorage.setItem("isEyeCareResting", isEyeCareResting.toString());
-    localStorage.setItem("eyeCareRestProgress", eyeCareRestProgress.toString());
-    localStorage.setItem("eyeCareWorkDuration", eyeCareWorkDuration.toString());
-    localStorage.setItem("eyeCareRestDuration", eyeCareRestDuration.toString());
-  }, [eyeCareTimeElapsed, isEyeCareActive, isEyeCareResting, eyeCareRestProgress, eyeCareWorkDuration, eyeCareRestDuration]);
+    profileStorage.setItem("pomodoroSessionLog", JSON.stringify(pomodoroSessionLog));
+  }, [pomodoroSessionLog]);
+
+  // A focus session starts the first time the timer runs in a focus phase,
+  // however it was started (button, auto-start or a custom rule)
+  useEffect(() => {
+    if (isPomodoroActive && !isPomodoroBreak && pomodoroSessionStart === null) {
+      setPomodoroSessionStart(Date.now());
+    }
+  }, [isPomodoroActive, isPomodoroBreak, pomodoroSessionStart]);
+
+  // Attribute distractions to the focus session while it is under way
+  useEffect(() => {
+    if (pomodoroSessionStart !== null) {
+      SystemTrayService.getInstance().beginFocusSession(getSessionId(pomodoroSessionStart));
+    }
+  }, [pomodoroSessionStart]);
+
+  // Save Eye Care settings to localStorage
+  useEffect(() => {
+    profileStorage.setItem("eyeCareWorkDuration", eyeCareWorkDuration.toString());
+    profileStorage.setItem("eyeCareRestDuration", eyeCareRestDuration.toString());
+    profileStorage.setItem("eyeCareRegimen", eyeCareRegimen);
+    profileStorage.setItem("eyeCareLongBreakEvery", eyeCareLongBreakEvery.toString());
+    profileStorage.setItem("eyeCareLongBreakDuration", eyeCareLongBreakDuration.toString());
+  }, [eyeCareWorkDuration, eyeCareRestDuration, eyeCareRegimen, eyeCareLongBreakEvery, eyeCareLongBreakDuration]);
+
+  // Save the eye care compliance log
+  useEffect(() => {
+    profileStorage.setItem("eyeCareBreakLog", JSON.stringify(eyeCareBreakLog));
+  }, [eyeCareBreakLog]);
+
+  // Save the ticking Eye Care state, in the browser only
+  useEffect(() => {
+    if (hasTimerEngine) return;
+    
+    profileStorage.setItem("eyeCareTimeElapsed", eyeCareTimeElapsed.toString());
+    profileStorage.setItem("isEyeCareActive", isEyeCareActive.toString());
+    profileStorage.setItem("isEyeCareResting", isEyeCareResting.toString());
+    profileStorage.setItem("eyeCareRestProgress", eyeCareRestProgress.toString());
+    profileStorage.setItem("isEyeCareLongBreak", isEyeCareLongBreak.toString());
+    profileStorage.setItem("eyeCareBreakCount", eyeCareBreakCount.toString());
+  }, [eyeCareTimeElapsed, isEyeCareActive, isEyeCareResting, eyeCareRestProgress, isEyeCareLongBreak, eyeCareBreakCount]);
+
+  // Handle the end of a timer phase reported by the timer engine. Kept in a ref
+  // so the IPC listener always sees the current session.
+  const phaseEndedHandlerRef = useRef<(event: TimerPhaseEnded) => void>(() => {});
+  useEffect(() => {
+    phaseEndedHandlerRef.current = ({ timer, phase, nextPhase, reason }: TimerPhaseEnded) => {
+      if (timer === "pomodoro") {
+        // Skipping or resetting a focus session counts as an interruption
+        if (phase === "focus") {
+          logPomodoroSession(reason === "completed" ? "completed" : "interrupted");
+        }
+        if (reason === "completed") {
+          notifyPomodoroPhaseEnded(nextPhase as PomodoroPhase);
+        }
+      } else {
+        // Every break that ends gets an entry in the compliance log. A reset isn't a decision about the break.
+        if (phase !== "work" && reason !== "reset") {
+          recordEyeCareBreak(phase === "long_rest", reason === "completed" ? "taken" : reason === "snoozed" ? "snoozed" : "skipped");
+        }
+        if (reason === "completed") {
+          showReminder(toast, "eye_care", getEyeCareToast(nextPhase as "work" | "rest" | "long_rest", eyeCareRestDuration, eyeCareLongBreakDuration, longBreakCount), true);
+        }
+      }
+    };
+  });
+
+  // Mirror the timer engine's state
+  useEffect(() => {
+    if (!hasTimerEngine || !window.electron) return;
+    
+    const unsubscribeState = window.electron.receive("timer-state", ({ pomodoro, eyeCare, settings }: TimerEngineState) => {
+      const pomodoroSecondsLeft = Math.ceil(pomodoro.remainingMs / 1000);
+      setPomodoroMinutes(Math.floor(pomodoroSecondsLeft / 60));
+      setPomodoroSeconds(pomodoroSecondsLeft % 60);
+      setPomodoroProgress((pomodoro.remainingMs / pomodoro.durationMs) * 100);
+      setIsPomodoroActive(pomodoro.isRunning);
+      setIsPomodoroBreak(pomodoro.phase !== "focus");
+      setIsPomodoroLongBreak(pomodoro.phase === "long_break");
+      setPomodoroCyclePosition(pomodoro.cyclePosition);
+      
+      const isResting = eyeCare.phase !== "work";
+      setIsEyeCareActive(eyeCare.isRunning);
+      setIsEyeCareResting(isResting);
+      setIsEyeCareLongBreak(eyeCare.phase === "long_rest");
+      setEyeCareBreakCount(eyeCare.breakCount);
+      // A snoozed break shortens the work phase, so count work time back from the full duration
+      const eyeCareDuration = isResting ? eyeCare.durationMs / 1000 : settings.eyeCareWorkDuration;
+      setEyeCareTimeElapsed(Math.max(0, Math.floor(eyeCareDuration - eyeCare.remainingMs / 1000)));
+      setEyeCareRestProgress(isResting ? (eyeCare.remainingMs / eyeCare.durationMs) * 100 : 0);
+    });
+    
+    const unsubscribePhaseEnded = window.electron.receive("timer-phase-ended", (event: TimerPhaseEnded) => {
+      phaseEndedHandlerRef.current(event);
+    });
+    
+    return () => {
+      unsubscribeState?.();
+      unsubscribePhaseEnded?.();
+    };
+  }, []);
+
+  // Start mirroring Do Not Disturb and recording the responses to reminders
+  // from the notification windows as soon as the dashboard loads
+  useEffect(() => {
+    ReminderService.getInstance();
+    QuietModeService.getInstance();
+  }, []);
+
+  // Posture and screen distance warnings from the camera go out with the eye
+  // care reminders, except during a break when the user should be away anyway
+  const postureHandlerRef = useRef<(event: PostureEvent) => void>(() => {});
+  useEffect(() => {
+    postureHandlerRef.current = (event: PostureEvent) => {
+      if (isEyeCareResting) return;
+      
+      const reminder = getPostureToast(event.type);
+      if (isDoNotDisturbActive()) {
+        ReminderService.getInstance().recordSuppressed("eye_care", reminder.title, reminder.description);
+        return;
+      }
+      
+      showReminder(toast, "eye_care", reminder);
+      
+      if (document.hidden && window.electron) {
+        window.electron.send("show-native-notification", { title: reminder.title, body: reminder.description, source: "eye_care" });
+      }
+    };
+  });
+  
+  useEffect(() => {
+    const postureMonitor = PostureMonitorService.getInstance();
+    const handlePostureEvent = (event: PostureEvent) => postureHandlerRef.current(event);
+    
+    postureMonitor.addPostureListener(handlePostureEvent);
+    return () => postureMonitor.removePostureListener(handlePostureEvent);
+  }, []);
+
+  // Keep the timer engine's durations in line with the settings. The engine
+  // answers with its current state, which also brings a reloaded dashboard up to date.
+  useEffect(() => {
+    if (!hasTimerEngine) return;
+    
+    window.electron?.send("timer-configure", {
+      pomodoroDuration,
+      pomodoroBreakDuration,
+      pomodoroLongBreakDuration,
+      pomodoroLongBreakInterval,
+      eyeCareWorkDuration,
+      eyeCareRestDuration,
+      eyeCareLongBreakEvery,
+      eyeCareLongBreakDuration
+    });
+  }, [pomodoroDuration, pomodoroBreakDuration, pomodoroLongBreakDuration, pomodoroLongBreakInterval,
+      eyeCareWorkDuration, eyeCareRestDuration, eyeCareLongBreakEvery, eyeCareLongBreakDuration]);
+
+  // Timer settings changed on another device arrive through the preferences
+  // sync, already saved. Kept in a ref so the listener uses the current timers.
+  const remoteSettingsHandlerRef = useRef<(fields: string[]) => void>(() => {});
+  useEffect(() => {
+    remoteSettingsHandlerRef.current = (fields: string[]) => {
+      if (!fields.some(field => TIMER_SETTING_KEYS.includes(field))) return;
+      
+      const readNumber = (key: string, fallback: number) => {
+        const saved = profileStorage.getItem(key);
+        return saved ? parseInt(saved) : fallback;
+      };
+      updateTimerSettings({
+        pomodoroDuration: readNumber("pomodoroDuration", pomodoroDuration),
+        pomodoroBreakDuration: readNumber("pomodoroBreakDuration", pomodoroBreakDuration),
+        pomodoroLongBreakDuration: readNumber("pomodoroLongBreakDuration", pomodoroLongBreakDuration),
+        pomodoroLongBreakInterval: readNumber("pomodoroLongBreakInterval", pomodoroLongBreakInterval),
+        pomodoroDailyGoal: readNumber("pomodoroDailyGoal", pomodoroDailyGoal),
+        eyeCareWorkDuration: readNumber("eyeCareWorkDuration", eyeCareWorkDuration),
+        eyeCareRestDuration: readNumber("eyeCareRestDuration", eyeCareRestDuration),
+        eyeCareRegimen: (profileStorage.getItem("eyeCareRegimen") as EyeCareRegimenId) || eyeCareRegimen,
+        eyeCareLongBreakEvery: readNumber("eyeCareLongBreakEvery", eyeCareLongBreakEvery),
+        eyeCareLongBreakDuration: readNumber("eyeCareLongBreakDuration", eyeCareLongBreakDuration)
+      });
+    };
+  });
+  
+  useEffect(() => {
+    const preferencesSync = PreferencesSyncService.getInstance();
+    const handleRemoteChange = (fields: string[]) => remoteSettingsHandlerRef.current(fields);
+    
+    preferencesSync.addRemoteChangeListener(handleRemoteChange);
+    return () => preferencesSync.removeRemoteChangeListener(handleRemoteChange);
+  }, []);
 
   // Function to update timer settings
   const updateTimerSettings = (settings: TimerSettings) => {
     // Update Pomodoro settings
     setPomodoroDuration(settings.pomodoroDuration);
     setPomodoroBreakDuration(settings.pomodoroBreakDuration);
+    setPomodoroLongBreakDuration(settings.pomodoroLongBreakDuration);
+    setPomodoroLongBreakInterval(settings.pomodoroLongBreakInterval);
+    setPomodoroDailyGoal(settings.pomodoroDailyGoal);
     
     // Update Eye Care settings
     setEyeCareWorkDuration(settings.eyeCareWorkDuration);
     setEyeCareRestDuration(settings.eyeCareRestDuration);
+    setEyeCareRegimen(settings.eyeCareRegimen);
+    setEyeCareLongBreakEvery(settings.eyeCareLongBreakEvery);
+    setEyeCareLongBreakDuration(settings.eyeCareLongBreakDuration);
     
     // Save settings to localStorage for persistence
-    localStorage.setItem("pomodoroDuration", settings.pomodoroDuration.toString());
-    localStorage.setItem("pomodoroBreakDuration", settings.pomodoroBreakDuration.toString());
-    localStorage.setItem("eyeCareWorkDuration", settings.eyeCareWorkDuration.toString());
-    localStorage.setItem("eyeCareRestDuration", settings.eyeCareRestDuration.toString());
+    profileStorage.setItem("pomodoroDuration", settings.pomodoroDuration.toString());
+    profileStorage.setItem("pomodoroBreakDuration", settings.pomodoroBreakDuration.toString());
+    profileStorage.setItem("pomodoroLongBreakDuration", settings.pomodoroLongBreakDuration.toString());
+    profileStorage.setItem("pomodoroLongBreakInterval", settings.pomodoroLongBreakInterval.toString());
+    profileStorage.setItem("pomodoroDailyGoal", settings.pomodoroDailyGoal.toString());
+    profileStorage.setItem("eyeCareWorkDuration", settings.eyeCareWorkDuration.toString());
+    profileStorage.setItem("eyeCareRestDuration", settings.eyeCareRestDuration.toString());
+    profileStorage.setItem("eyeCareRegimen", settings.eyeCareRegimen);
+    profileStorage.setItem("eyeCareLongBreakEvery", settings.eyeCareLongBreakEvery.toString());
+    profileStorage.setItem("eyeCareLongBreakDuration", settings.eyeCareLongBreakDuration.toString());
     
-    // Reset timers with new durations
-    if (!isPomodoroActive) {
-      resetPomodoroTimer(isPomodoroBreak);
-    }
-    
-    if (!isEyeCareActive) {
-      resetEyeCareTimer();
+    // Reset timers with new durations. A paused focus session keeps its place in the log.
+    // The timer engine does this itself when it receives the new durations.
+    if (!hasTimerEngine) {
+      if (!isPomodoroActive) {
+        setPomodoroPhase(isPomodoroBreak ? (isPomodoroLongBreak ? "long_break" : "break") : "focus", settings);
+      }
+      
+      if (!isEyeCareActive) {
+        resetEyeCareTimer();
+      }
     }
 
     // Show success toast
     sonnerToast.success("Timer settings updated successfully!");
   };
 
-  // Pomodoro Timer Logic
+  // Pomodoro Timer Logic, for when there is no timer engine
   useEffect(() => {
+    if (hasTimerEngine) return;
+    
     const totalSeconds = isPomodoroBreak 
-      ? pomodoroBreakDuration * 60 
+      ? (isPomodoroLongBreak ? pomodoroLongBreakDuration : pomodoroBreakDuration) * 60 
       : pomodoroDuration * 60;
       
     let interval: NodeJS.Timeout | null = null;
@@ -180,19 +631,17 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
             clearInterval(interval as NodeJS.Timeout);
             // Timer completed
             if (isPomodoroBreak) {
-              // Use centered notification for attention-related alerts
-              toast({
-                title: "Break time is over!",
-                description: "Time to get back to work!",
-              });
-              resetPomodoroTimer(false);
+              notifyPomodoroPhaseEnded("focus");
+              setPomodoroPhase("focus");
             } else {
-              // Use centered notification for attention-related alerts
-              toast({
-                title: "Great job! Time for a break",
-                description: "Take a moment to rest your eyes and stretch.",
-              });
-              resetPomodoroTimer(true);
+              // Every Nth completed session earns a long break
+              const cyclePosition = pomodoroCyclePosition + 1;
+              const isLongBreak = cyclePosition >= pomodoroLongBreakInterval;
+              logPomodoroSession("completed");
+              setPomodoroCyclePosition(isLongBreak ? 0 : cyclePosition);
+              
+              notifyPomodoroPhaseEnded(isLongBreak ? "long_break" : "break");
+              setPomodoroPhase(isLongBreak ? "long_break" : "break");
             }
             return;
           }
@@ -214,26 +663,28 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isPomodoroActive, pomodoroMinutes, pomodoroSeconds, isPomodoroBreak, 
-      pomodoroDuration, pomodoroBreakDuration, toast]);
+  }, [isPomodoroActive, pomodoroMinutes, pomodoroSeconds, isPomodoroBreak, isPomodoroLongBreak,
+      pomodoroDuration, pomodoroBreakDuration, pomodoroLongBreakDuration, pomodoroLongBreakInterval,
+      pomodoroCyclePosition, pomodoroSessionStart, pomodoroTaskLabel, toast]);
 
-  // Eye Care Timer Logic
+  // Eye Care Timer Logic, for when there is no timer engine
   useEffect(() => {
+    if (hasTimerEngine) return;
+    
     let interval: NodeJS.Timeout | null = null;
 
     if (isEyeCareActive) {
       interval = setInterval(() => {
         if (isEyeCareResting) {
           // During rest period
-          const newRestProgress = ((eyeCareRestDuration - eyeCareTimeElapsed) / eyeCareRestDuration) * 100;
+          const restDuration = isEyeCareLongBreak ? eyeCareLongBreakDuration : eyeCareRestDuration;
+          const newRestProgress = ((restDuration - eyeCareTimeElapsed) / restDuration) * 100;
           setEyeCareRestProgress(newRestProgress);
           
-          if (eyeCareTimeElapsed >= eyeCareRestDuration) {
+          if (eyeCareTimeElapsed >= restDuration) {
             // Rest period ended - use centered notification for attention reminders
-            toast({
-              title: "Rest completed!",
-              description: "Your eyes should feel refreshed now.",
-            });
+            showReminder(toast, "eye_care", getEyeCareToast("work", eyeCareRestDuration, eyeCareLongBreakDuration, longBreakCount));
+            recordEyeCareBreak(isEyeCareLongBreak, "taken");
             resetEyeCareTimer();
           } else {
             setEyeCareTimeElapsed(eyeCareTimeElapsed + 1);
@@ -241,13 +692,19 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
         } else {
           // During work period
           if (eyeCareTimeElapsed >= eyeCareWorkDuration) {
-            // Work period ended, start rest - use centered notification
-            toast({
-              title: "Time for an eye break!",
-              description: "Look at something 20 feet away for 20 seconds.",
-            });
+            // Work period ended, start rest - use centered notification. A snoozed
+            // break comes back as it was; otherwise every Nth break is a long one.
+            let isLongBreak = snoozedLongBreak.current;
+            snoozedLongBreak.current = null;
+            if (isLongBreak === null) {
+              isLongBreak = eyeCareLongBreakEvery > 0 && eyeCareBreakCount >= eyeCareLongBreakEvery;
+              setEyeCareBreakCount(isLongBreak ? 0 : eyeCareBreakCount + 1);
+            }
+            
+            showReminder(toast, "eye_care", getEyeCareToast(isLongBreak ? "long_rest" : "rest", eyeCareRestDuration, eyeCareLongBreakDuration, longBreakCount));
             setEyeCareTimeElapsed(0);
             setIsEyeCareResting(true);
+            setIsEyeCareLongBreak(isLongBreak);
             setEyeCareRestProgress(100);
           } else {
             setEyeCareTimeElapsed(eyeCareTimeElapsed + 1);
@@ -262,34 +719,182 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
       if (interval) clearInterval(interval);
     };
   }, [isEyeCareActive, eyeCareTimeElapsed, isEyeCareResting, eyeCareRestDuration, 
-      eyeCareWorkDuration, toast]);
+      eyeCareWorkDuration, isEyeCareLongBreak, eyeCareLongBreakEvery, eyeCareLongBreakDuration,
+      eyeCareBreakCount, longBreakCount, toast]);
+
+  // Use centered notifications for attention-related alerts
+  const notifyPomodoroPhaseEnded = (nextPhase: PomodoroPhase) => {
+    if (nextPhase === "focus") {
+      showReminder(toast, "pomodoro", {
+        title: "Break time is over!",
+        description: "Time to get back to work!",
+      }, hasTimerEngine);
+      return;
+    }
+    
+    const isLongBreak = nextPhase === "long_break";
+    showReminder(toast, "pomodoro", {
+      title: isLongBreak ? "Great job! Time for a long break" : "Great job! Time for a break",
+      description: isLongBreak
+        ? `You've finished ${pomodoroLongBreakInterval} sessions. Step away for ${pomodoroLongBreakDuration} minutes.`
+        : "Take a moment to rest your eyes and stretch.",
+    }, hasTimerEngine);
+  };
 
   // Pomodoro Timer functions
-  const startPomodoroTimer = () => setIsPomodoroActive(true);
-  const pausePomodoroTimer = () => setIsPomodoroActive(false);
+  const startPomodoroTimer = () => {
+    if (hasTimerEngine) {
+      sendTimerCommand("pomodoro", "start");
+    } else {
+      setIsPomodoroActive(true);
+    }
+  };
+  const pausePomodoroTimer = () => {
+    if (hasTimerEngine) {
+      sendTimerCommand("pomodoro", "pause");
+    } else {
+      setIsPomodoroActive(false);
+    }
+  };
   
-  const resetPomodoroTimer = (isBreakTime: boolean = false) => {
+  // Record the current focus session in the log and clear it
+  const logPomodoroSession = (status: PomodoroSession['status']) => {
+    if (pomodoroSessionStart === null) return;
+    
+    const id = getSessionId(pomodoroSessionStart);
+    const session: PomodoroSession = {
+      id,
+      taskLabel: pomodoroTaskLabel.trim(),
+      startTime: pomodoroSessionStart,
+      endTime: Date.now(),
+      plannedMinutes: pomodoroDuration,
+      status,
+      distractions: SystemTrayService.getInstance().endFocusSession(id)
+    };
+    
+    setPomodoroSessionLog(prev => [...prev, session].slice(-MAX_SESSION_LOG_SIZE));
+    setPomodoroSessionStart(null);
+  };
+  
+  // Stop the timer and load the full duration of the given phase
+  const setPomodoroPhase = (
+    phase: "focus" | "break" | "long_break",
+    durations: Pick<TimerSettings, "pomodoroDuration" | "pomodoroBreakDuration" | "pomodoroLongBreakDuration"> = {
+      pomodoroDuration,
+      pomodoroBreakDuration,
+      pomodoroLongBreakDuration
+    }
+  ) => {
     setIsPomodoroActive(false);
-    if (isBreakTime) {
-      setPomodoroMinutes(pomodoroBreakDuration);
-      setIsPomodoroBreak(true);
+    if (phase === "long_break") {
+      setPomodoroMinutes(durations.pomodoroLongBreakDuration);
+    } else if (phase === "break") {
+      setPomodoroMinutes(durations.pomodoroBreakDuration);
     } else {
-      setPomodoroMinutes(pomodoroDuration);
-      setIsPomodoroBreak(false);
+      setPomodoroMinutes(durations.pomodoroDuration);
     }
+    setIsPomodoroBreak(phase !== "focus");
+    setIsPomodoroLongBreak(phase === "long_break");
     setPomodoroSeconds(0);
     setPomodoroProgress(100);
   };
   
+  // Resetting an unfinished focus session counts as an interruption. The timer
+  // engine reports the reset back, and the session is logged then.
+  const resetPomodoroTimer = (isBreakTime: boolean = false) => {
+    const phase = isBreakTime ? (isPomodoroLongBreak ? "long_break" : "break") : "focus";
+    if (hasTimerEngine) {
+      sendTimerCommand("pomodoro", "reset", { phase });
+      return;
+    }
+    
+    if (!isPomodoroBreak) {
+      logPomodoroSession("interrupted");
+    }
+    setPomodoroPhase(phase);
+  };
+  
+  const clearPomodoroSessionLog = () => {
+    setPomodoroSessionLog([]);
+  };
+  
+  const today = new Date();
+  const todayCompletedPomodoros = pomodoroSessionLog.filter(session =>
+    session.status === "completed" && isSameDay(session.endTime, today)
+  ).length;
+  
   // Eye Care Timer functions
-  const startEyeCareTimer = () => setIsEyeCareActive(true);
-  const pauseEyeCareTimer = () => setIsEyeCareActive(false);
+  const startEyeCareTimer = () => {
+    if (hasTimerEngine) {
+      sendTimerCommand("eyeCare", "start");
+    } else {
+      setIsEyeCareActive(true);
+    }
+  };
+  const pauseEyeCareTimer = () => {
+    if (hasTimerEngine) {
+      sendTimerCommand("eyeCare", "pause");
+    } else {
+      setIsEyeCareActive(false);
+    }
+  };
   
   const resetEyeCareTimer = () => {
+    if (hasTimerEngine) {
+      sendTimerCommand("eyeCare", "reset", { phase: "work" });
+      return;
+    }
+    
     setEyeCareTimeElapsed(0);
     setIsEyeCareResting(false);
+    setIsEyeCareLongBreak(false);
     setEyeCareRestProgress(0);
   };
+  
+  // End the current break early, back to work
+  const skipEyeCareBreak = () => {
+    if (!isEyeCareResting) return;
+    
+    ReminderService.getInstance().recordResponse("eye_care", "skipped");
+    if (hasTimerEngine) {
+      sendTimerCommand("eyeCare", "skip");
+      return;
+    }
+    
+    recordEyeCareBreak(isEyeCareLongBreak, "skipped");
+    resetEyeCareTimer();
+  };
+  
+  // Put the current break off for a few minutes; the same break comes back afterwards
+  const snoozeEyeCareBreak = (minutes: number = 5) => {
+    if (!isEyeCareResting) return;
+    
+    ReminderService.getInstance().recordResponse("eye_care", "snoozed", { minutes });
+    if (hasTimerEngine) {
+      sendTimerCommand("eyeCare", "snooze", { minutes });
+      return;
+    }
+    
+    recordEyeCareBreak(isEyeCareLongBreak, "snoozed");
+    snoozedLongBreak.current = isEyeCareLongBreak;
+    resetEyeCareTimer();
+    setEyeCareTimeElapsed(Math.max(0, eyeCareWorkDuration - minutes * 60));
+  };
+  
+  const recordEyeCareBreak = (isLongBreak: boolean, outcome: EyeCareBreak["outcome"]) => {
+    const time = Date.now();
+    const entry: EyeCareBreak = {
+      id: `eye-care-break-${time}`,
+      kind: isLongBreak ? "long" : "short",
+      outcome,
+      time
+    };
+    setEyeCareBreakLog(prev => [...prev, entry].slice(-MAX_BREAK_LOG_SIZE));
+  };
+  
+  const clearEyeCareBreakLog = () => {
+    setEyeCareBreakLog([]);
+  };
 
   return (
     <TimerContext.Provider value={{
@@ -298,9 +903,18 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
       pomodoroSeconds,
       isPomodoroActive,
       isPomodoroBreak,
+      isPomodoroLongBreak,
       pomodoroDuration,
       pomodoroBreakDuration,
+      pomodoroLongBreakDuration,
+      pomodoroLongBreakInterval,
       pomodoroProgress,
+      pomodoroCyclePosition,
+      pomodoroTaskLabel,
+      pomodoroSessionStart,
+      pomodoroSessionLog,
+      pomodoroDailyGoal,
+      todayCompletedPomodoros,
       
       // Eye Care Timer state
       eyeCareTimeElapsed,
@@ -309,15 +923,25 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
       eyeCareRestProgress,
       eyeCareWorkDuration,
       eyeCareRestDuration,
+      isEyeCareLongBreak,
+      eyeCareRegimen,
+      eyeCareLongBreakEvery,
+      eyeCareLongBreakDuration,
+      eyeCareBreakLog,
       
       // Functions
       startPomodoroTimer,
       pausePomodoroTimer,
       resetPomodoroTimer,
+      setPomodoroTaskLabel,
+      clearPomodoroSessionLog,
       
       startEyeCareTimer,
       pauseEyeCareTimer,
       resetEyeCareTimer,
+      skipEyeCareBreak,
+      snoozeEyeCareBreak,
+      clearEyeCareBreakLog,
       
       // Settings functions
       updateTimerSettings
@@ -1,67 +1,88 @@
-
 import { useEffect, useState } from 'react';
-import BlinkDetectionService from '@/services/BlinkDetectionService';
+import BlinkDetectionService, { BlinkRateUpdate } from '@/services/BlinkDetectionService';
+import FaceTrackingService, { FaceTrackingState } from '@/services/FaceTrackingService';
 import { useToast } from '@/hooks/use-toast';
-import { useSystemTray } from '@/hooks/use-system-tray';
+import { profileStorage } from '@/lib/profileStorage';
+
+// The camera is only used once the user turns the blink monitor on
+const ENABLED_KEY = 'blinkDetectionEnabled';
 
 export function useBlinkDetection() {
-  const [isDetecting, setIsDetecting] = useState(false);
-  const [isSupported] = useState(true); // Always supported now since we use timers
+  const blinkService = BlinkDetectionService.getInstance();
+  const [isDetecting, setIsDetecting] = useState(() => blinkService.isDetecting());
+  const [isSupported] = useState(() => blinkService.isDetectionAvailable());
   const [isInitializing, setIsInitializing] = useState(false);
+  const [blinkRate, setBlinkRate] = useState<BlinkRateUpdate | null>(() => blinkService.getLatestBlinkRate());
+  const [isCameraPaused, setIsCameraPaused] = useState(() => FaceTrackingService.getInstance().getState().isPaused);
   const { toast } = useToast();
-  const { isTrayActive } = useSystemTray();
-  
+
+  // Pick up where the user left off if they turned the monitor on before
   useEffect(() => {
-    setIsInitializing(false); // No initialization needed
-    
-    // Start detection if we're in tray mode
-    if (isTrayActive && !isDetecting) {
-      startDetection();
-    }
-  }, [isTrayActive, isDetecting]);
-  
+    if (profileStorage.getItem(ENABLED_KEY) !== 'true' || blinkService.isDetecting()) return;
+
+    setIsInitializing(true);
+    blinkService.startDetection().then(started => {
+      setIsInitializing(false);
+      setIsDetecting(started);
+    });
+  }, [blinkService]);
+
   useEffect(() => {
-    const blinkService = BlinkDetectionService.getInstance();
-    
-    // Handler for blink reminders
-    const handleBlinkReminder = (message: string) => {
-      toast({
-        title: "Blink Reminder",
-        description: message,
-        duration: 8000,
-      });
+    // Keep the latest rate, and remind the user when it has dropped
+    const handleBlinkRate = (update: BlinkRateUpdate) => {
+      setBlinkRate(update);
+
+      if (update.isReminder) {
+        toast({
+          title: "Remember to blink",
+          description: `You've been blinking about ${update.blinksPerMinute} times a minute. Blink slowly a few times to refresh your eyes.`,
+          duration: 8000,
+        });
+      }
     };
-    
-    // Add listener when component mounts
-    blinkService.addBlinkRateListener(handleBlinkReminder);
-    
-    // Clean up when component unmounts
+
+    const faceTracking = FaceTrackingService.getInstance();
+    const handleCameraState = (state: FaceTrackingState) => setIsCameraPaused(state.isPaused);
+
+    blinkService.addBlinkRateListener(handleBlinkRate);
+    faceTracking.addStateListener(handleCameraState);
+
+    // The monitor keeps running in the background; only the listeners go
     return () => {
-      blinkService.removeBlinkRateListener(handleBlinkReminder);
-      stopDetection();
+      blinkService.removeBlinkRateListener(handleBlinkRate);
+      faceTracking.removeStateListener(handleCameraState);
     };
-  }, [toast]);
-  
+  }, [blinkService, toast]);
+
   // Start blink detection
   const startDetection = async () => {
-    const blinkService = BlinkDetectionService.getInstance();
+    setIsInitializing(true);
     const started = await blinkService.startDetection();
-    
-    if (started) {
-      setIsDetecting(true);
-      return true;
+    setIsInitializing(false);
+    setIsDetecting(started);
+
+    if (!started) {
+      profileStorage.setItem(ENABLED_KEY, 'false');
+      toast({
+        title: "Blink monitor unavailable",
+        description: "The camera couldn't be started. Check that it's connected and that camera access is allowed.",
+        variant: "destructive",
+      });
+      return false;
     }
-    
-    return false;
+
+    profileStorage.setItem(ENABLED_KEY, 'true');
+    return true;
   };
-  
+
   // Stop blink detection
   const stopDetection = () => {
-    const blinkService = BlinkDetectionService.getInstance();
     blinkService.stopDetection();
+    profileStorage.setItem(ENABLED_KEY, 'false');
     setIsDetecting(false);
+    setBlinkRate(null);
   };
-  
+
   // Toggle blink detection
   const toggleDetection = async () => {
     if (isDetecting) {
@@ -71,11 +92,13 @@ export function useBlinkDetection() {
       return await startDetection();
     }
   };
-  
+
   return {
     isDetecting,
     isSupported,
     isInitializing,
+    blinkRate,
+    isCameraPaused,
     startDetection,
     stopDetection,
     toggleDetection
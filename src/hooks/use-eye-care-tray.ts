@@ -2,63 +2,16 @@
 import { useEffect } from 'react';
 import SystemTrayService from '@/services/SystemTrayService';
 import { useTimer } from '@/contexts/TimerContext';
-import { useAuth } from '@/contexts/AuthContext';
 
 export function useEyeCareTray() {
+  // Eye care settings reach other devices through the preferences sync
   const { 
     isEyeCareActive, 
     isEyeCareResting,
     eyeCareTimeElapsed,
     eyeCareWorkDuration,
-    eyeCareRestDuration,
-    updateTimerSettings
+    eyeCareRestDuration
   } = useTimer();
-  const { user } = useAuth();
-  
-  // Load user preferences from MongoDB when component mounts
-  useEffect(() => {
-    const systemTray = SystemTrayService.getInstance();
-    
-    if (user) {
-      // Try to load preferences from MongoDB
-      systemTray.loadPreferences(user.id)
-        .then(preferences => {
-          if (preferences?.eyeCareSettings) {
-            console.log("Loaded eye care settings from preferences:", preferences.eyeCareSettings);
-            // Update eye care settings from preferences using the correct method
-            updateTimerSettings({
-              eyeCareWorkDuration: preferences.eyeCareSettings.workDuration || 1200, // 20 minutes default
-              eyeCareRestDuration: preferences.eyeCareSettings.restDuration || 20, // 20 seconds default
-              pomodoroDuration: 25, // Keep existing pomodoro duration
-              pomodoroBreakDuration: 5 // Keep existing pomodoro break duration
-            });
-          }
-        })
-        .catch(error => {
-          console.error('Failed to load preferences:', error);
-        });
-    }
-  }, [user, updateTimerSettings]);
-  
-  // Save preferences to MongoDB when they change
-  useEffect(() => {
-    const systemTray = SystemTrayService.getInstance();
-    
-    if (user) {
-      const preferences = {
-        eyeCareSettings: {
-          isActive: isEyeCareActive,
-          workDuration: eyeCareWorkDuration,
-          restDuration: eyeCareRestDuration
-        }
-      };
-      
-      systemTray.savePreferences(user.id, preferences)
-        .catch(error => {
-          console.error('Failed to save preferences:', error);
-        });
-    }
-  }, [user, isEyeCareActive, eyeCareWorkDuration, eyeCareRestDuration]);
   
   // Update tray tooltip and icon with current timer status
   useEffect(() => {
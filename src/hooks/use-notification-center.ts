@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import NotificationCenterService, { NotificationEntry, NotificationSource } from '@/services/NotificationCenterService';
+
+export function useNotificationCenter() {
+  const notificationCenter = NotificationCenterService.getInstance();
+  const [notifications, setNotifications] = useState<NotificationEntry[]>(() => notificationCenter.getNotifications());
+
+  useEffect(() => {
+    notificationCenter.addNotificationListener(setNotifications);
+    return () => notificationCenter.removeNotificationListener(setNotifications);
+  }, [notificationCenter]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(entry => !entry.isRead).length,
+    markAllRead: () => notificationCenter.markAllRead(),
+    clearNotifications: (source?: NotificationSource) => notificationCenter.clearNotifications(source)
+  };
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import PostureMonitorService from '@/services/PostureMonitorService';
+import FaceTrackingService, { FaceTrackingState } from '@/services/FaceTrackingService';
+import { PostureEvent } from '@/lib/postureDetection';
+import { useToast } from '@/hooks/use-toast';
+import { profileStorage } from '@/lib/profileStorage';
+
+// The camera is only used once the user turns the posture monitor on
+const ENABLED_KEY = 'postureMonitorEnabled';
+
+export function usePostureMonitor() {
+  const postureMonitor = PostureMonitorService.getInstance();
+  const [isMonitoring, setIsMonitoring] = useState(() => postureMonitor.isMonitoring());
+  const [isCalibrated, setIsCalibrated] = useState(() => postureMonitor.isCalibrated());
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isSupported] = useState(() => postureMonitor.isAvailable());
+  const [isCameraPaused, setIsCameraPaused] = useState(() => FaceTrackingService.getInstance().getState().isPaused);
+  const [lastEvent, setLastEvent] = useState<PostureEvent | null>(null);
+  const { toast } = useToast();
+
+  // Pick up where the user left off if they turned the monitor on before
+  useEffect(() => {
+    if (profileStorage.getItem(ENABLED_KEY) !== 'true' || postureMonitor.isMonitoring()) return;
+
+    postureMonitor.startMonitoring().then(setIsMonitoring);
+  }, [postureMonitor]);
+
+  // The reminders themselves go out with the eye care reminders in TimerContext
+  useEffect(() => {
+    const faceTracking = FaceTrackingService.getInstance();
+    const handleCameraState = (state: FaceTrackingState) => setIsCameraPaused(state.isPaused);
+
+    postureMonitor.addPostureListener(setLastEvent);
+    faceTracking.addStateListener(handleCameraState);
+
+    return () => {
+      postureMonitor.removePostureListener(setLastEvent);
+      faceTracking.removeStateListener(handleCameraState);
+    };
+  }, [postureMonitor]);
+
+  // Sit normally for a few seconds so later frames have something to compare against
+  const calibrate = async () => {
+    setIsCalibrating(true);
+    const calibrated = await postureMonitor.calibrate();
+    setIsCalibrating(false);
+
+    if (!calibrated) {
+      toast({
+        title: "Calibration failed",
+        description: "Make sure your face is in view of the camera and try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setIsCalibrated(true);
+    toast({
+      title: "Posture calibrated",
+      description: "You'll be reminded when you lean in too close or start to slouch.",
+    });
+    return true;
+  };
+
+  const startMonitoring = async () => {
+    // The first time, calibrate before anything can be compared
+    if (!postureMonitor.isCalibrated() && !(await calibrate())) return false;
+
+    const started = await postureMonitor.startMonitoring();
+    setIsMonitoring(started);
+    profileStorage.setItem(ENABLED_KEY, started ? 'true' : 'false');
+
+    if (!started) {
+      toast({
+        title: "Posture monitor unavailable",
+        description: "The camera couldn't be started. Check that it's connected and that camera access is allowed.",
+        variant: "destructive",
+      });
+    }
+    return started;
+  };
+
+  const stopMonitoring = () => {
+    postureMonitor.stopMonitoring();
+    profileStorage.setItem(ENABLED_KEY, 'false');
+    setIsMonitoring(false);
+    setLastEvent(null);
+  };
+
+  const toggleMonitoring = async () => {
+    if (isMonitoring) {
+      stopMonitoring();
+      return false;
+    } else {
+      return await startMonitoring();
+    }
+  };
+
+  return {
+    isMonitoring,
+    isCalibrated,
+    isCalibrating,
+    isSupported,
+    isCameraPaused,
+    lastEvent,
+    calibrate,
+    toggleMonitoring
+  };
+}
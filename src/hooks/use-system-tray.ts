@@ -4,15 +4,17 @@ import SystemTrayService from '@/services/SystemTrayService';
 import { useToast } from '@/hooks/use-toast';
 import { toast as sonnerToast } from 'sonner';
 import { useTimer } from '@/contexts/TimerContext';
-import { useAuth } from '@/contexts/AuthContext';
 import { useFocusMode } from '@/contexts/FocusModeContext';
 
 export function useSystemTray() {
   const [isTrayActive, setIsTrayActive] = useState(false);
   const { toast } = useToast();
-  const auth = useAuth();
-  const user = auth?.user;
-  const { isFocusMode, whitelist } = useFocusMode();
+  const {
+    isFocusMode,
+    activeWhitelist,
+    activeDimInsteadOfBlock,
+    activeWhitelistName
+  } = useFocusMode();
 
   // Initialize system tray
   useEffect(() => {
@@ -63,28 +65,16 @@ export function useSystemTray() {
     };
   }, [toast]);
   
-  // Load user preferences from MongoDB when component mounts
-  useEffect(() => {
-    const systemTray = SystemTrayService.getInstance();
-    
-    if (user) {
-      // Try to load preferences from MongoDB
-      systemTray.loadPreferences(user.id)
-        .catch(error => {
-          console.error('Failed to load preferences:', error);
-        });
-    }
-  }, [user]);
-
   // Sync focus mode settings with system tray service
   useEffect(() => {
     const systemTray = SystemTrayService.getInstance();
     
     // Update focus mode settings in SystemTrayService
     systemTray.setFocusMode(isFocusMode);
-    systemTray.setFocusModeWhitelist(whitelist);
+    systemTray.setActiveWhitelistProfile({ name: activeWhitelistName, apps: activeWhitelist });
+    systemTray.setDimOption(activeDimInsteadOfBlock);
     
-  }, [isFocusMode, whitelist]);
+  }, [isFocusMode, activeWhitelist, activeWhitelistName, activeDimInsteadOfBlock]);
   
   return { isTrayActive };
 }
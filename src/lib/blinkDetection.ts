@@ -0,0 +1,147 @@
+// Blink detection from FaceMesh landmarks. Everything here is a plain function
+// of the landmarks and timestamps it's given, so recorded landmark frames can be
+// replayed through exactly the same steps as the live camera.
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+// One FaceMesh result: the landmarks of the first face, or null when no face was found
+export interface LandmarkFrame {
+  time: number; // ms
+  landmarks: Landmark[] | null;
+}
+
+export interface BlinkDetectionOptions {
+  closedThreshold: number; // Eye aspect ratio below which the eyes count as closed
+  maxBlinkMs: number; // Longer closures are the eyes resting, not a blink
+  windowMs: number; // How far back the blink rate looks
+  minFaceTimeMs: number; // Face time needed in the window before the rate means anything
+  lowRateThreshold: number; // Blinks per minute below which the rate is low
+}
+
+export const DEFAULT_BLINK_OPTIONS: BlinkDetectionOptions = {
+  closedThreshold: 0.21,
+  maxBlinkMs: 500,
+  windowMs: 60000,
+  minFaceTimeMs: 30000,
+  lowRateThreshold: 10,
+};
+
+// FaceMesh landmark indices around each eye, in the order
+// outer corner, upper lid (2), inner corner, lower lid (2)
+export const LEFT_EYE_LANDMARKS = [362, 385, 387, 263, 373, 380];
+export const RIGHT_EYE_LANDMARKS = [33, 160, 158, 133, 153, 144];
+
+export interface BlinkTrackerState {
+  closedSince: number | null; // When the eyes closed, while they are closed
+  blinks: number[]; // Blink times within the window
+  faceSamples: Array<{ time: number; hasFace: boolean }>; // Frames within the window
+}
+
+// Structured blink rate, as sent to blink rate listeners
+export interface BlinkRateData {
+  blinksPerMinute: number | null; // null until the face has been seen for long enough
+  blinkCount: number;
+  faceTimeMs: number; // How long the face was visible in the window
+  windowMs: number;
+  isFaceVisible: boolean;
+  isLow: boolean;
+  time: number;
+}
+
+export const createBlinkTracker = (): BlinkTrackerState => ({
+  closedSince: null,
+  blinks: [],
+  faceSamples: [],
+});
+
+const distance = (a: Landmark, b: Landmark): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Eye aspect ratio (Soukupová & Čech): the lid openings over the eye width.
+// Around 0.3 for an open eye, close to 0 when it's shut.
+export const getEyeAspectRatio = (landmarks: Landmark[], indices: number[]): number | null => {
+  const [p1, p2, p3, p4, p5, p6] = indices.map(index => landmarks[index]);
+  if (!p1 || !p2 || !p3 || !p4 || !p5 || !p6) return null;
+
+  const width = distance(p1, p4);
+  if (width === 0) return null;
+
+  return (distance(p2, p6) + distance(p3, p5)) / (2 * width);
+};
+
+// Both eyes averaged, which evens out winks and a face turned to one side
+export const getFaceEyeAspectRatio = (landmarks: Landmark[]): number | null => {
+  const left = getEyeAspectRatio(landmarks, LEFT_EYE_LANDMARKS);
+  const right = getEyeAspectRatio(landmarks, RIGHT_EYE_LANDMARKS);
+
+  if (left === null || right === null) return left ?? right;
+  return (left + right) / 2;
+};
+
+// Feed one frame to the tracker. A blink is the eyes closing and opening again
+// within maxBlinkMs; losing the face part way through doesn't count as one.
+export const processLandmarkFrame = (
+  state: BlinkTrackerState,
+  frame: LandmarkFrame,
+  options: BlinkDetectionOptions = DEFAULT_BLINK_OPTIONS
+): BlinkTrackerState => {
+  const since = frame.time - options.windowMs;
+  const ratio = frame.landmarks ? getFaceEyeAspectRatio(frame.landmarks) : null;
+  const faceSamples = [...state.faceSamples.filter(sample => sample.time > since), { time: frame.time, hasFace: ratio !== null }];
+  let blinks = state.blinks.filter(time => time > since);
+  let closedSince = state.closedSince;
+
+  if (ratio === null) {
+    closedSince = null;
+  } else if (ratio < options.closedThreshold) {
+    closedSince = closedSince ?? frame.time;
+  } else if (closedSince !== null) {
+    if (frame.time - closedSince <= options.maxBlinkMs) {
+      blinks = [...blinks, frame.time];
+    }
+    closedSince = null;
+  }
+
+  return { closedSince, blinks, faceSamples };
+};
+
+// A frame stands for at most this long, so a stalled camera doesn't count as face time
+const MAX_FRAME_GAP_MS = 1000;
+
+// Time the face was visible in the window, counting each frame until the next one
+const getFaceTime = (samples: BlinkTrackerState["faceSamples"], now: number): number =>
+  samples.reduce((total, sample, index) => {
+    if (!sample.hasFace) return total;
+    const next = index + 1 < samples.length ? samples[index + 1].time : now;
+    return total + Math.min(Math.max(0, next - sample.time), MAX_FRAME_GAP_MS);
+  }, 0);
+
+export const getBlinkRate = (
+  state: BlinkTrackerState,
+  now: number,
+  options: BlinkDetectionOptions = DEFAULT_BLINK_OPTIONS
+): BlinkRateData => {
+  const since = now - options.windowMs;
+  const samples = state.faceSamples.filter(sample => sample.time > since);
+  const blinkCount = state.blinks.filter(time => time > since).length;
+  const faceTimeMs = getFaceTime(samples, now);
+  const lastSample = samples[samples.length - 1];
+
+  // Blinks per minute of face time, so looking away doesn't drag the rate down
+  const blinksPerMinute = faceTimeMs >= options.minFaceTimeMs
+    ? Math.round((blinkCount / faceTimeMs) * 60000 * 10) / 10
+    : null;
+
+  return {
+    blinksPerMinute,
+    blinkCount,
+    faceTimeMs,
+    windowMs: options.windowMs,
+    isFaceVisible: lastSample?.hasFace ?? false,
+    isLow: blinksPerMinute !== null && blinksPerMinute < options.lowRateThreshold,
+    time: now,
+  };
+};
@@ -0,0 +1,73 @@
+// Eye-care regimens: how long to work between breaks, how long each break lasts
+// and whether every few breaks is a longer one with a stretch
+
+export type EyeCareRegimenId = "20-20-20" | "micro-breaks" | "custom";
+
+export interface EyeCareRegimenSettings {
+  eyeCareWorkDuration: number; // seconds
+  eyeCareRestDuration: number; // seconds
+  eyeCareLongBreakEvery: number; // Short breaks before each long one, 0 for no long breaks
+  eyeCareLongBreakDuration: number; // seconds
+}
+
+export interface EyeCareRegimen {
+  id: EyeCareRegimenId;
+  name: string;
+  description: string;
+  settings: EyeCareRegimenSettings | null; // null when the user picks the durations
+}
+
+export const EYE_CARE_REGIMENS: EyeCareRegimen[] = [
+  {
+    id: "20-20-20",
+    name: "20-20-20",
+    description: "Every 20 minutes, look at something 20 feet away for 20 seconds",
+    settings: {
+      eyeCareWorkDuration: 20 * 60,
+      eyeCareRestDuration: 20,
+      eyeCareLongBreakEvery: 0,
+      eyeCareLongBreakDuration: 5 * 60,
+    },
+  },
+  {
+    id: "micro-breaks",
+    name: "Micro-breaks",
+    description: "A 30-second break every 10 minutes, and a 5-minute stretch break every hour",
+    settings: {
+      eyeCareWorkDuration: 10 * 60,
+      eyeCareRestDuration: 30,
+      eyeCareLongBreakEvery: 5,
+      eyeCareLongBreakDuration: 5 * 60,
+    },
+  },
+  {
+    id: "custom",
+    name: "Custom",
+    description: "Choose your own work, break and long break durations",
+    settings: null,
+  },
+];
+
+export const getEyeCareRegimen = (id: string): EyeCareRegimen =>
+  EYE_CARE_REGIMENS.find(regimen => regimen.id === id) || EYE_CARE_REGIMENS[0];
+
+// Shown during long breaks, one per break in turn
+export const STRETCH_PROMPTS = [
+  "Stand up, roll your shoulders back and stretch your arms overhead.",
+  "Tilt your head slowly towards each shoulder and hold for a few breaths.",
+  "Walk around the room and refill your water glass.",
+  "Clasp your hands behind your back and open up your chest.",
+  "Rotate your wrists and gently stretch your fingers.",
+];
+
+export const getStretchPrompt = (index: number): string =>
+  STRETCH_PROMPTS[Math.abs(index) % STRETCH_PROMPTS.length];
+
+// Format a duration in seconds as "20s", "5 min" or "1 min 30s"
+export const formatBreakDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+
+  if (minutes === 0) return `${rest}s`;
+  return rest === 0 ? `${minutes} min` : `${minutes} min ${rest}s`;
+};
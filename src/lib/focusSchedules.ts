@@ -0,0 +1,122 @@
+// Recurring focus schedules, e.g. "weekdays 9:00-12:00 deep work"
+
+export interface FocusSchedule {
+  id: string;
+  name: string;
+  days: number[]; // Days of the week the schedule starts on (0 = Sunday)
+  startTime: string; // HH:MM, local time
+  endTime: string; // HH:MM, local time. Earlier than startTime means it runs past midnight
+  whitelist: string[];
+  dimInsteadOfBlock: boolean;
+  isActive: boolean;
+}
+
+// A single run of a schedule on a particular day
+export interface ScheduleOccurrence {
+  schedule: FocusSchedule;
+  start: Date;
+  end: Date;
+  key: string; // Unique per schedule and day, used to tell sessions apart
+}
+
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const atMinutes = (day: Date, minutes: number): Date => {
+  const date = new Date(day);
+  date.setHours(0, 0, 0, 0);
+  date.setMinutes(minutes);
+  return date;
+};
+
+const getDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export function isValidScheduleTime(time: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+}
+
+// Get the occurrence of a schedule that starts on the given day, if it runs that day
+export function getOccurrenceOnDay(schedule: FocusSchedule, day: Date): ScheduleOccurrence | null {
+  if (!schedule.days.includes(day.getDay())) return null;
+
+  const startMinutes = parseTime(schedule.startTime);
+  let endMinutes = parseTime(schedule.endTime);
+  if (endMinutes <= startMinutes) {
+    endMinutes += 24 * 60;
+  }
+
+  return {
+    schedule,
+    start: atMinutes(day, startMinutes),
+    end: atMinutes(day, endMinutes),
+    key: `${schedule.id}:${getDayKey(day)}`,
+  };
+}
+
+// Find the schedule occurrence running at a given time. Checks the previous day
+// too, for schedules that run past midnight.
+export function getActiveOccurrence(schedules: FocusSchedule[], now: Date = new Date()): ScheduleOccurrence | null {
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  for (const schedule of schedules) {
+    if (!schedule.isActive) continue;
+
+    for (const day of [now, yesterday]) {
+      const occurrence = getOccurrenceOnDay(schedule, day);
+      if (occurrence && occurrence.start <= now && now < occurrence.end) {
+        return occurrence;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Find the next occurrence that starts after the given time, within the coming week
+export function getNextOccurrence(schedules: FocusSchedule[], now: Date = new Date()): ScheduleOccurrence | null {
+  let next: ScheduleOccurrence | null = null;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() + offset);
+
+    for (const schedule of schedules) {
+      if (!schedule.isActive) continue;
+
+      const occurrence = getOccurrenceOnDay(schedule, day);
+      if (occurrence && occurrence.start > now && (!next || occurrence.start < next.start)) {
+        next = occurrence;
+      }
+    }
+
+    if (next) break;
+  }
+
+  return next;
+}
+
+// Describe the days a schedule runs on, e.g. "Weekdays" or "Mon, Wed, Fri"
+export function formatScheduleDays(days: number[]): string {
+  const sorted = [...days].sort();
+  const key = sorted.join(",");
+
+  if (key === "0,1,2,3,4,5,6") return "Every day";
+  if (key === "1,2,3,4,5") return "Weekdays";
+  if (key === "0,6") return "Weekends";
+  if (sorted.length === 0) return "Never";
+
+  return sorted.map(day => DAY_LABELS[day]).join(", ");
+}
+
+export function formatScheduleSummary(schedule: FocusSchedule): string {
+  return `${formatScheduleDays(schedule.days)} ${schedule.startTime}–${schedule.endTime}`;
+}
@@ -0,0 +1,164 @@
+// Screen distance and posture from FaceMesh landmarks, measured against a
+// calibration taken while the user sits the way they want to. Like
+// blinkDetection, these are plain functions so recorded frames can be replayed.
+import { Landmark, LandmarkFrame } from '@/lib/blinkDetection';
+
+export type PostureEventType = 'too_close' | 'slouching';
+
+export interface PostureEvent {
+  type: PostureEventType;
+  time: number;
+  duration: number; // How long the posture had lasted when the event fired, in ms
+}
+
+// The measurements everything is compared on, all in normalized image units
+export interface FaceMetrics {
+  eyeDistance: number; // Between the outer eye corners; grows as the face gets closer
+  noseY: number; // Height of the nose tip in the frame; grows as the head drops
+  roll: number; // Tilt of the eye line, in degrees
+}
+
+export type PostureCalibration = FaceMetrics;
+
+export interface PostureDetectionOptions {
+  tooCloseRatio: number; // Eye distance over the calibrated one that counts as too close
+  slouchDrop: number; // How far the nose may drop below its calibrated height
+  maxTilt: number; // Degrees of head tilt away from the calibrated tilt
+  sustainMs: number; // How long a posture has to last before it's reported
+  repeatMs: number; // How often a posture that carries on is reported again
+  minCalibrationFrames: number;
+}
+
+export const DEFAULT_POSTURE_OPTIONS: PostureDetectionOptions = {
+  tooCloseRatio: 1.3,
+  slouchDrop: 0.08,
+  maxTilt: 15,
+  sustainMs: 10000,
+  repeatMs: 5 * 60 * 1000,
+  minCalibrationFrames: 10,
+};
+
+// FaceMesh landmark indices
+const RIGHT_EYE_OUTER = 33;
+const LEFT_EYE_OUTER = 263;
+const NOSE_TIP = 1;
+
+export interface PostureTrackerState {
+  since: Record<PostureEventType, number | null>; // When each posture started, while it lasts
+  lastEvent: Record<PostureEventType, number | null>; // When each was last reported
+}
+
+export const createPostureTracker = (): PostureTrackerState => ({
+  since: { too_close: null, slouching: null },
+  lastEvent: { too_close: null, slouching: null },
+});
+
+export const getFaceMetrics = (landmarks: Landmark[]): FaceMetrics | null => {
+  const right = landmarks[RIGHT_EYE_OUTER];
+  const left = landmarks[LEFT_EYE_OUTER];
+  const nose = landmarks[NOSE_TIP];
+  if (!right || !left || !nose) return null;
+
+  const eyeDistance = Math.hypot(left.x - right.x, left.y - right.y);
+  if (eyeDistance === 0) return null;
+
+  return {
+    eyeDistance,
+    noseY: nose.y,
+    roll: (Math.atan2(left.y - right.y, left.x - right.x) * 180) / Math.PI,
+  };
+};
+
+// Average the metrics over the calibration frames. Returns null if the face
+// wasn't seen in enough of them to trust the result.
+export const createPostureCalibration = (
+  frames: LandmarkFrame[],
+  options: PostureDetectionOptions = DEFAULT_POSTURE_OPTIONS
+): PostureCalibration | null => {
+  const metrics = frames.flatMap(frame => {
+    const faceMetrics = frame.landmarks ? getFaceMetrics(frame.landmarks) : null;
+    return faceMetrics ? [faceMetrics] : [];
+  });
+
+  if (metrics.length < options.minCalibrationFrames) return null;
+
+  const average = (key: keyof FaceMetrics) =>
+    metrics.reduce((total, metric) => total + metric[key], 0) / metrics.length;
+
+  return {
+    eyeDistance: average('eyeDistance'),
+    noseY: average('noseY'),
+    roll: average('roll'),
+  };
+};
+
+// Which postures the face is in right now. The head dropping while it also
+// comes closer is leaning in rather than slouching, so that only counts as too close.
+export const evaluatePosture = (
+  metrics: FaceMetrics,
+  calibration: PostureCalibration,
+  options: PostureDetectionOptions = DEFAULT_POSTURE_OPTIONS
+): Record<PostureEventType, boolean> => {
+  const isTooClose = metrics.eyeDistance >= calibration.eyeDistance * options.tooCloseRatio;
+  const hasDropped = metrics.noseY - calibration.noseY >= options.slouchDrop;
+  const isTilted = Math.abs(metrics.roll - calibration.roll) >= options.maxTilt;
+
+  return {
+    too_close: isTooClose,
+    slouching: isTilted || (hasDropped && !isTooClose),
+  };
+};
+
+// Feed one frame to the tracker and get back any events it set off. Losing
+// the face starts every posture over.
+export const processPostureFrame = (
+  state: PostureTrackerState,
+  frame: LandmarkFrame,
+  calibration: PostureCalibration,
+  options: PostureDetectionOptions = DEFAULT_POSTURE_OPTIONS
+): { state: PostureTrackerState; events: PostureEvent[] } => {
+  const metrics = frame.landmarks ? getFaceMetrics(frame.landmarks) : null;
+  const postures = metrics ? evaluatePosture(metrics, calibration, options) : { too_close: false, slouching: false };
+  const since = { ...state.since };
+  const lastEvent = { ...state.lastEvent };
+  const events: PostureEvent[] = [];
+
+  (Object.keys(postures) as PostureEventType[]).forEach(type => {
+    if (!postures[type]) {
+      since[type] = null;
+      return;
+    }
+
+    const start = since[type] ?? frame.time;
+    since[type] = start;
+
+    const duration = frame.time - start;
+    const last = lastEvent[type];
+    if (duration >= options.sustainMs && (last === null || frame.time - last >= options.repeatMs)) {
+      lastEvent[type] = frame.time;
+      events.push({ type, time: frame.time, duration });
+    }
+  });
+
+  return { state: { since, lastEvent }, events };
+};
+
+// Run recorded frames through calibration and tracking, e.g. to check the
+// thresholds against a recording
+export const replayPostureFrames = (
+  calibrationFrames: LandmarkFrame[],
+  frames: LandmarkFrame[],
+  options: PostureDetectionOptions = DEFAULT_POSTURE_OPTIONS
+): { calibration: PostureCalibration | null; events: PostureEvent[] } => {
+  const calibration = createPostureCalibration(calibrationFrames, options);
+  if (!calibration) return { calibration, events: [] };
+
+  let state = createPostureTracker();
+  const events = frames.flatMap(frame => {
+    const result = processPostureFrame(state, frame, calibration, options);
+    state = result.state;
+    return result.events;
+  });
+
+  return { calibration, events };
+};
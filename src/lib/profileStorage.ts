@@ -0,0 +1,110 @@
+// Everything a person saves on this machine is kept under keys ending in the
+// ID of their account or local profile, so people sharing a computer never see
+// each other's stats, timers or rules. With nobody signed in the plain key is used.
+
+// Data saved before profiles were kept apart belongs to whoever opens the app first
+const LEGACY_OWNER_KEY = 'legacyDataOwner';
+
+let activeProfileId: string | null = null;
+let beforeChangeListeners: Array<() => void> = [];
+let changeListeners: Array<(profileId: string | null) => void> = [];
+
+const scopedKey = (key: string, profileId: string | null = activeProfileId) =>
+  profileId ? `${key}-${profileId}` : key;
+
+const ownsLegacyData = () =>
+  activeProfileId !== null && localStorage.getItem(LEGACY_OWNER_KEY) === activeProfileId;
+
+export const profileStorage = {
+  getItem(key: string): string | null {
+    const value = localStorage.getItem(scopedKey(key));
+    if (value !== null || !ownsLegacyData()) return value;
+
+    // Move the old unscoped value over the first time it's asked for
+    const legacyValue = localStorage.getItem(key);
+    if (legacyValue !== null) {
+      localStorage.setItem(scopedKey(key), legacyValue);
+      localStorage.removeItem(key);
+    }
+    return legacyValue;
+  },
+
+  setItem(key: string, value: string): void {
+    localStorage.setItem(scopedKey(key), value);
+  },
+
+  removeItem(key: string): void {
+    localStorage.removeItem(scopedKey(key));
+    if (ownsLegacyData()) {
+      localStorage.removeItem(key);
+    }
+  },
+};
+
+export const getActiveProfileId = (): string | null => activeProfileId;
+
+// Services save what they hold for the old profile first, then reload for the new one
+export const setActiveProfile = (profileId: string | null): void => {
+  if (profileId === activeProfileId) return;
+
+  beforeChangeListeners.forEach(listener => listener());
+  activeProfileId = profileId;
+  if (profileId && localStorage.getItem(LEGACY_OWNER_KEY) === null) {
+    localStorage.setItem(LEGACY_OWNER_KEY, profileId);
+  }
+  changeListeners.forEach(listener => listener(profileId));
+};
+
+// Hand everything the active profile has saved over to a new ID and make that
+// the active profile, e.g. when a local profile becomes a server account.
+// Keys the new ID already has are kept.
+export const moveActiveProfile = (toId: string): void => {
+  const fromId = activeProfileId;
+  if (!fromId || fromId === toId) {
+    setActiveProfile(toId);
+    return;
+  }
+
+  beforeChangeListeners.forEach(listener => listener());
+
+  const suffix = `-${fromId}`;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.endsWith(suffix)) {
+      keys.push(key);
+    }
+  }
+
+  keys.forEach(key => {
+    const newKey = `${key.slice(0, -suffix.length)}-${toId}`;
+    const value = localStorage.getItem(key);
+    if (value !== null && localStorage.getItem(newKey) === null) {
+      localStorage.setItem(newKey, value);
+    }
+    localStorage.removeItem(key);
+  });
+
+  if (localStorage.getItem(LEGACY_OWNER_KEY) === fromId) {
+    localStorage.setItem(LEGACY_OWNER_KEY, toId);
+  }
+
+  activeProfileId = toId;
+  changeListeners.forEach(listener => listener(toId));
+};
+
+export const addProfileBeforeChangeListener = (listener: () => void): void => {
+  beforeChangeListeners.push(listener);
+};
+
+export const removeProfileBeforeChangeListener = (listener: () => void): void => {
+  beforeChangeListeners = beforeChangeListeners.filter(l => l !== listener);
+};
+
+export const addProfileChangeListener = (listener: (profileId: string | null) => void): void => {
+  changeListeners.push(listener);
+};
+
+export const removeProfileChangeListener = (listener: (profileId: string | null) => void): void => {
+  changeListeners = changeListeners.filter(l => l !== listener);
+};
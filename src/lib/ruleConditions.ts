@@ -0,0 +1,208 @@
+// Condition types for custom notification rules. Every condition shares the
+// same threshold/timeWindow shape; what the numbers mean depends on the type.
+import AppCategoryService from '@/services/AppCategoryService';
+
+export type RuleConditionType =
+  | 'app_switch'
+  | 'category_time'
+  | 'screen_time'
+  | 'focus_score_below'
+  | 'idle_return'
+  | 'app_opened'
+  | 'time_of_day'
+  | 'after_time'
+  | 'focus_mode';
+
+// How a rule combines its conditions: all of them, or any one
+export type RuleOperator = 'and' | 'or';
+
+export interface RuleCondition {
+  type: RuleConditionType | string;
+  threshold: number;
+  timeWindow: number; // in seconds
+  target?: string; // App name, category id or "on"/"off", for the types that need one
+}
+
+// Everything a condition can be evaluated against, sampled from SystemTrayService
+export interface RuleSnapshot {
+  now: number;
+  getSwitchCount: (windowMs: number) => number;
+  screenTime: number; // ms today
+  focusScore: number;
+  currentApp: {
+    name: string;
+    category: string;
+    activeSince: number;
+    categorySince: number;
+  } | null;
+  isIdle: boolean;
+  isFocusMode: boolean;
+  lastIdleReturn: { at: number; idleDuration: number } | null;
+}
+
+export interface RuleConditionDefinition {
+  type: RuleConditionType;
+  label: string;
+  defaults: Omit<RuleCondition, 'type'>;
+  // Level conditions stay true for a while (e.g. screen time above 4h) and only
+  // fire again once they have stopped being true. Event conditions fire each time
+  // the event happens.
+  isLevel: boolean;
+  describe: (condition: RuleCondition) => string;
+  // lastTriggeredAt is 0 when the rule has never fired
+  evaluate: (condition: RuleCondition, snapshot: RuleSnapshot, lastTriggeredAt: number) => boolean;
+}
+
+// Events older than this are ignored, so a rule doesn't fire for something
+// that happened long before it was checked
+const EVENT_GRACE_PERIOD = 60000;
+
+export const formatMinutesOfDay = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60) % 24;
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+export const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const RULE_CONDITIONS: Record<RuleConditionType, RuleConditionDefinition> = {
+  app_switch: {
+    type: 'app_switch',
+    label: 'Frequent app switching',
+    defaults: { threshold: 5, timeWindow: 60 },
+    isLevel: false,
+    describe: ({ threshold, timeWindow }) => `${threshold}+ app switches within ${timeWindow}s`,
+    // Switches that already fired the rule don't count towards the next trigger
+    evaluate: ({ threshold, timeWindow }, { now, getSwitchCount }, lastTriggeredAt) =>
+      getSwitchCount(Math.min(timeWindow * 1000, now - lastTriggeredAt)) >= threshold,
+  },
+  category_time: {
+    type: 'category_time',
+    label: 'Continuous time in a category',
+    defaults: { threshold: 15, timeWindow: 0, target: 'distraction' },
+    isLevel: true,
+    describe: ({ threshold, target = 'distraction' }) =>
+      `${threshold}+ minutes straight in ${AppCategoryService.getInstance().getCategory(target).name} apps`,
+    evaluate: ({ threshold, target = 'distraction' }, { now, currentApp, isIdle }) =>
+      !isIdle &&
+      currentApp !== null &&
+      currentApp.category === target &&
+      now - currentApp.categorySince >= threshold * 60000,
+  },
+  screen_time: {
+    type: 'screen_time',
+    label: 'Screen time today',
+    defaults: { threshold: 240, timeWindow: 0 },
+    isLevel: true,
+    describe: ({ threshold }) => `Screen time today passes ${Math.floor(threshold / 60)}h ${threshold % 60}m`,
+    evaluate: ({ threshold }, snapshot) => snapshot.screenTime >= threshold * 60000,
+  },
+  focus_score_below: {
+    type: 'focus_score_below',
+    label: 'Focus score drops',
+    defaults: { threshold: 60, timeWindow: 0 },
+    isLevel: true,
+    describe: ({ threshold }) => `Focus score falls below ${threshold}%`,
+    evaluate: ({ threshold }, snapshot) => snapshot.focusScore < threshold,
+  },
+  idle_return: {
+    type: 'idle_return',
+    label: 'Returning after being idle',
+    defaults: { threshold: 10, timeWindow: 0 },
+    isLevel: false,
+    describe: ({ threshold }) => `Back after ${threshold}+ minutes away`,
+    evaluate: ({ threshold }, { now, lastIdleReturn }, lastTriggeredAt) =>
+      lastIdleReturn !== null &&
+      lastIdleReturn.at > lastTriggeredAt &&
+      now - lastIdleReturn.at <= EVENT_GRACE_PERIOD &&
+      lastIdleReturn.idleDuration >= threshold * 60000,
+  },
+  app_opened: {
+    type: 'app_opened',
+    label: 'A specific app is opened',
+    defaults: { threshold: 0, timeWindow: 0, target: '' },
+    isLevel: false,
+    describe: ({ target }) => `${target || 'An app'} is opened`,
+    evaluate: ({ target }, { now, currentApp }, lastTriggeredAt) => {
+      if (!target || !currentApp) return false;
+
+      return currentApp.name.toLowerCase().includes(target.trim().toLowerCase()) &&
+        currentApp.activeSince > lastTriggeredAt &&
+        now - currentApp.activeSince <= EVENT_GRACE_PERIOD;
+    },
+  },
+  time_of_day: {
+    type: 'time_of_day',
+    label: 'Time of day',
+    defaults: { threshold: 17 * 60, timeWindow: 0 },
+    isLevel: false,
+    describe: ({ threshold }) => `Every day at ${formatMinutesOfDay(threshold)}`,
+    evaluate: ({ threshold }, { now }, lastTriggeredAt) => {
+      const scheduledAt = new Date(now);
+      scheduledAt.setHours(0, 0, 0, 0);
+      scheduledAt.setMinutes(threshold);
+
+      return now >= scheduledAt.getTime() &&
+        now - scheduledAt.getTime() <= EVENT_GRACE_PERIOD * 5 &&
+        lastTriggeredAt < scheduledAt.getTime();
+    },
+  },
+  after_time: {
+    type: 'after_time',
+    label: 'After a time of day',
+    defaults: { threshold: 14 * 60, timeWindow: 0 },
+    isLevel: true,
+    describe: ({ threshold }) => `After ${formatMinutesOfDay(threshold)}`,
+    evaluate: ({ threshold }, { now }) => {
+      const date = new Date(now);
+      return date.getHours() * 60 + date.getMinutes() >= threshold;
+    },
+  },
+  focus_mode: {
+    type: 'focus_mode',
+    label: 'Focus Mode is on or off',
+    defaults: { threshold: 0, timeWindow: 0, target: 'off' },
+    isLevel: true,
+    describe: ({ target }) => `Focus Mode is ${target === 'on' ? 'on' : 'off'}`,
+    evaluate: ({ target }, { isFocusMode }) => isFocusMode === (target === 'on'),
+  },
+};
+
+export const getConditionDefinition = (type: string): RuleConditionDefinition | null =>
+  RULE_CONDITIONS[type as RuleConditionType] || null;
+
+export const describeCondition = (condition: RuleCondition): string =>
+  getConditionDefinition(condition.type)?.describe(condition) || condition.type;
+
+export const describeConditions = (conditions: RuleCondition[], operator: RuleOperator): string =>
+  conditions.map(describeCondition).join(operator === 'and' ? ' and ' : ' or ');
+
+// Combine a rule's conditions. eventFired is true when an event condition
+// (rather than only level conditions) is part of the match, which lets the rule
+// fire again while its level conditions stay met.
+export function evaluateConditions(
+  conditions: RuleCondition[],
+  operator: RuleOperator,
+  snapshot: RuleSnapshot,
+  lastTriggeredAt: number
+): { isMet: boolean; eventFired: boolean } {
+  const results = conditions.flatMap(condition => {
+    const definition = getConditionDefinition(condition.type);
+    return definition
+      ? [{ isLevel: definition.isLevel, isMet: definition.evaluate(condition, snapshot, lastTriggeredAt) }]
+      : [];
+  });
+
+  if (results.length === 0) return { isMet: false, eventFired: false };
+
+  const isMet = operator === 'and'
+    ? results.every(result => result.isMet)
+    : results.some(result => result.isMet);
+
+  return {
+    isMet,
+    eventFired: isMet && results.some(result => !result.isLevel && result.isMet),
+  };
+}
@@ -66,7 +66,7 @@ const ForgotPassword = () => {
                 A reset code has been sent to <strong>{email}</strong>.
               </p>
               <p className="text-center text-sm text-muted-foreground">
-                For this demo, check the browser console (F12) to see the code.
+                Until email is set up, the code is printed in the server's console.
               </p>
               <Button 
                 className="w-full"
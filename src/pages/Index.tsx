@@ -1,10 +1,16 @@
 
 import { TopNav } from "@/components/layout/TopNav";
 import { SettingsPanel } from "@/components/settings/SettingsPanel";
+import { ActivityChart } from "@/components/dashboard/ActivityChart";
+import { AppUsageList } from "@/components/dashboard/AppUsageList";
+import { PomodoroTimer } from "@/components/timers/PomodoroTimer";
+import { BlinkMonitor } from "@/components/eyecare/BlinkMonitor";
+import { PostureMonitor } from "@/components/eyecare/PostureMonitor";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Settings, Focus, Timer } from "lucide-react";
 import { useState } from "react";
 import { useFocusMode } from "@/contexts/FocusModeContext";
@@ -17,7 +23,13 @@ export default function Index() {
     isFocusMode, 
     toggleFocusMode,
     currentActiveApp,
-    isCurrentAppWhitelisted
+    isCurrentAppWhitelisted,
+    activeSchedule,
+    activeScheduleEndsAt,
+    isScheduleOverridden,
+    whitelistProfiles,
+    activeProfileId,
+    setActiveProfile
   } = useFocusMode();
   
   useSystemTray();
@@ -76,6 +88,26 @@ export default function Index() {
                   {isFocusMode ? "Active" : "Inactive"}
                 </span>
               </div>
+              <div className="mt-3">
+                <Select value={activeProfileId} onValueChange={setActiveProfile}>
+                  <SelectTrigger className="h-8 text-xs" aria-label="Whitelist profile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {whitelistProfiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name} whitelist
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {activeSchedule && activeScheduleEndsAt && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {isScheduleOverridden ? "Overriding" : "Scheduled:"} {activeSchedule.name} until{" "}
+                  {activeScheduleEndsAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </p>
+              )}
               {isFocusMode && (
                 <div className="mt-3 space-y-2">
                   <div className="text-xs text-muted-foreground">Current App:</div>
@@ -124,18 +156,21 @@ export default function Index() {
             </CardContent>
           </Card>
 
+          {/* Blink rate from the camera, when the user has turned it on */}
+          <BlinkMonitor />
+
+          {/* Screen distance and posture from the camera */}
+          <PostureMonitor />
+
+          {/* Pomodoro */}
+          <PomodoroTimer />
+
           {/* App Usage Tracker */}
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">App Usage</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-sm text-muted-foreground">
-                Tracking your application usage patterns to help improve focus.
-              </div>
-            </CardContent>
-          </Card>
+          <AppUsageList />
         </div>
+
+        {/* Activity trends */}
+        <ActivityChart className="mt-6" />
       </div>
     </div>
   );
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useLocation, Link } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { HardDrive, KeyRound, Lock, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import LocalProfileService, { LocalProfile } from "@/services/LocalProfileService";
+
+const profileSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  pin: z.string().regex(/^(\d{4,8})?$/, "PIN must be 4 to 8 digits")
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+// For people who'd rather not have a server account: profiles kept only on
+// this device, each optionally behind a PIN
+const LocalProfiles = () => {
+  const { openLocalProfile, createLocalProfile } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const localProfiles = LocalProfileService.getInstance();
+  const [profiles, setProfiles] = useState<LocalProfile[]>(() => localProfiles.getProfiles());
+  // The profile switcher sends people here to unlock a profile with its PIN
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(
+    () => (location.state as { profileId?: string } | null)?.profileId || localProfiles.getActiveProfileId()
+  );
+  const [pin, setPin] = useState("");
+
+  useEffect(() => {
+    localProfiles.addProfilesListener(setProfiles);
+    return () => localProfiles.removeProfilesListener(setProfiles);
+  }, [localProfiles]);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: "",
+      pin: ""
+    }
+  });
+
+  const handleOpen = async (profile: LocalProfile) => {
+    if (profile.pin && selectedProfileId !== profile.id) {
+      setSelectedProfileId(profile.id);
+      setPin("");
+      return;
+    }
+
+    if (await openLocalProfile(profile.id, pin)) {
+      navigate("/dashboard");
+    }
+  };
+
+  const handleCreate = async (data: ProfileFormValues) => {
+    if (await createLocalProfile(data.name, data.pin || undefined)) {
+      navigate("/dashboard");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center mb-2">
+            <div className="flex items-center space-x-1">
+              <span className="h-3 w-3 rounded-full bg-attention-blue-400"></span>
+              <span className="h-3 w-3 rounded-full bg-attention-green-400"></span>
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold text-center">Use Without an Account</CardTitle>
+          <CardDescription className="text-center">
+            Everything stays on this device. You can turn a profile into an account later from Settings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {profiles.length > 0 && (
+            <div className="space-y-2">
+              {profiles.map(profile => (
+                <div key={profile.id} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 font-medium">
+                      <HardDrive className="h-4 w-4 text-muted-foreground" />
+                      {profile.name}
+                      {profile.pin && <Lock className="h-3 w-3 text-muted-foreground" />}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => handleOpen(profile)}>
+                      Open
+                    </Button>
+                  </div>
+                  {profile.pin && selectedProfileId === profile.id && (
+                    <form
+                      className="flex items-center gap-2"
+                      onSubmit={event => {
+                        event.preventDefault();
+                        handleOpen(profile);
+                      }}
+                    >
+                      <div className="relative flex-1">
+                        <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          type="password"
+                          inputMode="numeric"
+                          placeholder="PIN"
+                          className="pl-10"
+                          value={pin}
+                          onChange={event => setPin(event.target.value)}
+                          autoFocus
+                        />
+                      </div>
+                      <Button type="submit" size="sm">Unlock</Button>
+                    </form>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {profiles.length > 0 && <Separator />}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleCreate)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Profile Name</FormLabel>
+                    <div className="relative">
+                      <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <FormControl>
+                        <Input placeholder="John" className="pl-10" {...field} />
+                      </FormControl>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>PIN (optional)</FormLabel>
+                    <div className="relative">
+                      <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <FormControl>
+                        <Input type="password" inputMode="numeric" className="pl-10" {...field} />
+                      </FormControl>
+                    </div>
+                    <FormDescription>Asked for whenever the app starts, if others use this computer.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full">
+                Create profile
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+        <CardFooter className="flex flex-col space-y-4">
+          <div className="text-center text-sm">
+            Have an account?{" "}
+            <Link to="/login" className="text-primary hover:underline">
+              Login
+            </Link>
+          </div>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default LocalProfiles;
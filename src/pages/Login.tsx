@@ -143,6 +143,11 @@ const Login = () => {
               Sign up
             </Link>
           </div>
+          <div className="text-center text-sm">
+            <Link to="/local" className="text-muted-foreground hover:underline">
+              Use without an account
+            </Link>
+          </div>
         </CardFooter>
       </Card>
     </div>
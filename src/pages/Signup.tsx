@@ -183,6 +183,11 @@ const Signup = () => {
               Login
             </Link>
           </div>
+          <div className="text-center text-sm">
+            <Link to="/local" className="text-muted-foreground hover:underline">
+              Use without an account
+            </Link>
+          </div>
         </CardFooter>
       </Card>
     </div>
@@ -80,6 +80,16 @@ const Welcome = () => {
             </Link>
           </Button>
         </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: animationComplete ? 1 : 0 }}
+          transition={{ delay: 0.4, duration: 0.6 }}
+        >
+          <Link to="/local" className="text-sm text-muted-foreground hover:underline">
+            Use without an account
+          </Link>
+        </motion.div>
       </div>
     </div>
   );
@@ -0,0 +1,257 @@
+export const API_URL = 'http://localhost:5000/api';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+// What /api/auth/login, /signup and /refresh return, minus the success flag
+export interface AuthSession {
+  user: SessionUser;
+  token: string;
+  expiresAt: number; // When the access token runs out (ms timestamp)
+  refreshToken: string;
+  refreshExpiresAt: number; // When the user has to sign in again (ms timestamp)
+}
+
+// Only used outside Electron, where there's no main process to keep the session
+const BROWSER_SESSION_KEY = 'authSession';
+// Renew the access token this long before it runs out
+const REFRESH_MARGIN = 60 * 1000;
+// After a failed refresh because the server couldn't be reached, try again this soon
+const REFRESH_RETRY_DELAY = 60 * 1000;
+const SESSION_LOAD_TIMEOUT = 3000;
+const MAX_TIMER_DELAY = 2147483647;
+
+// The one way the dashboard talks to the API server. It attaches the access
+// token to every call, renews it in the background before it runs out, and
+// retries once with a fresh token if the server says it has expired. When the
+// session can't be renewed it's cleared and the expiry listeners are told.
+//
+// The tokens are kept by the Electron main process, encrypted, rather than in
+// localStorage.
+class ApiClient {
+  private static instance: ApiClient;
+  private session: AuthSession | null = null;
+  private refreshPromise: Promise<AuthSession | null> | null = null;
+  private refreshTimeout: ReturnType<typeof setTimeout> | null = null;
+  private expiredListeners: Array<() => void> = [];
+
+  private constructor() {}
+
+  public static getInstance(): ApiClient {
+    if (!ApiClient.instance) {
+      ApiClient.instance = new ApiClient();
+    }
+    return ApiClient.instance;
+  }
+
+  public getSession(): AuthSession | null {
+    return this.session;
+  }
+
+  // Restore the saved session on startup, renewing it if the access token has
+  // already run out. Resolves to null if there's no usable session.
+  public async loadSession(): Promise<AuthSession | null> {
+    const saved = await this.readSavedSession();
+
+    if (!saved || saved.refreshExpiresAt <= Date.now()) {
+      if (saved) this.clearSession();
+      return null;
+    }
+
+    this.session = saved;
+    if (saved.expiresAt - Date.now() < REFRESH_MARGIN) {
+      await this.refresh();
+    } else {
+      this.scheduleRefresh();
+    }
+    return this.session;
+  }
+
+  public setSession(session: AuthSession): void {
+    this.session = session;
+    this.saveSession();
+    this.scheduleRefresh();
+  }
+
+  public clearSession(): void {
+    this.session = null;
+    this.cancelRefresh();
+
+    if (window.electron) {
+      window.electron.send('clear-auth-session', {});
+    } else {
+      sessionStorage.removeItem(BROWSER_SESSION_KEY);
+    }
+  }
+
+  // Sign out here and revoke the refresh token on the server. The session is
+  // cleared even if the server can't be reached.
+  public async logout(): Promise<void> {
+    const refreshToken = this.session?.refreshToken;
+    this.clearSession();
+    if (!refreshToken) return;
+
+    try {
+      await fetch(`${API_URL}/auth/logout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+      });
+    } catch (error) {
+      console.error('Failed to revoke session on the server:', error);
+    }
+  }
+
+  // Like fetch, with a path under /api. JSON bodies get their content type set.
+  public async fetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const url = `${API_URL}${path}`;
+
+    if (this.session && this.session.expiresAt - Date.now() < REFRESH_MARGIN) {
+      await this.refresh();
+    }
+
+    const response = await fetch(url, this.withCredentials(init));
+    if (response.status !== 401 || !this.session) {
+      return response;
+    }
+
+    // The token may have been revoked or expired in the meantime
+    const renewed = await this.refresh();
+    return renewed ? fetch(url, this.withCredentials(init)) : response;
+  }
+
+  public addSessionExpiredListener(listener: () => void): void {
+    this.expiredListeners.push(listener);
+  }
+
+  public removeSessionExpiredListener(listener: () => void): void {
+    this.expiredListeners = this.expiredListeners.filter(l => l !== listener);
+  }
+
+  private withCredentials(init: RequestInit): RequestInit {
+    const headers = new Headers(init.headers);
+
+    if (typeof init.body === 'string' && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+    if (this.session) {
+      headers.set('Authorization', `Bearer ${this.session.token}`);
+    }
+
+    return { ...init, headers };
+  }
+
+  // Swap the refresh token for a new session. Calls made while a refresh is
+  // under way share it. Resolves to null if there's no session afterwards, or
+  // if the server couldn't be reached.
+  private refresh(): Promise<AuthSession | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestRefresh(): Promise<AuthSession | null> {
+    const refreshToken = this.session?.refreshToken;
+    if (!refreshToken) return null;
+
+    try {
+      const response = await fetch(`${API_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+      });
+
+      if (response.status === 401) {
+        this.expire();
+        return null;
+      }
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || `Refresh failed with status ${response.status}`);
+      }
+
+      this.setSession({
+        user: data.user,
+        token: data.token,
+        expiresAt: data.expiresAt,
+        refreshToken: data.refreshToken,
+        refreshExpiresAt: data.refreshExpiresAt
+      });
+      return this.session;
+    } catch (error) {
+      // Offline or the server is down: keep the session and try again later
+      console.error('Failed to refresh session:', error);
+      this.scheduleRefresh(REFRESH_RETRY_DELAY);
+      return null;
+    }
+  }
+
+  private expire(): void {
+    if (!this.session) return;
+
+    this.clearSession();
+    this.expiredListeners.forEach(listener => listener());
+  }
+
+  private scheduleRefresh(delay?: number): void {
+    this.cancelRefresh();
+    if (!this.session) return;
+
+    const untilRefresh = delay ?? this.session.expiresAt - Date.now() - REFRESH_MARGIN;
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = null;
+      this.refresh();
+    }, Math.min(Math.max(untilRefresh, 0), MAX_TIMER_DELAY));
+  }
+
+  private cancelRefresh(): void {
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+  }
+
+  private saveSession(): void {
+    if (window.electron) {
+      window.electron.send('set-auth-session', this.session);
+    } else {
+      sessionStorage.setItem(BROWSER_SESSION_KEY, JSON.stringify(this.session));
+    }
+  }
+
+  private readSavedSession(): Promise<AuthSession | null> {
+    const electron = window.electron;
+
+    if (!electron) {
+      try {
+        const saved = sessionStorage.getItem(BROWSER_SESSION_KEY);
+        return Promise.resolve(saved ? JSON.parse(saved) : null);
+      } catch (error) {
+        console.error('Failed to load saved session:', error);
+        return Promise.resolve(null);
+      }
+    }
+
+    // Ask the main process, giving up if it doesn't answer
+    return new Promise(resolve => {
+      const finish = (session: AuthSession | null) => {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(session);
+      };
+      const timeout = setTimeout(() => finish(null), SESSION_LOAD_TIMEOUT);
+      const unsubscribe = electron.receive('auth-session', (session: AuthSession | null) => finish(session || null));
+
+      electron.send('get-auth-session', {});
+    });
+  }
+}
+
+export default ApiClient;
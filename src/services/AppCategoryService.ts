@@ -0,0 +1,305 @@
+// This service classifies applications into categories using user-editable rules
+import { addProfileChangeListener, profileStorage } from '@/lib/profileStorage';
+
+export interface AppCategory {
+  id: string;
+  name: string;
+  color: string;
+  isBuiltIn?: boolean;
+}
+
+export type CategoryRuleMatchType = 'exact' | 'glob' | 'regex';
+export type CategoryRuleField = 'name' | 'path' | 'bundleId' | 'title' | 'domain';
+
+export interface CategoryRule {
+  id: string;
+  categoryId: string;
+  field: CategoryRuleField;
+  matchType: CategoryRuleMatchType;
+  pattern: string;
+  priority: number; // Higher priority rules are checked first
+  isActive: boolean;
+}
+
+// Everything we know about an app when classifying it
+export interface AppIdentity {
+  name: string;
+  path?: string;
+  bundleId?: string;
+  title?: string;
+  domain?: string; // Set when the app is a site open in a browser
+}
+
+export const UNCATEGORIZED_ID = 'uncategorized';
+
+const BUILT_IN_CATEGORIES: AppCategory[] = [
+  { id: 'productive', name: 'Productive', color: '#36C885', isBuiltIn: true },
+  { id: 'distraction', name: 'Distraction', color: '#F37945', isBuiltIn: true },
+  { id: 'communication', name: 'Communication', color: '#4A99FF', isBuiltIn: true },
+  { id: UNCATEGORIZED_ID, name: 'Uncategorized', color: '#9CA3AF', isBuiltIn: true },
+];
+
+// Default rules replacing the old hard-coded substring lists. Communication
+// rules rank above productive ones so mail clients like Outlook land there,
+// and domain rules rank above both so a known site beats a generic name match.
+const DEFAULT_RULE_PATTERNS: Array<{ categoryId: string; priority: number; field?: CategoryRuleField; patterns: string[] }> = [
+  {
+    categoryId: 'communication',
+    priority: 20,
+    patterns: ['*teams*', '*slack*', '*zoom*', '*meet*', '*mail*', '*outlook*', '*gmail*'],
+  },
+  {
+    categoryId: 'productive',
+    priority: 10,
+    patterns: ['*code*', '*word*', '*excel*', '*powerpoint*', '*terminal*', '*studio*', '*notepad*', '*editor*'],
+  },
+  {
+    categoryId: 'distraction',
+    priority: 10,
+    patterns: ['*youtube*', '*netflix*', '*facebook*', '*instagram*', '*twitter*', '*game*', '*reddit*', '*tiktok*'],
+  },
+  {
+    categoryId: 'productive',
+    priority: 30,
+    field: 'domain',
+    patterns: ['docs.google.com', '*github.com', '*stackoverflow.com', '*notion.so'],
+  },
+  {
+    categoryId: 'distraction',
+    priority: 30,
+    field: 'domain',
+    patterns: ['x.com', '*twitch.tv', '*news.ycombinator.com'],
+  },
+];
+
+const createDefaultRules = (): CategoryRule[] =>
+  DEFAULT_RULE_PATTERNS.flatMap(({ categoryId, priority, field = 'name', patterns }) =>
+    patterns.map(pattern => ({
+      id: `default-${categoryId}-${field}-${pattern.replace(/\*/g, '')}`,
+      categoryId,
+      field,
+      matchType: 'glob' as CategoryRuleMatchType,
+      pattern,
+      priority,
+      isActive: true,
+    }))
+  );
+
+// Convert a glob pattern (* and ?) into an anchored, case-insensitive RegExp
+const globToRegExp = (glob: string): RegExp => {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+class AppCategoryService {
+  private static instance: AppCategoryService;
+  private categoriesKey: string = 'appCategories';
+  private rulesKey: string = 'appCategoryRules';
+  private customCategories: AppCategory[] = [];
+  private rules: CategoryRule[] = [];
+  private compiledPatterns: Map<string, RegExp | null> = new Map();
+  private listeners: Array<() => void> = [];
+
+  private constructor() {
+    this.loadSettings();
+
+    // Each profile has its own categories and rules
+    addProfileChangeListener(() => {
+      this.customCategories = [];
+      this.loadSettings();
+      this.compiledPatterns.clear();
+      this.listeners.forEach(listener => listener());
+    });
+  }
+
+  public static getInstance(): AppCategoryService {
+    if (!AppCategoryService.instance) {
+      AppCategoryService.instance = new AppCategoryService();
+    }
+    return AppCategoryService.instance;
+  }
+
+  // Load categories and rules from localStorage, seeding the defaults on first run
+  private loadSettings(): void {
+    if (typeof window === 'undefined') {
+      this.rules = createDefaultRules();
+      return;
+    }
+
+    try {
+      const savedCategories = profileStorage.getItem(this.categoriesKey);
+      if (savedCategories) {
+        this.customCategories = JSON.parse(savedCategories);
+      }
+
+      const savedRules = profileStorage.getItem(this.rulesKey);
+      this.rules = savedRules ? JSON.parse(savedRules) : createDefaultRules();
+    } catch (error) {
+      console.error("Failed to load app category settings:", error);
+      this.rules = createDefaultRules();
+    }
+  }
+
+  private saveSettings(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      profileStorage.setItem(this.categoriesKey, JSON.stringify(this.customCategories));
+      profileStorage.setItem(this.rulesKey, JSON.stringify(this.rules));
+    } catch (error) {
+      console.error("Failed to save app category settings:", error);
+    }
+  }
+
+  private commit(): void {
+    this.compiledPatterns.clear();
+    this.saveSettings();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Categories
+  public getCategories(): AppCategory[] {
+    return [...BUILT_IN_CATEGORIES, ...this.customCategories];
+  }
+
+  public getCategory(id: string): AppCategory {
+    return this.getCategories().find(category => category.id === id)
+      || BUILT_IN_CATEGORIES.find(category => category.id === UNCATEGORIZED_ID)!;
+  }
+
+  public addCategory(name: string, color: string): AppCategory {
+    const category: AppCategory = {
+      id: `category-${Date.now()}`,
+      name: name.trim(),
+      color,
+    };
+
+    this.customCategories = [...this.customCategories, category];
+    this.commit();
+    return category;
+  }
+
+  public updateCategory(id: string, changes: Partial<Omit<AppCategory, 'id' | 'isBuiltIn'>>): void {
+    this.customCategories = this.customCategories.map(category =>
+      category.id === id ? { ...category, ...changes } : category
+    );
+    this.commit();
+  }
+
+  // Deleting a custom category also removes the rules that pointed to it
+  public deleteCategory(id: string): void {
+    if (BUILT_IN_CATEGORIES.some(category => category.id === id)) return;
+
+    this.customCategories = this.customCategories.filter(category => category.id !== id);
+    this.rules = this.rules.filter(rule => rule.categoryId !== id);
+    this.commit();
+  }
+
+  // Rules
+  public getRules(): CategoryRule[] {
+    return [...this.rules].sort((a, b) => b.priority - a.priority);
+  }
+
+  public addRule(rule: Omit<CategoryRule, 'id'>): CategoryRule {
+    const newRule: CategoryRule = { ...rule, id: `category-rule-${Date.now()}` };
+    this.rules = [...this.rules, newRule];
+    this.commit();
+    return newRule;
+  }
+
+  public updateRule(id: string, changes: Partial<Omit<CategoryRule, 'id'>>): void {
+    this.rules = this.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule);
+    this.commit();
+  }
+
+  public deleteRule(id: string): void {
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    this.commit();
+  }
+
+  public resetToDefaults(): void {
+    this.rules = createDefaultRules();
+    this.commit();
+  }
+
+  // Pin an app to a category with a high-priority exact name rule
+  public reclassifyApp(appName: string, categoryId: string): void {
+    const existing = this.rules.find(rule =>
+      rule.field === 'name' && rule.matchType === 'exact' && rule.pattern.toLowerCase() === appName.toLowerCase()
+    );
+
+    if (existing) {
+      this.updateRule(existing.id, { categoryId, isActive: true });
+    } else {
+      this.addRule({
+        categoryId,
+        field: 'name',
+        matchType: 'exact',
+        pattern: appName,
+        priority: 100,
+        isActive: true,
+      });
+    }
+  }
+
+  // Check whether a pattern compiles, for validating user input
+  public static isValidPattern(matchType: CategoryRuleMatchType, pattern: string): boolean {
+    if (matchType !== 'regex') return pattern.trim() !== '';
+
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getPattern(rule: CategoryRule): RegExp | null {
+    if (!this.compiledPatterns.has(rule.id)) {
+      let compiled: RegExp | null = null;
+      try {
+        compiled = rule.matchType === 'regex' ? new RegExp(rule.pattern, 'i') : globToRegExp(rule.pattern);
+      } catch (error) {
+        console.error(`Invalid pattern in category rule ${rule.id}:`, error);
+      }
+      this.compiledPatterns.set(rule.id, compiled);
+    }
+
+    return this.compiledPatterns.get(rule.id) || null;
+  }
+
+  private ruleMatches(rule: CategoryRule, app: AppIdentity): boolean {
+    const value = app[rule.field];
+    if (!value) return false;
+
+    if (rule.matchType === 'exact') {
+      return value.trim().toLowerCase() === rule.pattern.trim().toLowerCase();
+    }
+
+    return this.getPattern(rule)?.test(value) ?? false;
+  }
+
+  // Find the category for an app, using the highest priority matching rule
+  public classify(app: AppIdentity): string {
+    const match = this.getRules().find(rule => rule.isActive && this.ruleMatches(rule, app));
+    if (!match) return UNCATEGORIZED_ID;
+
+    // Fall back if the rule points at a category that no longer exists
+    return this.getCategories().some(category => category.id === match.categoryId)
+      ? match.categoryId
+      : UNCATEGORIZED_ID;
+  }
+
+  public addChangeListener(callback: () => void): void {
+    this.listeners.push(callback);
+  }
+
+  public removeChangeListener(callback: () => void): void {
+    const index = this.listeners.indexOf(callback);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+}
+
+export default AppCategoryService;
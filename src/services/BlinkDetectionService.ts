@@ -1,14 +1,47 @@
+import FaceTrackingService from '@/services/FaceTrackingService';
+import ReminderService from '@/services/ReminderService';
+import NotificationCenterService from '@/services/NotificationCenterService';
+import { addProfileChangeListener } from '@/lib/profileStorage';
+import {
+  BlinkDetectionOptions,
+  BlinkRateData,
+  BlinkTrackerState,
+  DEFAULT_BLINK_OPTIONS,
+  LandmarkFrame,
+  createBlinkTracker,
+  getBlinkRate,
+  processLandmarkFrame
+} from '@/lib/blinkDetection';
 
+// What blink rate listeners receive: the rate, and whether this update is a
+// low blink rate reminder (at most one every few minutes)
+export interface BlinkRateUpdate extends BlinkRateData {
+  isReminder: boolean;
+}
+
+const REPORT_INTERVAL = 5000; // ms
+const REMINDER_COOLDOWN = 5 * 60 * 1000; // ms
+
+// Opt-in blink rate monitor, fed with face landmarks from FaceTrackingService
 class BlinkDetectionService {
   private static instance: BlinkDetectionService;
   private isRunning: boolean = false;
-  private listeners: Array<(message: string) => void> = [];
-  private reminderInterval: NodeJS.Timeout | null = null;
+  private listeners: Array<(update: BlinkRateUpdate) => void> = [];
+  private options: BlinkDetectionOptions = DEFAULT_BLINK_OPTIONS;
+  private tracker: BlinkTrackerState = createBlinkTracker();
+  private reportInterval: ReturnType<typeof setInterval> | null = null;
   private lastReminderTime: number = 0;
-  private reminderIntervalMinutes: number = 20;
-  
+  private latestUpdate: BlinkRateUpdate | null = null;
+
+  private handleFrame = (frame: LandmarkFrame) => {
+    this.tracker = processLandmarkFrame(this.tracker, frame, this.options);
+  };
+
   private constructor() {
-    console.log('BlinkDetectionService initialized in simple reminder mode');
+    console.log('BlinkDetectionService initialized');
+
+    // The camera is turned on per profile, so the next person starts with it off
+    addProfileChangeListener(() => this.stopDetection());
   }
 
   public static getInstance(): BlinkDetectionService {
@@ -18,74 +51,92 @@ class BlinkDetectionService {
     return BlinkDetectionService.instance;
   }
 
+  // Ask for the camera and start watching for blinks. Resolves to false when
+  // there's no camera, the user declines, or FaceMesh fails to load.
   public async startDetection(): Promise<boolean> {
     if (this.isRunning) return true;
-    
-    try {
-      this.isRunning = true;
-      this.lastReminderTime = Date.now();
-      this.startReminderTimer();
-      
-      console.log('Blink reminder timer started');
-      return true;
-    } catch (error) {
-      console.error('Failed to start blink detection:', error);
+
+    const faceTracking = FaceTrackingService.getInstance();
+    faceTracking.addLandmarkListener(this.handleFrame);
+
+    if (!(await faceTracking.acquire('blink'))) {
+      faceTracking.removeLandmarkListener(this.handleFrame);
       return false;
     }
+
+    this.isRunning = true;
+    this.tracker = createBlinkTracker();
+    this.reportInterval = setInterval(() => this.reportBlinkRate(), REPORT_INTERVAL);
+
+    console.log('Blink detection started');
+    return true;
   }
 
   public stopDetection(): void {
     if (!this.isRunning) return;
-    
+
     this.isRunning = false;
-    
-    if (this.reminderInterval) {
-      clearInterval(this.reminderInterval);
-      this.reminderInterval = null;
+
+    if (this.reportInterval) {
+      clearInterval(this.reportInterval);
+      this.reportInterval = null;
     }
-    
-    console.log('Blink reminder timer stopped');
+
+    const faceTracking = FaceTrackingService.getInstance();
+    faceTracking.removeLandmarkListener(this.handleFrame);
+    faceTracking.release('blink');
+    this.tracker = createBlinkTracker();
+    this.latestUpdate = null;
+    console.log('Blink detection stopped');
   }
 
   public isDetectionAvailable(): boolean {
-    return true; // Always available since we're just using timers
+    return FaceTrackingService.getInstance().isAvailable();
   }
 
-  private startReminderTimer(): void {
-    if (this.reminderInterval) {
-      clearInterval(this.reminderInterval);
-    }
-    
-    // Check every minute but only send reminder based on the interval
-    this.reminderInterval = setInterval(() => {
-      if (!this.isRunning) return;
-      
-      const now = Date.now();
-      const intervalMs = this.reminderIntervalMinutes * 60 * 1000;
-      
-      // Send reminder if enough time has passed
-      if (now - this.lastReminderTime >= intervalMs) {
-        this.notifyBlinkReminder();
-        this.lastReminderTime = now;
-      }
-    }, 60000); // Check every minute
+  public isDetecting(): boolean {
+    return this.isRunning;
   }
 
-  private notifyBlinkReminder(): void {
-    const message = "Remember to blink regularly to reduce eye strain. Take a moment to rest your eyes.";
-    this.listeners.forEach(listener => listener(message));
+  public getLatestBlinkRate(): BlinkRateUpdate | null {
+    return this.latestUpdate;
   }
 
-  public addBlinkRateListener(callback: (message: string) => void): void {
+  public addBlinkRateListener(callback: (update: BlinkRateUpdate) => void): void {
     this.listeners.push(callback);
   }
 
-  public removeBlinkRateListener(callback: (message: string) => void): void {
+  public removeBlinkRateListener(callback: (update: BlinkRateUpdate) => void): void {
     const index = this.listeners.indexOf(callback);
     if (index > -1) {
       this.listeners.splice(index, 1);
     }
   }
+
+  private reportBlinkRate(): void {
+    const now = Date.now();
+    const rate = getBlinkRate(this.tracker, now, this.options);
+    // Do Not Disturb holds the reminder back without using up the cooldown
+    const isReminder = rate.isLow && now - this.lastReminderTime >= REMINDER_COOLDOWN &&
+      !ReminderService.getInstance().isDoNotDisturbActive();
+
+    if (isReminder) {
+      this.lastReminderTime = now;
+
+      const title = "Remember to blink";
+      const body = `You've been blinking about ${rate.blinksPerMinute} times a minute. Blink slowly a few times to refresh your eyes.`;
+      NotificationCenterService.getInstance().addNotification('eye_care', title, body);
+
+      // Toasts aren't seen while the window is minimized to the tray
+      if (document.hidden && window.electron) {
+        window.electron.send('show-native-notification', { title, body, source: 'eye_care' });
+      }
+    }
+
+    const update = { ...rate, isReminder };
+    this.latestUpdate = update;
+    this.listeners.forEach(listener => listener(update));
+  }
 }
 
 export default BlinkDetectionService;
@@ -0,0 +1,225 @@
+import type { FaceMesh } from '@mediapipe/face_mesh';
+import { LandmarkFrame } from '@/lib/blinkDetection';
+
+export interface FaceTrackingState {
+  isActive: boolean; // Some feature wants the camera
+  isPaused: boolean; // The user paused the camera, e.g. from the tray
+  isCameraOn: boolean;
+}
+
+const FRAME_INTERVAL = 100; // ms, about 10 frames a second is plenty to catch a blink
+
+// Shares one camera and one MediaPipe FaceMesh between the features that need
+// face landmarks (blink rate, posture). The camera runs while at least one of
+// them has acquired it and it isn't paused. Frames are processed on this
+// device and only the landmarks are passed on; no image is stored or sent.
+class FaceTrackingService {
+  private static instance: FaceTrackingService;
+  private consumers: Set<string> = new Set();
+  private isPaused: boolean = false;
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private faceMesh: FaceMesh | null = null;
+  private frameTimeout: ReturnType<typeof setTimeout> | null = null;
+  private starting: Promise<boolean> | null = null;
+  private landmarkListeners: Array<(frame: LandmarkFrame) => void> = [];
+  private stateListeners: Array<(state: FaceTrackingState) => void> = [];
+
+  private constructor() {
+    // Pausing from the tray
+    if (window.electron) {
+      window.electron.receive('camera-pause', ({ paused }: { paused: boolean }) => {
+        this.setPaused(paused);
+      });
+    }
+  }
+
+  public static getInstance(): FaceTrackingService {
+    if (!FaceTrackingService.instance) {
+      FaceTrackingService.instance = new FaceTrackingService();
+    }
+    return FaceTrackingService.instance;
+  }
+
+  public isAvailable(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  public getState(): FaceTrackingState {
+    return {
+      isActive: this.consumers.size > 0,
+      isPaused: this.isPaused,
+      isCameraOn: this.stream !== null,
+    };
+  }
+
+  // Start the camera on behalf of a feature. Resolves to false when there's no
+  // camera, the user declines, or FaceMesh fails to load. While paused the
+  // feature is signed up and the camera starts when the pause ends.
+  public async acquire(consumer: string): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    this.consumers.add(consumer);
+    const started = this.isPaused || await this.startCamera();
+
+    if (!started) {
+      this.consumers.delete(consumer);
+    }
+    this.notifyStateChange();
+    return started;
+  }
+
+  public release(consumer: string): void {
+    if (!this.consumers.delete(consumer)) return;
+
+    if (this.consumers.size === 0) {
+      this.stopCamera();
+    }
+    this.notifyStateChange();
+  }
+
+  public setPaused(paused: boolean): void {
+    if (this.isPaused === paused) return;
+
+    this.isPaused = paused;
+    console.log(paused ? 'Camera paused' : 'Camera resumed');
+
+    if (paused) {
+      this.stopCamera();
+    } else if (this.consumers.size > 0) {
+      this.startCamera().then(() => this.notifyStateChange());
+    }
+    this.notifyStateChange();
+  }
+
+  public addLandmarkListener(callback: (frame: LandmarkFrame) => void): void {
+    this.landmarkListeners.push(callback);
+  }
+
+  public removeLandmarkListener(callback: (frame: LandmarkFrame) => void): void {
+    const index = this.landmarkListeners.indexOf(callback);
+    if (index > -1) {
+      this.landmarkListeners.splice(index, 1);
+    }
+  }
+
+  public addStateListener(callback: (state: FaceTrackingState) => void): void {
+    this.stateListeners.push(callback);
+  }
+
+  public removeStateListener(callback: (state: FaceTrackingState) => void): void {
+    const index = this.stateListeners.indexOf(callback);
+    if (index > -1) {
+      this.stateListeners.splice(index, 1);
+    }
+  }
+
+  private startCamera(): Promise<boolean> {
+    if (this.stream) return Promise.resolve(true);
+    if (!this.starting) {
+      this.starting = this.openCamera().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  private async openCamera(): Promise<boolean> {
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: 640, height: 480, facingMode: 'user' },
+        audio: false
+      });
+
+      this.video = document.createElement('video');
+      this.video.srcObject = this.stream;
+      this.video.muted = true;
+      this.video.playsInline = true;
+      await this.video.play();
+
+      // Only the model files are fetched; frames never leave the device
+      if (!this.faceMesh) {
+        const { FaceMesh, VERSION } = await import('@mediapipe/face_mesh');
+        this.faceMesh = new FaceMesh({
+          locateFile: (file) => `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@${VERSION}/${file}`
+        });
+        this.faceMesh.setOptions({
+          maxNumFaces: 1,
+          refineLandmarks: false,
+          minDetectionConfidence: 0.5,
+          minTrackingConfidence: 0.5
+        });
+        this.faceMesh.onResults((results) => {
+          const frame: LandmarkFrame = {
+            time: Date.now(),
+            landmarks: results.multiFaceLandmarks?.[0] ?? null
+          };
+          this.landmarkListeners.forEach(listener => listener(frame));
+        });
+        await this.faceMesh.initialize();
+      }
+
+      // Paused or given up on while the camera was starting
+      if (this.isPaused || this.consumers.size === 0) {
+        this.stopCamera();
+        return this.isPaused;
+      }
+
+      this.scheduleNextFrame();
+      console.log('Camera started for face tracking');
+      return true;
+    } catch (error) {
+      console.error('Failed to start face tracking:', error);
+      this.stopCamera();
+      return false;
+    }
+  }
+
+  // Send frames one at a time, waiting for each result so a slow machine
+  // drops frames instead of queueing them
+  private scheduleNextFrame(): void {
+    const timeout = setTimeout(async () => {
+      if (!this.faceMesh || !this.video) return;
+
+      try {
+        await this.faceMesh.send({ image: this.video });
+      } catch (error) {
+        console.error('Error processing camera frame:', error);
+      }
+
+      // Unless the camera was stopped, or stopped and started again, meanwhile
+      if (this.stream && this.frameTimeout === timeout) {
+        this.scheduleNextFrame();
+      }
+    }, FRAME_INTERVAL);
+    this.frameTimeout = timeout;
+  }
+
+  private stopCamera(): void {
+    if (this.frameTimeout) {
+      clearTimeout(this.frameTimeout);
+      this.frameTimeout = null;
+    }
+
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+
+    if (this.video) {
+      this.video.srcObject = null;
+      this.video = null;
+    }
+  }
+
+  private notifyStateChange(): void {
+    const state = this.getState();
+
+    // The tray offers to pause the camera while it's in use
+    if (window.electron) {
+      window.electron.send('camera-state', state);
+    }
+
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
+
+export default FaceTrackingService;
@@ -0,0 +1,138 @@
+// A PIN is kept as a salted PBKDF2 hash, never as typed
+interface PinHash {
+  salt: string;
+  hash: string;
+}
+
+// A profile that lives only on this device, for people who don't want a server account
+export interface LocalProfile {
+  id: string;
+  name: string;
+  pin: PinHash | null;
+  createdAt: number;
+}
+
+const PROFILES_KEY = 'localProfiles';
+// The profile that was open last, reopened on startup unless it has a PIN
+const ACTIVE_PROFILE_KEY = 'activeLocalProfileId';
+const PIN_ITERATIONS = 100000;
+
+const toHex = (buffer: ArrayBuffer | Uint8Array) =>
+  Array.from(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+const derivePinHash = async (pin: string, salt: Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PIN_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+const hashPin = async (pin: string): Promise<PinHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: toHex(salt), hash: await derivePinHash(pin, salt) };
+};
+
+// Keeps the local profiles on this device. A profile's data is stored under
+// keys ending in `-${profile.id}` (see profileStorage), the same way a server
+// account's is, so it can be carried over when the profile becomes one.
+class LocalProfileService {
+  private static instance: LocalProfileService;
+  private profiles: LocalProfile[] = [];
+  private listeners: Array<(profiles: LocalProfile[]) => void> = [];
+
+  private constructor() {
+    try {
+      const saved = localStorage.getItem(PROFILES_KEY);
+      this.profiles = saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Failed to load local profiles:', error);
+    }
+  }
+
+  public static getInstance(): LocalProfileService {
+    if (!LocalProfileService.instance) {
+      LocalProfileService.instance = new LocalProfileService();
+    }
+    return LocalProfileService.instance;
+  }
+
+  public getProfiles(): LocalProfile[] {
+    return this.profiles;
+  }
+
+  public getProfile(id: string): LocalProfile | null {
+    return this.profiles.find(profile => profile.id === id) || null;
+  }
+
+  public async createProfile(name: string, pin: string | null = null): Promise<LocalProfile> {
+    const profile: LocalProfile = {
+      id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim(),
+      pin: pin ? await hashPin(pin) : null,
+      createdAt: Date.now()
+    };
+
+    this.profiles = [...this.profiles, profile];
+    this.save();
+    return profile;
+  }
+
+  // A profile without a PIN opens for anyone
+  public async verifyPin(id: string, pin: string | null): Promise<boolean> {
+    const profile = this.getProfile(id);
+    if (!profile) return false;
+    if (!profile.pin) return true;
+    if (!pin) return false;
+
+    return (await derivePinHash(pin, fromHex(profile.pin.salt))) === profile.pin.hash;
+  }
+
+  // Set, change or (with null) remove the profile's PIN
+  public async setPin(id: string, pin: string | null): Promise<void> {
+    const pinHash = pin ? await hashPin(pin) : null;
+    this.profiles = this.profiles.map(profile => (profile.id === id ? { ...profile, pin: pinHash } : profile));
+    this.save();
+  }
+
+  public removeProfile(id: string): void {
+    this.profiles = this.profiles.filter(profile => profile.id !== id);
+    if (this.getActiveProfileId() === id) {
+      this.setActiveProfileId(null);
+    }
+    this.save();
+  }
+
+  public getActiveProfileId(): string | null {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+  }
+
+  public setActiveProfileId(id: string | null): void {
+    if (id) {
+      localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_PROFILE_KEY);
+    }
+  }
+
+  public addProfilesListener(listener: (profiles: LocalProfile[]) => void): void {
+    this.listeners.push(listener);
+  }
+
+  public removeProfilesListener(listener: (profiles: LocalProfile[]) => void): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  private save(): void {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(this.profiles));
+    this.listeners.forEach(listener => listener(this.profiles));
+  }
+}
+
+export default LocalProfileService;
@@ -0,0 +1,190 @@
+import { ReminderAction, ReminderSource } from '@/services/ReminderService';
+import QuietModeService, { QuietReason } from '@/services/QuietModeService';
+import { addProfileChangeListener, profileStorage } from '@/lib/profileStorage';
+
+export type NotificationSource = ReminderSource | 'system';
+
+// One alert as it appears in the notification center, whichever way it was shown
+export interface NotificationEntry {
+  id: string;
+  notificationId: string | null; // The ID the native window was shown with, if any
+  source: NotificationSource;
+  title: string;
+  body: string;
+  time: number;
+  response: ReminderAction | null; // null until the user responds to it
+  deferredBy?: QuietReason; // Set if it was held back until a meeting or full screen app was over
+  releasedAt?: number; // When a reminder the main process held back was finally shown
+  isRead: boolean;
+}
+
+const HISTORY_KEY = 'notificationHistory';
+const MAX_HISTORY_SIZE = 500;
+// A response without a notification ID belongs to the latest alert from its
+// source, if that alert is this recent
+const RESPONSE_MATCH_WINDOW = 10 * 60 * 1000;
+// A reminder the main process held back without a notification ID belongs to
+// the dashboard's alert from its source, if that alert is this recent
+const DEFER_MATCH_WINDOW = 5000;
+
+// Keeps every alert in one inbox: eye care and Pomodoro reminders, custom rule
+// popups, focus alerts and system messages, whether they were shown as a toast,
+// an in-app popup or a native window, along with how the user responded.
+class NotificationCenterService {
+  private static instance: NotificationCenterService;
+  private notifications: NotificationEntry[] = [];
+  private listeners: Array<(notifications: NotificationEntry[]) => void> = [];
+
+  private constructor() {
+    this.load();
+    addProfileChangeListener(() => {
+      this.load();
+      this.listeners.forEach(listener => listener(this.notifications));
+    });
+
+    if (window.electron) {
+      window.electron.receive('reminder-deferred', (data: { notificationId: string; source: ReminderSource; title: string; body: string; reason: QuietReason }) => {
+        this.recordDeferred(data.source, data.title, data.body, data.notificationId, data.reason);
+      });
+      window.electron.receive('reminder-released', (data: { notificationId: string; time: number }) => {
+        this.recordReleased(data.notificationId, data.time);
+      });
+    }
+  }
+
+  public static getInstance(): NotificationCenterService {
+    if (!NotificationCenterService.instance) {
+      NotificationCenterService.instance = new NotificationCenterService();
+    }
+    return NotificationCenterService.instance;
+  }
+
+  // Reminders added during a quiet period are marked as held back, unless
+  // deferredBy says otherwise
+  public addNotification(
+    source: NotificationSource,
+    title: string,
+    body: string,
+    notificationId: string | null = null,
+    deferredBy: QuietReason | null = QuietModeService.getInstance().getState().reason
+  ): NotificationEntry {
+    const time = Date.now();
+    const entry: NotificationEntry = {
+      id: `notification-${time}-${Math.random().toString(36).slice(2, 8)}`,
+      notificationId,
+      source,
+      title,
+      body,
+      time,
+      response: null,
+      ...(deferredBy && source !== 'system' ? { deferredBy } : {}),
+      isRead: false
+    };
+
+    this.notifications = [...this.notifications, entry].slice(-MAX_HISTORY_SIZE);
+    this.save();
+    return entry;
+  }
+
+  // Attach a response to the alert it answers: the latest unanswered one with
+  // the same notification ID, or else the latest unanswered one from the source
+  public recordResponse(source: NotificationSource, action: ReminderAction, notificationId: string | null = null): void {
+    const now = Date.now();
+    const unanswered = [...this.notifications].reverse().filter(entry => entry.response === null);
+    const match = (notificationId && unanswered.find(entry => entry.notificationId === notificationId)) ||
+      unanswered.find(entry => entry.source === source && now - entry.time <= RESPONSE_MATCH_WINDOW);
+
+    if (!match) return;
+
+    this.notifications = this.notifications.map(entry =>
+      entry.id === match.id ? { ...entry, response: action } : entry
+    );
+    this.save();
+  }
+
+  // A reminder Do Not Disturb held back. One that was released from a quiet
+  // period already has its entry, which gets the response instead.
+  public addSuppressed(source: ReminderSource, title: string, body: string, notificationId: string | null = null): void {
+    const isReleased = notificationId !== null && this.notifications.some(entry =>
+      entry.notificationId === notificationId && entry.releasedAt && entry.response === null
+    );
+
+    if (!isReleased) {
+      this.addNotification(source, title, body, notificationId, null);
+    }
+  }
+
+  // The main process held a reminder back for a quiet period. Mark the alert the
+  // dashboard already added for it, or add one if the reminder came from the main process.
+  private recordDeferred(source: ReminderSource, title: string, body: string, notificationId: string, reason: QuietReason): void {
+    const now = Date.now();
+    const match = [...this.notifications].reverse().find(entry =>
+      entry.notificationId === notificationId ||
+      (entry.notificationId === null && entry.source === source && now - entry.time <= DEFER_MATCH_WINDOW)
+    );
+
+    if (!match) {
+      this.addNotification(source, title, body, notificationId, reason);
+      return;
+    }
+
+    this.notifications = this.notifications.map(entry =>
+      entry.id === match.id ? { ...entry, notificationId, deferredBy: reason, releasedAt: undefined } : entry
+    );
+    this.save();
+  }
+
+  private recordReleased(notificationId: string, time: number): void {
+    const isWaiting = (entry: NotificationEntry) => entry.notificationId === notificationId && entry.deferredBy && !entry.releasedAt;
+    if (!this.notifications.some(isWaiting)) return;
+
+    this.notifications = this.notifications.map(entry => isWaiting(entry) ? { ...entry, releasedAt: time } : entry);
+    this.save();
+  }
+
+  public getNotifications(): NotificationEntry[] {
+    return this.notifications;
+  }
+
+  public getUnreadCount(): number {
+    return this.notifications.filter(entry => !entry.isRead).length;
+  }
+
+  public markAllRead(): void {
+    if (this.getUnreadCount() === 0) return;
+
+    this.notifications = this.notifications.map(entry => ({ ...entry, isRead: true }));
+    this.save();
+  }
+
+  // Clear everything, or only the alerts from one source
+  public clearNotifications(source?: NotificationSource): void {
+    this.notifications = source ? this.notifications.filter(entry => entry.source !== source) : [];
+    this.save();
+  }
+
+  public addNotificationListener(listener: (notifications: NotificationEntry[]) => void): void {
+    this.listeners.push(listener);
+  }
+
+  public removeNotificationListener(listener: (notifications: NotificationEntry[]) => void): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  private load(): void {
+    try {
+      const saved = profileStorage.getItem(HISTORY_KEY);
+      this.notifications = saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Failed to load notification history:', error);
+      this.notifications = [];
+    }
+  }
+
+  private save(): void {
+    profileStorage.setItem(HISTORY_KEY, JSON.stringify(this.notifications));
+    this.listeners.forEach(listener => listener(this.notifications));
+  }
+}
+
+export default NotificationCenterService;
@@ -0,0 +1,161 @@
+import FaceTrackingService from '@/services/FaceTrackingService';
+import { LandmarkFrame } from '@/lib/blinkDetection';
+import { addProfileChangeListener, profileStorage } from '@/lib/profileStorage';
+import {
+  DEFAULT_POSTURE_OPTIONS,
+  PostureCalibration,
+  PostureDetectionOptions,
+  PostureEvent,
+  PostureTrackerState,
+  createPostureCalibration,
+  createPostureTracker,
+  processPostureFrame
+} from '@/lib/postureDetection';
+
+const CALIBRATION_KEY = 'postureCalibration';
+const CALIBRATION_DURATION = 5000; // ms
+
+// Opt-in screen distance and posture monitor, fed with face landmarks from
+// FaceTrackingService. It needs a calibration first: a few seconds of the user
+// sitting the way they want to, which every later frame is compared against.
+class PostureMonitorService {
+  private static instance: PostureMonitorService;
+  private isRunning: boolean = false;
+  private isCalibrating: boolean = false;
+  private calibration: PostureCalibration | null = null;
+  private options: PostureDetectionOptions = DEFAULT_POSTURE_OPTIONS;
+  private tracker: PostureTrackerState = createPostureTracker();
+  private calibrationFrames: LandmarkFrame[] = [];
+  private listeners: Array<(event: PostureEvent) => void> = [];
+  private isListening: boolean = false;
+
+  private handleFrame = (frame: LandmarkFrame) => {
+    if (this.isCalibrating) {
+      this.calibrationFrames.push(frame);
+      return;
+    }
+
+    if (!this.isRunning || !this.calibration) return;
+
+    const { state, events } = processPostureFrame(this.tracker, frame, this.calibration, this.options);
+    this.tracker = state;
+    events.forEach(event => this.listeners.forEach(listener => listener(event)));
+  };
+
+  private constructor() {
+    this.loadCalibration();
+
+    // Everyone sits differently, so each profile has its own calibration
+    addProfileChangeListener(() => {
+      this.stopMonitoring();
+      this.loadCalibration();
+    });
+  }
+
+  public static getInstance(): PostureMonitorService {
+    if (!PostureMonitorService.instance) {
+      PostureMonitorService.instance = new PostureMonitorService();
+    }
+    return PostureMonitorService.instance;
+  }
+
+  public isAvailable(): boolean {
+    return FaceTrackingService.getInstance().isAvailable();
+  }
+
+  public isMonitoring(): boolean {
+    return this.isRunning;
+  }
+
+  public isCalibrated(): boolean {
+    return this.calibration !== null;
+  }
+
+  // Watch the user's normal posture for a few seconds. Resolves to false if
+  // the camera can't start or the face wasn't seen clearly enough.
+  public async calibrate(): Promise<boolean> {
+    if (this.isCalibrating) return false;
+
+    const faceTracking = FaceTrackingService.getInstance();
+    if (!(await faceTracking.acquire('posture-calibration'))) return false;
+
+    this.isCalibrating = true;
+    this.calibrationFrames = [];
+    this.updateFrameListener();
+    await new Promise(resolve => setTimeout(resolve, CALIBRATION_DURATION));
+    this.isCalibrating = false;
+    this.updateFrameListener();
+    faceTracking.release('posture-calibration');
+
+    const calibration = createPostureCalibration(this.calibrationFrames, this.options);
+    this.calibrationFrames = [];
+
+    if (!calibration) return false;
+
+    this.calibration = calibration;
+    this.tracker = createPostureTracker();
+    profileStorage.setItem(CALIBRATION_KEY, JSON.stringify(calibration));
+    console.log('Posture calibrated:', calibration);
+    return true;
+  }
+
+  public async startMonitoring(): Promise<boolean> {
+    if (this.isRunning) return true;
+    if (!this.calibration) return false;
+
+    if (!(await FaceTrackingService.getInstance().acquire('posture'))) return false;
+
+    this.isRunning = true;
+    this.tracker = createPostureTracker();
+    this.updateFrameListener();
+    console.log('Posture monitoring started');
+    return true;
+  }
+
+  public stopMonitoring(): void {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    this.updateFrameListener();
+    FaceTrackingService.getInstance().release('posture');
+    console.log('Posture monitoring stopped');
+  }
+
+  private loadCalibration(): void {
+    try {
+      const saved = profileStorage.getItem(CALIBRATION_KEY);
+      this.calibration = saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('Failed to load posture calibration:', error);
+      this.calibration = null;
+    }
+    this.tracker = createPostureTracker();
+  }
+
+  // Listen to the camera while monitoring or calibrating, once
+  private updateFrameListener(): void {
+    const shouldListen = this.isRunning || this.isCalibrating;
+    if (shouldListen === this.isListening) return;
+
+    const faceTracking = FaceTrackingService.getInstance();
+    if (shouldListen) {
+      faceTracking.addLandmarkListener(this.handleFrame);
+    } else {
+      faceTracking.removeLandmarkListener(this.handleFrame);
+    }
+    this.isListening = shouldListen;
+  }
+
+  public addPostureListener(callback: (event: PostureEvent) => void): void {
+    this.listeners.push(callback);
+  }
+
+  public removePostureListener(callback: (event: PostureEvent) => void): void {
+    const index = this.listeners.indexOf(callback);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+}
+
+export default PostureMonitorService;
@@ -0,0 +1,329 @@
+import ApiClient from '@/services/ApiClient';
+import { getActiveProfileId, profileStorage } from '@/lib/profileStorage';
+
+// Settings synced between devices, by their storage key
+export const TIMER_SETTING_KEYS = [
+  'pomodoroDuration',
+  'pomodoroBreakDuration',
+  'pomodoroLongBreakDuration',
+  'pomodoroLongBreakInterval',
+  'pomodoroDailyGoal',
+  'eyeCareWorkDuration',
+  'eyeCareRestDuration',
+  'eyeCareRegimen',
+  'eyeCareLongBreakEvery',
+  'eyeCareLongBreakDuration',
+];
+
+export const RULE_SETTING_KEYS = ['customRules'];
+
+// Stored per user as `${key}-${userId}`. Custom images stay on the device that
+// picked them, since they can be large.
+export const FOCUS_MODE_SETTING_KEYS = [
+  'focusModeProfiles',
+  'focusModeActiveProfile',
+  'focusModeWhitelist',
+  'focusModeBlockMode',
+  'focusModeSchedules',
+  'focusModeDimOption',
+  'focusModePomodoroLink',
+  'focusModeCustomText',
+];
+
+// Which side's change was kept when a setting had been changed here and on another device
+export interface SyncConflict {
+  field: string;
+  kept: 'local' | 'server';
+}
+
+// One setting as last synced, or as changed here since. value is the raw
+// stored string, or null once the setting has been removed.
+interface SyncedField {
+  value: string | null;
+  updatedAt: number;
+}
+
+interface SyncState {
+  version: number; // The server document's version as of the last sync
+  fields: Record<string, SyncedField>;
+  pending: string[]; // Fields changed here that the server hasn't got yet
+  hasMigrated: boolean;
+  lastSyncedAt: number | null;
+}
+
+interface ServerPreferences {
+  version: number;
+  fields: Record<string, SyncedField>;
+  conflicts?: SyncConflict[];
+}
+
+// How often to look for settings changed on this device
+const SCAN_INTERVAL = 5000;
+// How long to wait after a change before uploading, so a burst of edits goes up together
+const UPLOAD_DELAY = 2000;
+// How often to fetch changes made on other devices
+const PULL_INTERVAL = 60 * 1000;
+
+const getStateKey = (userId: string) => `preferencesSync-${userId}`;
+
+// Keeps the user's settings, custom rules and focus whitelists the same on
+// every device they sign in on, through /api/preferences.
+//
+// Each setting is synced on its own, and the most recent change to it wins.
+// The settings stay in their usual storage keys: this service notices when one
+// changes, queues it, and uploads the queue whenever the server can be
+// reached, so everything keeps working offline. Changes from other devices are
+// written back to the same keys and announced to the remote change listeners,
+// which reload them. When a setting was changed both here and elsewhere since
+// the last sync, the conflict listeners are told which change was kept.
+//
+// On a device's first sync, settings already in the cloud replace the local
+// ones and local settings the cloud doesn't have yet are uploaded.
+class PreferencesSyncService {
+  private static instance: PreferencesSyncService;
+  private userId: string | null = null;
+  private state: SyncState | null = null;
+  private scanInterval: ReturnType<typeof setInterval> | null = null;
+  private pullInterval: ReturnType<typeof setInterval> | null = null;
+  private uploadTimeout: ReturnType<typeof setTimeout> | null = null;
+  private isSyncing: boolean = false;
+  private needsAnotherSync: boolean = false;
+  private remoteChangeListeners: Array<(fields: string[]) => void> = [];
+  private conflictListeners: Array<(conflicts: SyncConflict[]) => void> = [];
+
+  private constructor() {
+    this.handleOnline = this.handleOnline.bind(this);
+  }
+
+  public static getInstance(): PreferencesSyncService {
+    if (!PreferencesSyncService.instance) {
+      PreferencesSyncService.instance = new PreferencesSyncService();
+    }
+    return PreferencesSyncService.instance;
+  }
+
+  // Start syncing the user's settings. Uploads wait until they have a server session.
+  public start(userId: string): void {
+    if (this.userId === userId) return;
+
+    this.stop();
+    this.userId = userId;
+    this.state = this.loadState(userId);
+
+    this.scanInterval = setInterval(() => this.scan(), SCAN_INTERVAL);
+    this.pullInterval = setInterval(() => this.sync(), PULL_INTERVAL);
+    window.addEventListener('online', this.handleOnline);
+
+    this.sync();
+  }
+
+  public stop(): void {
+    if (this.scanInterval) clearInterval(this.scanInterval);
+    if (this.pullInterval) clearInterval(this.pullInterval);
+    if (this.uploadTimeout) clearTimeout(this.uploadTimeout);
+    this.scanInterval = null;
+    this.pullInterval = null;
+    this.uploadTimeout = null;
+    window.removeEventListener('online', this.handleOnline);
+
+    this.userId = null;
+    this.state = null;
+  }
+
+  public getLastSyncedAt(): number | null {
+    return this.state?.lastSyncedAt ?? null;
+  }
+
+  public getPendingCount(): number {
+    return this.state?.pending.length ?? 0;
+  }
+
+  // Upload anything queued and fetch changes from other devices
+  public async sync(): Promise<void> {
+    const userId = this.userId;
+    if (!userId || !this.state || !ApiClient.getInstance().getSession()) return;
+
+    if (this.isSyncing) {
+      this.needsAnotherSync = true;
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      this.scan();
+
+      const sent: Record<string, SyncedField> = {};
+      this.state.pending.forEach(field => {
+        sent[field] = this.state!.fields[field];
+      });
+
+      const response = await ApiClient.getInstance().fetch(`/preferences/${userId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ baseVersion: this.state.version, changes: sent })
+      });
+      if (!response.ok) {
+        throw new Error(`Sync failed with status ${response.status}`);
+      }
+
+      const data: ServerPreferences = await response.json();
+      // The user may have signed out or switched while the request was out
+      if (this.userId !== userId || !this.state || !this.isActiveProfile()) return;
+
+      this.applyServerPreferences(data, sent);
+
+      if (data.conflicts && data.conflicts.length > 0) {
+        const conflicts = data.conflicts;
+        this.conflictListeners.forEach(listener => listener(conflicts));
+      }
+    } catch (error) {
+      // Offline or the server is down: the queue is kept for next time
+      console.error('Failed to sync preferences:', error);
+    } finally {
+      this.isSyncing = false;
+      if (this.needsAnotherSync) {
+        this.needsAnotherSync = false;
+        this.scheduleUpload();
+      }
+    }
+  }
+
+  public addRemoteChangeListener(listener: (fields: string[]) => void): void {
+    this.remoteChangeListeners.push(listener);
+  }
+
+  public removeRemoteChangeListener(listener: (fields: string[]) => void): void {
+    this.remoteChangeListeners = this.remoteChangeListeners.filter(l => l !== listener);
+  }
+
+  public addConflictListener(listener: (conflicts: SyncConflict[]) => void): void {
+    this.conflictListeners.push(listener);
+  }
+
+  public removeConflictListener(listener: (conflicts: SyncConflict[]) => void): void {
+    this.conflictListeners = this.conflictListeners.filter(l => l !== listener);
+  }
+
+  private handleOnline(): void {
+    this.sync();
+  }
+
+  private getSyncedKeys(): string[] {
+    return [...TIMER_SETTING_KEYS, ...RULE_SETTING_KEYS, ...FOCUS_MODE_SETTING_KEYS];
+  }
+
+  // Queue every setting whose stored value changed since it was last synced.
+  // Nothing is queued before the first sync, so a new device doesn't overwrite
+  // the cloud with its defaults.
+  private scan(): void {
+    if (!this.state || !this.state.hasMigrated || !this.isActiveProfile()) return;
+
+    const now = Date.now();
+    let hasChanges = false;
+
+    this.getSyncedKeys().forEach(field => {
+      const value = profileStorage.getItem(field);
+      const synced = this.state!.fields[field];
+      if ((synced ? synced.value : null) === value) return;
+
+      this.state!.fields[field] = { value, updatedAt: now };
+      if (!this.state!.pending.includes(field)) {
+        this.state!.pending.push(field);
+      }
+      hasChanges = true;
+    });
+
+    if (hasChanges) {
+      this.saveState();
+      this.scheduleUpload();
+    }
+  }
+
+  // Settings are read and written in the signed-in profile's storage, so
+  // nothing is touched while another profile is open
+  private isActiveProfile(): boolean {
+    return getActiveProfileId() === this.userId;
+  }
+
+  private scheduleUpload(): void {
+    if (this.uploadTimeout) clearTimeout(this.uploadTimeout);
+
+    this.uploadTimeout = setTimeout(() => {
+      this.uploadTimeout = null;
+      this.sync();
+    }, UPLOAD_DELAY);
+  }
+
+  // Take the server's copy of every field, except ones changed here while the
+  // request was out, which go up with the next sync
+  private applyServerPreferences(data: ServerPreferences, sent: Record<string, SyncedField>): void {
+    const state = this.state!;
+    const syncedKeys = this.getSyncedKeys();
+    const stillPending = state.pending.filter(field =>
+      !sent[field] || state.fields[field]?.updatedAt !== sent[field].updatedAt
+    );
+    const changedFields: string[] = [];
+
+    Object.entries(data.fields || {}).forEach(([field, remote]) => {
+      // Settings from a newer version of the app are left alone
+      if (!syncedKeys.includes(field) || stillPending.includes(field)) return;
+
+      const local = state.fields[field];
+      if (!local || local.value !== remote.value) {
+        if (remote.value === null) {
+          profileStorage.removeItem(field);
+        } else {
+          profileStorage.setItem(field, remote.value);
+        }
+        changedFields.push(field);
+      }
+      state.fields[field] = { value: remote.value, updatedAt: remote.updatedAt };
+    });
+
+    state.pending = stillPending;
+    state.version = data.version || 0;
+    state.lastSyncedAt = Date.now();
+
+    // First sync on this device: the cloud's settings were taken above, and
+    // settings only this device has are queued for upload
+    if (!state.hasMigrated) {
+      state.hasMigrated = true;
+      const now = Date.now();
+
+      syncedKeys.forEach(field => {
+        const value = profileStorage.getItem(field);
+        if (state.fields[field] || value === null) return;
+
+        state.fields[field] = { value, updatedAt: now };
+        state.pending.push(field);
+      });
+    }
+
+    this.saveState();
+
+    if (state.pending.length > 0) {
+      this.scheduleUpload();
+    }
+    if (changedFields.length > 0) {
+      this.remoteChangeListeners.forEach(listener => listener(changedFields));
+    }
+  }
+
+  private loadState(userId: string): SyncState {
+    try {
+      const saved = localStorage.getItem(getStateKey(userId));
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Failed to load preferences sync state:', error);
+    }
+    return { version: 0, fields: {}, pending: [], hasMigrated: false, lastSyncedAt: null };
+  }
+
+  private saveState(): void {
+    if (!this.userId || !this.state) return;
+    localStorage.setItem(getStateKey(this.userId), JSON.stringify(this.state));
+  }
+}
+
+export default PreferencesSyncService;
@@ -0,0 +1,102 @@
+import { addProfileChangeListener, profileStorage } from '@/lib/profileStorage';
+
+export type QuietReason = 'fullscreen' | 'meeting' | 'presenting';
+
+export interface QuietModeState {
+  isActive: boolean;
+  reason: QuietReason | null;
+  since: number | null;
+}
+
+const ENABLED_KEY = 'quietModeEnabled';
+
+export const QUIET_REASON_LABELS: Record<QuietReason, string> = {
+  fullscreen: 'a full screen app',
+  meeting: 'a meeting',
+  presenting: 'a presentation',
+};
+
+// Mirrors the main process's automatic quiet periods: while a full screen app,
+// a meeting or a presentation is in front, in-app reminders wait here and are
+// shown once it's over. The main process holds back its own windows the same way.
+class QuietModeService {
+  private static instance: QuietModeService;
+  private state: QuietModeState = { isActive: false, reason: null, since: null };
+  private isEnabled: boolean = true;
+  private deferred: Array<() => void> = [];
+  private listeners: Array<(state: QuietModeState) => void> = [];
+
+  private constructor() {
+    this.isEnabled = profileStorage.getItem(ENABLED_KEY) !== 'false';
+
+    if (window.electron) {
+      window.electron.receive('quiet-mode-state', (state: QuietModeState) => this.updateState(state));
+      window.electron.send('quiet-mode-configure', { enabled: this.isEnabled });
+      window.electron.send('get-quiet-mode-state', {});
+    }
+
+    // Reminders held back for the previous profile aren't shown to the next one
+    addProfileChangeListener(() => {
+      this.deferred = [];
+      this.setEnabled(profileStorage.getItem(ENABLED_KEY) !== 'false');
+    });
+  }
+
+  public static getInstance(): QuietModeService {
+    if (!QuietModeService.instance) {
+      QuietModeService.instance = new QuietModeService();
+    }
+    return QuietModeService.instance;
+  }
+
+  public getState(): QuietModeState {
+    return this.state;
+  }
+
+  public isActive(): boolean {
+    return this.state.isActive;
+  }
+
+  public getEnabled(): boolean {
+    return this.isEnabled;
+  }
+
+  public setEnabled(isEnabled: boolean): void {
+    this.isEnabled = isEnabled;
+    profileStorage.setItem(ENABLED_KEY, isEnabled ? 'true' : 'false');
+
+    if (window.electron) {
+      window.electron.send('quiet-mode-configure', { enabled: isEnabled });
+    }
+  }
+
+  // Run a reminder now, or once the quiet period is over
+  public whenNotQuiet(show: () => void): void {
+    if (this.state.isActive) {
+      this.deferred.push(show);
+    } else {
+      show();
+    }
+  }
+
+  public addStateListener(listener: (state: QuietModeState) => void): void {
+    this.listeners.push(listener);
+  }
+
+  public removeStateListener(listener: (state: QuietModeState) => void): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  private updateState(state: QuietModeState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+
+    if (!state.isActive && this.deferred.length > 0) {
+      const deferred = this.deferred;
+      this.deferred = [];
+      deferred.forEach(show => show());
+    }
+  }
+}
+
+export default QuietModeService;
@@ -0,0 +1,220 @@
+import NotificationCenterService from '@/services/NotificationCenterService';
+import { addProfileChangeListener, profileStorage } from '@/lib/profileStorage';
+
+export type ReminderSource = 'eye_care' | 'pomodoro' | 'custom_rule' | 'focus_alert';
+
+// 'suppressed' is a reminder that was never shown because Do Not Disturb was on
+export type ReminderAction = 'dismissed' | 'expired' | 'snoozed' | 'skipped' | 'dnd' | 'suppressed';
+
+export interface ReminderResponse {
+  id: string;
+  source: ReminderSource;
+  action: ReminderAction;
+  minutes?: number; // How long it was snoozed, or how long Do Not Disturb was turned on for
+  time: number;
+}
+
+export interface DoNotDisturbState {
+  isActive: boolean;
+  until: number | null; // null while it's on until turned off
+}
+
+export type ReminderComplianceStats = Record<ReminderSource, Record<ReminderAction, number>>;
+
+export const SNOOZE_OPTIONS = [5, 10, 30];
+
+const RESPONSES_KEY = 'reminderResponses';
+// Do Not Disturb belongs to the computer rather than a profile
+const DND_KEY = 'doNotDisturb';
+const MAX_RESPONSES = 1000;
+
+const REMINDER_SOURCES: ReminderSource[] = ['eye_care', 'pomodoro', 'custom_rule', 'focus_alert'];
+const REMINDER_ACTIONS: ReminderAction[] = ['dismissed', 'expired', 'snoozed', 'skipped', 'dnd', 'suppressed'];
+
+// Records how the user responds to every reminder (snoozed, skipped, dismissed,
+// ...) and keeps the global Do Not Disturb. On desktop Do Not Disturb lives in
+// the main process so the notification windows respect it too; this mirrors it.
+class ReminderService {
+  private static instance: ReminderService;
+  private responses: ReminderResponse[] = [];
+  private dndState: DoNotDisturbState = { isActive: false, until: null };
+  private dndTimeout: ReturnType<typeof setTimeout> | null = null;
+  private dndListeners: Array<(state: DoNotDisturbState) => void> = [];
+  private responseListeners: Array<(responses: ReminderResponse[]) => void> = [];
+
+  private constructor() {
+    this.loadResponses();
+    addProfileChangeListener(() => {
+      this.loadResponses();
+      this.responseListeners.forEach(listener => listener(this.responses));
+    });
+
+    if (window.electron) {
+      window.electron.receive('dnd-state', (state: DoNotDisturbState) => this.updateDoNotDisturb(state));
+      window.electron.receive('reminder-action', (data: { notificationId: string; source: ReminderSource; action: ReminderAction; minutes: number | null; time: number }) => {
+        this.recordResponse(data.source, data.action, {
+          minutes: data.minutes ?? undefined,
+          time: data.time,
+          notificationId: data.notificationId
+        });
+      });
+      window.electron.receive('reminder-suppressed', (data: { notificationId: string | null; source: ReminderSource; title: string; body: string; time: number }) => {
+        this.recordSuppressed(data.source, data.title, data.body, { time: data.time, notificationId: data.notificationId });
+      });
+      window.electron.send('get-dnd-state', {});
+    } else {
+      try {
+        const savedDnd = localStorage.getItem(DND_KEY);
+        if (savedDnd) {
+          this.updateDoNotDisturb(JSON.parse(savedDnd));
+        }
+      } catch (error) {
+        console.error('Failed to load Do Not Disturb:', error);
+      }
+    }
+  }
+
+  public static getInstance(): ReminderService {
+    if (!ReminderService.instance) {
+      ReminderService.instance = new ReminderService();
+    }
+    return ReminderService.instance;
+  }
+
+  public isDoNotDisturbActive(): boolean {
+    const { isActive, until } = this.dndState;
+    return isActive && (until === null || until > Date.now());
+  }
+
+  public getDoNotDisturb(): DoNotDisturbState {
+    return this.isDoNotDisturbActive() ? this.dndState : { isActive: false, until: null };
+  }
+
+  // minutes is null to stay on until turned off
+  public setDoNotDisturb(minutes: number | null): void {
+    if (window.electron) {
+      window.electron.send('dnd-command', { action: 'enable', minutes });
+      return;
+    }
+
+    this.updateDoNotDisturb({ isActive: true, until: minutes ? Date.now() + minutes * 60000 : null });
+  }
+
+  public clearDoNotDisturb(): void {
+    if (window.electron) {
+      window.electron.send('dnd-command', { action: 'disable' });
+      return;
+    }
+
+    this.updateDoNotDisturb({ isActive: false, until: null });
+  }
+
+  // Also marks the response on the alert in the notification center
+  public recordResponse(
+    source: ReminderSource,
+    action: ReminderAction,
+    { minutes, time = Date.now(), notificationId = null }: { minutes?: number; time?: number; notificationId?: string | null } = {}
+  ): void {
+    const response: ReminderResponse = {
+      id: `${source}-${time}-${Math.random().toString(36).slice(2, 8)}`,
+      source,
+      action,
+      time,
+      ...(minutes ? { minutes } : {})
+    };
+
+    this.responses = [...this.responses, response].slice(-MAX_RESPONSES);
+    this.saveResponses();
+    NotificationCenterService.getInstance().recordResponse(source, action, notificationId);
+  }
+
+  // Call instead of showing a reminder while Do Not Disturb is on, so the
+  // compliance stats still count it and the notification center lists it
+  public recordSuppressed(
+    source: ReminderSource,
+    title: string,
+    body: string,
+    { time = Date.now(), notificationId = null }: { time?: number; notificationId?: string | null } = {}
+  ): void {
+    NotificationCenterService.getInstance().addSuppressed(source, title, body, notificationId);
+    this.recordResponse(source, 'suppressed', { time, notificationId });
+  }
+
+  public getResponses(): ReminderResponse[] {
+    return this.responses;
+  }
+
+  // Count each kind of response per source, e.g. for today's compliance
+  public getComplianceStats(since: number = 0): ReminderComplianceStats {
+    const stats = Object.fromEntries(
+      REMINDER_SOURCES.map(source => [source, Object.fromEntries(REMINDER_ACTIONS.map(action => [action, 0]))])
+    ) as ReminderComplianceStats;
+
+    this.responses
+      .filter(response => response.time >= since && stats[response.source])
+      .forEach(response => {
+        stats[response.source][response.action]++;
+      });
+
+    return stats;
+  }
+
+  public clearResponses(): void {
+    this.responses = [];
+    this.saveResponses();
+  }
+
+  public addDoNotDisturbListener(listener: (state: DoNotDisturbState) => void): void {
+    this.dndListeners.push(listener);
+  }
+
+  public removeDoNotDisturbListener(listener: (state: DoNotDisturbState) => void): void {
+    this.dndListeners = this.dndListeners.filter(l => l !== listener);
+  }
+
+  public addResponseListener(listener: (responses: ReminderResponse[]) => void): void {
+    this.responseListeners.push(listener);
+  }
+
+  public removeResponseListener(listener: (responses: ReminderResponse[]) => void): void {
+    this.responseListeners = this.responseListeners.filter(l => l !== listener);
+  }
+
+  private updateDoNotDisturb(state: DoNotDisturbState): void {
+    this.dndState = state;
+
+    if (!window.electron) {
+      localStorage.setItem(DND_KEY, JSON.stringify(state));
+    }
+
+    // The main process reports when it runs out; in the browser, time it here
+    if (this.dndTimeout) {
+      clearTimeout(this.dndTimeout);
+      this.dndTimeout = null;
+    }
+    if (state.isActive && state.until !== null) {
+      const delay = Math.min(Math.max(0, state.until - Date.now()), 24 * 60 * 60000);
+      this.dndTimeout = setTimeout(() => this.updateDoNotDisturb(this.getDoNotDisturb()), delay);
+    }
+
+    const current = this.getDoNotDisturb();
+    this.dndListeners.forEach(listener => listener(current));
+  }
+
+  private loadResponses(): void {
+    try {
+      const savedResponses = profileStorage.getItem(RESPONSES_KEY);
+      this.responses = savedResponses ? JSON.parse(savedResponses) : [];
+    } catch (error) {
+      console.error('Failed to load reminder responses:', error);
+      this.responses = [];
+    }
+  }
+
+  private saveResponses(): void {
+    profileStorage.setItem(RESPONSES_KEY, JSON.stringify(this.responses));
+    this.responseListeners.forEach(listener => listener(this.responses));
+  }
+}
+
+export default ReminderService;
@@ -1,15 +1,27 @@
 // This service handles system tray functionality and active window monitoring
+import UsageHistoryService, { DailyUsageRecord, HourlyActivity, createEmptyHourlyActivity } from './UsageHistoryService';
+import AppCategoryService, { AppIdentity } from './AppCategoryService';
+import NotificationCenterService from './NotificationCenterService';
+import ReminderService from './ReminderService';
+import { addProfileBeforeChangeListener, addProfileChangeListener, profileStorage } from '@/lib/profileStorage';
+
+// A distraction that happened while a Pomodoro focus session was running
+export interface SessionDistraction {
+  timestamp: number;
+  kind: 'app-switching' | 'focus-mode-violation';
+  appName: string | null;
+}
 
 class SystemTrayService {
   private static instance: SystemTrayService;
   private lastActiveWindow: string | null = null;
+  private lastActiveApp: string | null = null;
   private windowSwitches: number = 0;
   private switchThreshold: number = 3;
   private switchTimeframe: number = 30000;
   private switchTimer: NodeJS.Timeout | null = null;
   private listeners: Array<(message: string, isFocusAlert: boolean) => void> = [];
   private isDesktopApp: boolean = false;
-  private apiBaseUrl: string = 'http://localhost:5000/api';
   private trayIconState: 'default' | 'active' | 'rest' = 'default';
   private lastNotificationTime: number = 0;
   private notificationCooldown: number = 180000;
@@ -25,23 +37,46 @@ class SystemTrayService {
   private focusScoreListeners: Array<(score: number) => void> = [];
   private appUsageListeners: Array<(appUsage: Array<{name: string, time: number, type: string, lastActiveTime?: number}>) => void> = [];
   private appUsageData: Map<string, {time: number, type: string, lastActiveTime: number}> = new Map();
+  private appIdentities: Map<string, AppIdentity> = new Map();
+  private lastTrackedApp: string | null = null;
+  private lastTrackedTime: number = 0;
+  
+  // When the current app, and the current run of same-category apps, started
+  private currentAppSince: number = 0;
+  private currentCategory: string | null = null;
+  private currentCategorySince: number = 0;
+  
+  // Per-hour activity buckets for today
+  private hourlyActivity: HourlyActivity[] = createEmptyHourlyActivity();
+  private hourlyActivityListeners: Array<(hourly: HourlyActivity[]) => void> = [];
   
   private userIdleTime: number = 0;
+  private lastIdleReturn: { at: number, idleDuration: number } | null = null;
+  // In the desktop app the main process reports system idle, lock and suspend.
+  // awaySince is set while the user is away.
+  private awaySince: number | null = null;
+  private awayTimeToday: number = 0;
   private idleCheckInterval: NodeJS.Timeout | null = null;
   private focusScore: number = 100;
   private distractionCount: number = 0;
   private focusScoreUpdateListeners: Array<(score: number, distractions: number) => void> = [];
   
+  // Calendar day (YYYY-MM-DD) that the in-memory daily stats belong to
+  private currentDayKey: string = UsageHistoryService.getDateKey();
+  
   // Focus mode properties
   private isFocusMode: boolean = false;
   private focusModeWhitelist: string[] = [];
+  private focusModeProfileName: string | null = null;
   private dimInsteadOfBlock: boolean = true;
   private focusModeListeners: Array<(isActive: boolean) => void> = [];
   
-  // Recent window switch tracking for custom rules
-  private recentSwitches: number = 0;
-  private recentSwitchesTimer: NodeJS.Timeout | null = null;
-  private lastWindowSwitchTime: number = 0;
+  // The Pomodoro session distractions are currently attributed to
+  private focusSession: { id: string, distractions: SessionDistraction[] } | null = null;
+  
+  // Timestamped window switches for custom rules, oldest first
+  private switchLog: number[] = [];
+  private maxSwitchLogAge: number = 3600000; // Longest time window a rule can use
   
   private persistedData: {
     screenTimeToday: number,
@@ -69,17 +104,15 @@ class SystemTrayService {
       this.initializeDesktopMonitoring();
     }
     
-    // Initialize recent switches tracking for custom rules
-    this.initRecentSwitchesTracking();
-  }
-
-  // Initialize tracking for recent app switches (for custom rules)
-  private initRecentSwitchesTracking(): void {
-    // Reset recent switches counter every 5 minutes
-    setInterval(() => {
-      console.log(`Resetting recent switches count. Previous: ${this.recentSwitches}`);
-      this.recentSwitches = 0;
-    }, 300000);
+    // Re-apply categories whenever the user edits the category rules
+    AppCategoryService.getInstance().addChangeListener(() => this.reclassifyAllApps());
+    
+    // Save the stats of whoever is signing out, then load the next person's
+    addProfileBeforeChangeListener(() => {
+      this.updateScreenTime();
+      this.persistData();
+    });
+    addProfileChangeListener(() => this.loadProfileStats());
   }
 
   // Persist data to localStorage before app closes or minimizes
@@ -89,6 +122,7 @@ class SystemTrayService {
     try {
       const dataToSave = {
         screenTimeToday: this.screenTimeToday,
+        awayTimeToday: this.awayTimeToday,
         focusScore: this.focusScore,
         distractionCount: this.distractionCount,
         appUsageData: Array.from(this.appUsageData.entries()).map(([name, data]) => ({
@@ -100,70 +134,141 @@ class SystemTrayService {
         focusModeWhitelist: this.focusModeWhitelist,
         isFocusMode: this.isFocusMode,
         dimInsteadOfBlock: this.dimInsteadOfBlock,
+        focusSession: this.focusSession,
+        hourlyActivity: this.hourlyActivity,
+        dayKey: this.currentDayKey,
         timestamp: Date.now()
       };
       
-      localStorage.setItem('systemTrayData', JSON.stringify(dataToSave));
+      profileStorage.setItem('systemTrayData', JSON.stringify(dataToSave));
       console.log("Persisted data to localStorage:", dataToSave);
+      
+      // Keep today's entry in the usage history up to date
+      this.archiveCurrentDay();
     } catch (error) {
       console.error("Failed to persist data:", error);
     }
   }
   
+  // Write the current daily stats into the per-day usage history
+  private archiveCurrentDay(): void {
+    UsageHistoryService.getInstance().saveDay({
+      date: this.currentDayKey,
+      screenTime: this.screenTimeToday,
+      focusScore: this.focusScore,
+      distractionCount: this.distractionCount,
+      awayTime: this.awayTimeToday,
+      appUsage: this.getAppUsageData(),
+      hourly: this.hourlyActivity
+    });
+  }
+  
   // Load persisted data from localStorage
   private loadPersistedData(): void {
     if (typeof window === 'undefined') return;
     
     try {
-      const savedData = localStorage.getItem('systemTrayData');
+      const savedData = profileStorage.getItem('systemTrayData');
       if (!savedData) return;
       
       const parsedData = JSON.parse(savedData);
       const timestamp = parsedData.timestamp || 0;
       const now = Date.now();
+      const savedDayKey = parsedData.dayKey || UsageHistoryService.getDateKey(timestamp);
       
-      // Only load data if it's from today (within the last 24h)
-      if (now - timestamp < 24 * 60 * 60 * 1000) {
-        this.screenTimeToday = parsedData.screenTimeToday || 0;
-        this.focusScore = parsedData.focusScore || 100;
-        this.distractionCount = parsedData.distractionCount || 0;
-        
-        // Load focus mode settings
-        if (parsedData.focusModeWhitelist) {
-          this.focusModeWhitelist = parsedData.focusModeWhitelist;
-        }
-        
-        if (parsedData.isFocusMode !== undefined) {
-          this.isFocusMode = parsedData.isFocusMode;
-        }
-        
-        if (parsedData.dimInsteadOfBlock !== undefined) {
-          this.dimInsteadOfBlock = parsedData.dimInsteadOfBlock;
-        }
-        
-        // Restore app usage data
-        if (parsedData.appUsageData && Array.isArray(parsedData.appUsageData)) {
-          parsedData.appUsageData.forEach((app: any) => {
-            if (app.name && app.time != null && app.type) {
-              this.appUsageData.set(app.name, {
-                time: app.time,
-                type: app.type,
-                lastActiveTime: app.lastActiveTime || now
-              });
-            }
-          });
-        }
-        
-        console.log("Loaded persisted data from localStorage:", parsedData);
-      } else {
-        console.log("Saved data is too old, starting fresh");
-        localStorage.removeItem('systemTrayData');
+      // Focus mode settings are not tied to a single day
+      if (parsedData.focusModeWhitelist) {
+        this.focusModeWhitelist = parsedData.focusModeWhitelist;
+      }
+      
+      if (parsedData.isFocusMode !== undefined) {
+        this.isFocusMode = parsedData.isFocusMode;
+      }
+      
+      if (parsedData.dimInsteadOfBlock !== undefined) {
+        this.dimInsteadOfBlock = parsedData.dimInsteadOfBlock;
+      }
+      
+      // A focus session can carry on across a reload (or midnight)
+      if (parsedData.focusSession?.id && Array.isArray(parsedData.focusSession.distractions)) {
+        this.focusSession = parsedData.focusSession;
+      }
+      
+      const appUsage: Array<{name: string, time: number, type: string, lastActiveTime: number}> = [];
+      if (parsedData.appUsageData && Array.isArray(parsedData.appUsageData)) {
+        parsedData.appUsageData.forEach((app: any) => {
+          if (app.name && app.time != null && app.type) {
+            appUsage.push({
+              name: app.name,
+              time: app.time,
+              type: app.type,
+              lastActiveTime: app.lastActiveTime || now
+            });
+          }
+        });
+      }
+      
+      // Stats from an earlier day go into the history instead of being discarded
+      if (savedDayKey !== this.currentDayKey) {
+        console.log(`Archiving saved stats for ${savedDayKey} and starting fresh`);
+        UsageHistoryService.getInstance().saveDay({
+          date: savedDayKey,
+          screenTime: parsedData.screenTimeToday || 0,
+          focusScore: parsedData.focusScore ?? 100,
+          distractionCount: parsedData.distractionCount || 0,
+          awayTime: parsedData.awayTimeToday || 0,
+          appUsage,
+          hourly: Array.isArray(parsedData.hourlyActivity) ? parsedData.hourlyActivity : undefined
+        });
+        return;
       }
+      
+      this.screenTimeToday = parsedData.screenTimeToday || 0;
+      this.awayTimeToday = parsedData.awayTimeToday || 0;
+      this.focusScore = parsedData.focusScore ?? 100;
+      this.distractionCount = parsedData.distractionCount || 0;
+      
+      if (Array.isArray(parsedData.hourlyActivity) && parsedData.hourlyActivity.length === 24) {
+        this.hourlyActivity = parsedData.hourlyActivity;
+      }
+      
+      // Restore app usage data
+      appUsage.forEach(app => {
+        this.appUsageData.set(app.name, {
+          time: app.time,
+          type: app.type,
+          lastActiveTime: app.lastActiveTime
+        });
+      });
+      
+      console.log("Loaded persisted data from localStorage:", parsedData);
     } catch (error) {
       console.error("Failed to load persisted data:", error);
     }
   }
 
+  // Swap in the stats of the profile that just signed in
+  private loadProfileStats(): void {
+    this.currentDayKey = UsageHistoryService.getDateKey();
+    this.screenTimeToday = 0;
+    this.awayTimeToday = 0;
+    this.distractionCount = 0;
+    this.focusScore = 100;
+    this.appUsageData.clear();
+    this.hourlyActivity = createEmptyHourlyActivity();
+    this.focusSession = null;
+    this.switchLog = [];
+    this.windowSwitches = 0;
+    
+    UsageHistoryService.getInstance().reload();
+    this.loadPersistedData();
+    
+    this.notifyScreenTimeListeners();
+    this.notifyFocusScoreListeners();
+    this.notifyAppUsageListeners();
+    this.notifyHourlyActivityListeners();
+  }
+
   // Initialize screen time tracking
   private initializeScreenTimeTracking(): void {
     // Start tracking screen time
@@ -181,7 +286,9 @@ class SystemTrayService {
       const now = Date.now();
       const timeSinceLastActivity = now - this.lastActivityTime;
       
-      if (timeSinceLastActivity > this.idleThreshold) {
+      if (this.isDesktopApp) {
+        this.userIdleTime = this.awaySince !== null ? now - this.awaySince : 0;
+      } else if (timeSinceLastActivity > this.idleThreshold) {
         this.userIdleTime = timeSinceLastActivity;
       } else {
         this.userIdleTime = 0;
@@ -220,31 +327,106 @@ class SystemTrayService {
   
   // Reset daily statistics
   private resetDailyStats(): void {
+    // Close out the finished day in the history before clearing it
+    this.updateScreenTime();
+    this.archiveCurrentDay();
+    this.currentDayKey = UsageHistoryService.getDateKey();
+    
     this.screenTimeToday = 0;
+    this.awayTimeToday = 0;
     this.distractionCount = 0;
     this.focusScore = 100;
     this.appUsageData.clear();
+    this.hourlyActivity = createEmptyHourlyActivity();
     
     // Notify listeners of reset
     this.notifyScreenTimeListeners();
     this.notifyFocusScoreListeners();
     this.notifyAppUsageListeners();
+    this.notifyHourlyActivityListeners();
+    
+    this.persistData();
   }
   
-  // Update screen time calculation
-  private updateScreenTime(): void {
-    const now = Date.now();
-    
+  // Whether the user is away from the computer. The desktop app knows from the
+  // system; in the browser we go by how long since the last activity.
+  private isAway(): boolean {
+    return this.isDesktopApp ? this.awaySince !== null : this.userIdleTime >= this.idleThreshold;
+  }
+  
+  // Update screen time calculation, up to now or an earlier moment
+  private updateScreenTime(until: number = Date.now()): void {
     // Don't count time if user is idle
-    if (this.userIdleTime < this.idleThreshold) {
-      const timeElapsed = now - this.lastScreenTimeUpdate;
+    if (!this.isAway()) {
+      const timeElapsed = Math.max(0, until - this.lastScreenTimeUpdate);
       this.screenTimeToday += timeElapsed;
+      this.addToHourlyActivity('screenTime', this.lastScreenTimeUpdate, until);
       
       // Notify listeners
       this.notifyScreenTimeListeners();
     }
     
-    this.lastScreenTimeUpdate = now;
+    this.hourlyActivity[new Date(until).getHours()].focusScore = this.focusScore;
+    this.lastScreenTimeUpdate = until;
+    this.notifyHourlyActivityListeners();
+  }
+  
+  // System idle, lock and suspend reported by the main process
+  private handleSystemIdleChange(state: { isAway: boolean, since?: number, at?: number }): void {
+    const now = Date.now();
+    
+    if (state.isAway) {
+      if (this.awaySince !== null) return;
+      
+      // Count screen time up to when the user left, then stop
+      const since = Math.min(state.since ?? now, now);
+      this.updateScreenTime(Math.max(since, this.lastScreenTimeUpdate));
+      this.awaySince = since;
+      this.userIdleTime = now - since;
+      return;
+    }
+    
+    if (this.awaySince === null) return;
+    
+    const since = this.awaySince;
+    const at = state.at ?? now;
+    this.awaySince = null;
+    this.userIdleTime = 0;
+    
+    // Record the absence as away time, for the part of it that falls today
+    const dayStart = new Date(at);
+    dayStart.setHours(0, 0, 0, 0);
+    this.awayTimeToday += Math.max(0, at - Math.max(since, dayStart.getTime()));
+    this.addToHourlyActivity('away', since, at);
+    this.lastIdleReturn = { at, idleDuration: at - since };
+    
+    // Pick up screen time and app usage again from the return
+    this.lastActivityTime = at;
+    this.lastScreenTimeUpdate = at;
+    this.lastTrackedTime = at;
+    
+    this.notifyHourlyActivityListeners();
+    this.persistData();
+  }
+  
+  // Spread a time span over the hourly buckets it covers (today only)
+  private addToHourlyActivity(
+    field: 'screenTime' | 'productive' | 'distraction' | 'communication' | 'away',
+    start: number,
+    end: number
+  ): void {
+    const dayStart = new Date(end);
+    dayStart.setHours(0, 0, 0, 0);
+    let cursor = Math.max(start, dayStart.getTime());
+    
+    while (cursor < end) {
+      const hourEnd = new Date(cursor);
+      hourEnd.setMinutes(60, 0, 0);
+      const sliceEnd = Math.min(end, hourEnd.getTime());
+      const bucket = this.hourlyActivity[new Date(cursor).getHours()];
+      bucket[field] = (bucket[field] || 0) + sliceEnd - cursor;
+      cursor = sliceEnd;
+    }
   }
   
   // Format screen time as hours:minutes
@@ -279,24 +461,26 @@ class SystemTrayService {
     if (this.isDesktopApp && window.electron) {
       // Listen for active window changes from main process
       const unsubscribeActiveWindow = window.electron.receive('active-window-changed', (windowInfo: any) => {
-        this.handleRealWindowSwitch(windowInfo.title);
+        this.handleRealWindowSwitch(windowInfo.title, windowInfo.owner?.name || windowInfo.appName || "Unknown");
         
-        // Track app usage
-        this.trackAppUsage(windowInfo.title, windowInfo.owner || "Unknown");
+        // Track app usage (browser windows are tracked by the site they show)
+        this.trackAppUsage(
+          windowInfo.title,
+          windowInfo.owner?.name || windowInfo.appName || "Unknown",
+          windowInfo.owner?.path,
+          windowInfo.owner?.bundleId,
+          windowInfo.domain || undefined
+        );
         
         // Update last activity time
-        this.lastActivityTime = Date.now();
+        this.recordActivity();
       });
       
-      // Listen for blink detection events
-      const unsubscribeBlink = window.electron.receive('blink-detected', () => {
-        this.notifyEyeCare();
-      });
-      
-      // Set up eye care notification handler
-      const unsubscribeEyeCare = window.electron.receive('eye-care-reminder', () => {
-        this.notifyEyeCareBreak();
+      // System idle, lock and suspend, so screen time stops while the user is away
+      window.electron.receive('system-idle-changed', (state: { isAway: boolean, since?: number, at?: number }) => {
+        this.handleSystemIdleChange(state);
       });
+      window.electron.send('get-idle-state');
       
       // Listen for notification dismissed events
       window.addEventListener('notification-dismissed', (e: Event) => {
@@ -333,42 +517,82 @@ class SystemTrayService {
     }
   }
 
+  // Update the last activity time, noting when the user comes back after being idle.
+  // The desktop app gets returns from the system instead, as a long stay in one
+  // window isn't an absence.
+  private recordActivity(): void {
+    const now = Date.now();
+    const idleDuration = now - this.lastActivityTime;
+    
+    if (!this.isDesktopApp && this.lastActivityTime && idleDuration > this.idleThreshold) {
+      this.lastIdleReturn = { at: now, idleDuration };
+    }
+    
+    this.lastActivityTime = now;
+  }
+
   // Track app usage for a specific application
-  private trackAppUsage(appTitle: string, appOwner: string): void {
+  private trackAppUsage(appTitle: string, appOwner: string, ownerPath?: string, bundleId?: string, domain?: string): void {
     const appName = appOwner !== "Unknown" ? appOwner : appTitle;
     const now = Date.now();
+    const previousApp = this.lastTrackedApp;
     
-    // Extract just the core app name for better matching
-    const coreAppName = this.extractAppName(appName);
+    // Extract just the core app name for better matching. A site open in a
+    // browser counts as its own app, named after its domain.
+    const coreAppName = domain || this.extractAppName(appName);
     
-    // Determine app type (productive, distraction, communication)
-    let appType = this.determineAppType(coreAppName);
+    // Determine app category from the user's category rules. Sites leave out the
+    // browser's path so rules for the browser itself don't swallow every site.
+    const identity: AppIdentity = domain
+      ? { name: domain, domain, title: appTitle }
+      : { name: coreAppName, path: ownerPath, bundleId, title: appTitle };
+    this.appIdentities.set(coreAppName, identity);
+    const appType = AppCategoryService.getInstance().classify(identity);
     
     // Get or create app usage data
     if (!this.appUsageData.has(coreAppName)) {
       this.appUsageData.set(coreAppName, { time: 0, type: appType, lastActiveTime: now });
     }
     
-    // Update app usage time (only if not idle)
-    if (this.userIdleTime < this.idleThreshold && this.lastActiveWindow === coreAppName) {
-      const timeElapsed = now - this.lastActivityTime;
-      const appData = this.appUsageData.get(coreAppName);
-      if (appData) {
-        appData.time += timeElapsed;
-        appData.lastActiveTime = now; // Update the last active time
-        this.appUsageData.set(coreAppName, appData);
-      }
-    } else {
-      // Just update the last active time
-      const appData = this.appUsageData.get(coreAppName);
-      if (appData) {
-        appData.lastActiveTime = now;
-        this.appUsageData.set(coreAppName, appData);
+    // Credit the time since the last sample to the app that was active (only if not idle)
+    const timeElapsed = now - this.lastTrackedTime;
+    if (this.lastTrackedApp && !this.isAway() && timeElapsed < this.idleThreshold) {
+      const previousAppData = this.appUsageData.get(this.lastTrackedApp);
+      if (previousAppData) {
+        previousAppData.time += timeElapsed;
+        this.appUsageData.set(this.lastTrackedApp, previousAppData);
+        
+        if (previousAppData.type === 'productive' || previousAppData.type === 'distraction' || previousAppData.type === 'communication') {
+          this.addToHourlyActivity(previousAppData.type, this.lastTrackedTime, now);
+        }
       }
     }
     
+    // Update the last active time and category
+    const appData = this.appUsageData.get(coreAppName);
+    if (appData) {
+      appData.lastActiveTime = now;
+      appData.type = appType;
+      this.appUsageData.set(coreAppName, appData);
+    }
+    
+    if (coreAppName !== previousApp) {
+      this.currentAppSince = now;
+    }
+    if (appType !== this.currentCategory) {
+      this.currentCategory = appType;
+      this.currentCategorySince = now;
+    }
+    
+    this.lastTrackedApp = coreAppName;
+    this.lastTrackedTime = now;
+    
     // Check focus mode - if active and app is not whitelisted
     if (this.isFocusMode && !this.isAppInWhitelist(coreAppName, this.focusModeWhitelist)) {
+      // Each visit to a non-whitelisted app counts once towards the running session
+      if (coreAppName !== previousApp) {
+        this.recordSessionDistraction('focus-mode-violation', coreAppName);
+      }
       this.notifyFocusModeViolation(coreAppName);
     }
     
@@ -398,54 +622,21 @@ class SystemTrayService {
     });
   }
   
-  // Determine app type based on name
-  private determineAppType(appName: string): "productive" | "distraction" | "communication" {
-    const appNameLower = appName.toLowerCase();
-    
-    // Productive apps
-    if (
-      appNameLower.includes("code") || 
-      appNameLower.includes("word") || 
-      appNameLower.includes("excel") || 
-      appNameLower.includes("powerpoint") || 
-      appNameLower.includes("outlook") ||
-      appNameLower.includes("terminal") ||
-      appNameLower.includes("studio") ||
-      appNameLower.includes("notepad") ||
-      appNameLower.includes("editor")
-    ) {
-      return "productive";
-    }
-    
-    // Communication apps
-    if (
-      appNameLower.includes("teams") || 
-      appNameLower.includes("slack") || 
-      appNameLower.includes("zoom") || 
-      appNameLower.includes("meet") || 
-      appNameLower.includes("mail") ||
-      appNameLower.includes("outlook") ||
-      appNameLower.includes("gmail")
-    ) {
-      return "communication";
-    }
-    
-    // Distraction apps
-    if (
-      appNameLower.includes("youtube") || 
-      appNameLower.includes("netflix") || 
-      appNameLower.includes("facebook") || 
-      appNameLower.includes("instagram") || 
-      appNameLower.includes("twitter") ||
-      appNameLower.includes("game") ||
-      appNameLower.includes("reddit") ||
-      appNameLower.includes("tiktok")
-    ) {
-      return "distraction";
-    }
-    
-    // Default to productive if unknown
-    return "productive";
+  // Re-run categorization for every tracked app after the rules change
+  private reclassifyAllApps(): void {
+    const categories = AppCategoryService.getInstance();
+    
+    this.appUsageData.forEach((data, name) => {
+      data.type = categories.classify(this.appIdentities.get(name) || { name });
+    });
+    
+    this.notifyAppUsageListeners();
+    this.persistData();
+  }
+  
+  // Move an app into a different category (creates a pinned rule)
+  public reclassifyApp(appName: string, categoryId: string): void {
+    AppCategoryService.getInstance().reclassifyApp(appName, categoryId);
   }
   
   // Add a screen time listener
@@ -523,7 +714,7 @@ class SystemTrayService {
       .map(([name, data]) => ({
         name,
         time: data.time,
-        type: data.type as "productive" | "distraction" | "communication",
+        type: data.type,
         lastActiveTime: data.lastActiveTime
       }));
     
@@ -532,6 +723,35 @@ class SystemTrayService {
     });
   }
 
+  // Add an hourly activity listener
+  public addHourlyActivityListener(callback: (hourly: HourlyActivity[]) => void): void {
+    this.hourlyActivityListeners.push(callback);
+    
+    // Initial callback with current values
+    callback(this.getHourlyActivity());
+  }
+  
+  // Remove an hourly activity listener
+  public removeHourlyActivityListener(callback: (hourly: HourlyActivity[]) => void): void {
+    const index = this.hourlyActivityListeners.indexOf(callback);
+    if (index > -1) {
+      this.hourlyActivityListeners.splice(index, 1);
+    }
+  }
+  
+  // Notify all hourly activity listeners
+  private notifyHourlyActivityListeners(): void {
+    const hourly = this.getHourlyActivity();
+    this.hourlyActivityListeners.forEach(listener => {
+      listener(hourly);
+    });
+  }
+  
+  // Get a copy of today's hourly activity buckets
+  public getHourlyActivity(): HourlyActivity[] {
+    return this.hourlyActivity.map(bucket => ({ ...bucket }));
+  }
+
   public static getInstance(): SystemTrayService {
     if (!SystemTrayService.instance) {
       SystemTrayService.instance = new SystemTrayService();
@@ -539,24 +759,34 @@ class SystemTrayService {
     return SystemTrayService.instance;
   }
 
+  // Add a switch to the log, dropping entries too old for any rule to ask about
+  private recordSwitch(timestamp: number): void {
+    this.switchLog.push(timestamp);
+    
+    const cutoff = timestamp - this.maxSwitchLogAge;
+    const firstRecent = this.switchLog.findIndex(time => time > cutoff);
+    if (firstRecent > 0) {
+      this.switchLog.splice(0, firstRecent);
+    }
+  }
+
   // Handle real window switch data from desktop APIs
-  private handleRealWindowSwitch(windowTitle: string): void {
+  private handleRealWindowSwitch(windowTitle: string, appName: string): void {
+    // The main process reports the active window on every poll, so only a
+    // different app or title counts as a switch
+    if (windowTitle === this.lastActiveWindow && appName === this.lastActiveApp) return;
+    
     console.log(`Real active window changed to: ${windowTitle}`);
+    this.lastActiveApp = appName;
+    this.recordSwitch(Date.now());
     
-    const now = Date.now();
-    // Only register as a switch if more than 2 seconds passed
-    if (now - this.lastWindowSwitchTime > 2000) {
-      this.recentSwitches++;
-      this.lastWindowSwitchTime = now;
-      
-      // Simulate an active-window-changed event that our contexts can listen for
-      const event = new CustomEvent('active-window-changed', {
-        detail: windowTitle
-      });
-      window.dispatchEvent(event);
-      
-      console.log(`Incremented recent switches to: ${this.recentSwitches}`);
-    }
+    // Simulate an active-window-changed event that our contexts can listen for
+    const event = new CustomEvent('active-window-changed', {
+      detail: windowTitle
+    });
+    window.dispatchEvent(event);
+    
+    console.log(`Recorded window switch. Switches in the last minute: ${this.getSwitchCountInWindow(60000)}`);
     
     this.handleWindowSwitch(windowTitle);
   }
@@ -590,7 +820,9 @@ class SystemTrayService {
         
         // Update focus score
         this.distractionCount++;
+        this.recordSessionDistraction('app-switching', this.lastTrackedApp);
         this.focusScore = Math.max(0, 100 - (this.distractionCount * 5));
+        this.hourlyActivity[new Date(now).getHours()].focusScore = this.focusScore;
         
         // Notify listeners of focus score update
         this.notifyFocusScoreListeners();
@@ -602,6 +834,7 @@ class SystemTrayService {
   // Test notification method - updated to ensure it works
   private notifyTest(): void {
     const message = "System tray notification test - if you see this, notifications are working!";
+    NotificationCenterService.getInstance().addNotification('system', "Notification Test", message);
     
     // Show as native notification when in desktop mode
     if (this.isDesktopApp && window.electron) {
@@ -622,12 +855,20 @@ class SystemTrayService {
 
   private notifyFocusNeeded(): void {
     const message = "You seem distracted. Try focusing on one task at a time.";
+    const reminders = ReminderService.getInstance();
+    if (reminders.isDoNotDisturbActive()) {
+      reminders.recordSuppressed('focus_alert', "Focus Reminder", message);
+      return;
+    }
+    
+    NotificationCenterService.getInstance().addNotification('focus_alert', "Focus Reminder", message);
     
     if (this.isDesktopApp && window.electron) {
       console.log("Sending focus notification via IPC");
       window.electron.send('show-native-notification', {
         title: "Focus Reminder", 
-        body: message
+        body: message,
+        source: 'focus_alert'
       });
     }
     
@@ -642,56 +883,21 @@ class SystemTrayService {
       return;
     }
     
-    const message = `You're outside your focus zone. ${appName} is not in your whitelist.`;
+    const whitelistName = this.focusModeProfileName ? `${this.focusModeProfileName} whitelist` : 'whitelist';
+    const message = `You're outside your focus zone. ${appName} is not in your ${whitelistName}.`;
     
     if (this.isDesktopApp && window.electron) {
       console.log("Sending focus mode violation notification via IPC");
       window.electron.send('show-native-notification', {
         title: "Focus Mode Alert", 
         body: message,
-        notificationId: notificationId
-      });
-    }
-    
-    // Apply dimming effect if that option is selected
-    if (this.dimInsteadOfBlock) {
-      // In a real implementation, we would dim the screen via Electron
-      console.log("Applying dimming effect to screen");
-    } else {
-      // In a real implementation, we would block the app via Electron
-      console.log("Blocking non-whitelisted app:", appName);
-    }
-    
-    this.listeners.forEach(listener => listener(message, true));
-  }
-
-  private notifyEyeCare(): void {
-    const message = "Remember to blink regularly to reduce eye strain.";
-    
-    if (this.isDesktopApp && window.electron) {
-      console.log("Sending eye care notification via IPC");
-      window.electron.send('show-native-notification', {
-        title: "Blink Reminder", 
-        body: message
-      });
-    }
-    
-    this.listeners.forEach(listener => listener(message, true));
-  }
-  
-  private notifyEyeCareBreak(): void {
-    const message = "Time to rest your eyes! Look 20ft away for 20 seconds.";
-    
-    if (this.isDesktopApp && window.electron) {
-      console.log("Sending eye care break notification via IPC");
-      window.electron.send('show-native-notification', {
-        title: "Eye Care Break", 
-        body: message
+        notificationId: notificationId,
+        source: 'focus_alert'
       });
     }
     
-    // Update tray icon to rest mode
-    this.setTrayIcon('rest');
+    // The dim effect and the block overlay are applied by FocusModeContext
+    console.log(`${this.dimInsteadOfBlock ? 'Dimming' : 'Blocking'} non-whitelisted app:`, appName);
     
     this.listeners.forEach(listener => listener(message, true));
   }
@@ -707,43 +913,6 @@ class SystemTrayService {
     }
   }
 
-  // Save user preferences to MongoDB
-  public async savePreferences(userId: string, preferences: any): Promise<boolean> {
-    if (!userId) return false;
-    
-    try {
-      const response = await fetch(`${this.apiBaseUrl}/preferences/${userId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(preferences)
-      });
-      
-      return response.ok;
-    } catch (error) {
-      console.error('Failed to save preferences:', error);
-      return false;
-    }
-  }
-  
-  // Load user preferences from MongoDB
-  public async loadPreferences(userId: string): Promise<any> {
-    if (!userId) return null;
-    
-    try {
-      const response = await fetch(`${this.apiBaseUrl}/preferences/${userId}`);
-      
-      if (response.ok) {
-        return await response.json();
-      }
-      return null;
-    } catch (error) {
-      console.error('Failed to load preferences:', error);
-      return null;
-    }
-  }
-
   // Improved methods to interact with the system tray
   public showTrayIcon(): void {
     if (this.isDesktopApp && window.electron) {
@@ -812,10 +981,47 @@ class SystemTrayService {
     return this.lastActiveWindow;
   }
   
-  // Get recent window switch count (for custom rules)
+  // Count window switches within a sliding window ending now (for custom rules)
+  public getSwitchCountInWindow(windowMs: number): number {
+    const cutoff = Date.now() - windowMs;
+    let count = 0;
+    
+    for (let i = this.switchLog.length - 1; i >= 0 && this.switchLog[i] > cutoff; i--) {
+      count++;
+    }
+    
+    return count;
+  }
+  
+  // Get the window switch count for the last 5 minutes
   public getRecentSwitchCount(): number {
-    console.log(`Current recent switch count: ${this.recentSwitches}`);
-    return this.recentSwitches;
+    return this.getSwitchCountInWindow(300000);
+  }
+  
+  // The app currently in use, with when it and its category became active (for custom rules)
+  public getCurrentApp(): { name: string, category: string, activeSince: number, categorySince: number } | null {
+    if (!this.lastTrackedApp || !this.currentCategory) return null;
+    
+    return {
+      name: this.lastTrackedApp,
+      category: this.currentCategory,
+      activeSince: this.currentAppSince,
+      categorySince: this.currentCategorySince
+    };
+  }
+  
+  public isUserIdle(): boolean {
+    return this.userIdleTime > 0;
+  }
+  
+  // Time spent idle, locked or suspended today
+  public getAwayTime(): number {
+    return this.awayTimeToday;
+  }
+  
+  // When the user last came back from being idle, and how long they were away
+  public getLastIdleReturn(): { at: number, idleDuration: number } | null {
+    return this.lastIdleReturn;
   }
   
   // Get app usage data for custom rules
@@ -827,6 +1033,25 @@ class SystemTrayService {
     }));
   }
   
+  // Get today's stats in the same shape as a usage history record, as last
+  // counted. Nothing is updated or notified, so it's safe to call while rendering.
+  public getTodayUsage(): Omit<DailyUsageRecord, 'updatedAt'> {
+    return {
+      date: this.currentDayKey,
+      screenTime: this.screenTimeToday,
+      focusScore: this.focusScore,
+      distractionCount: this.distractionCount,
+      awayTime: this.awayTimeToday,
+      appUsage: this.getAppUsageData(),
+      hourly: this.getHourlyActivity()
+    };
+  }
+  
+  // Get the per-day usage history between two dates (inclusive)
+  public getUsageHistory(startDate: Date | string, endDate: Date | string = new Date()): DailyUsageRecord[] {
+    return UsageHistoryService.getInstance().getRange(startDate, endDate);
+  }
+  
   // Focus Mode methods
   public setFocusMode(active: boolean): void {
     this.isFocusMode = active;
@@ -867,6 +1092,16 @@ class SystemTrayService {
     return this.focusModeWhitelist;
   }
   
+  // Use a named whitelist profile (or a schedule's list) for focus mode checks
+  public setActiveWhitelistProfile(profile: { name: string; apps: string[] }): void {
+    this.focusModeProfileName = profile.name;
+    this.setFocusModeWhitelist(profile.apps);
+  }
+  
+  public getActiveWhitelistProfileName(): string | null {
+    return this.focusModeProfileName;
+  }
+  
   public setDimOption(dimInsteadOfBlock: boolean): void {
     this.dimInsteadOfBlock = dimInsteadOfBlock;
     this.persistData();
@@ -876,6 +1111,34 @@ class SystemTrayService {
     return this.dimInsteadOfBlock;
   }
   
+  // Pomodoro session attribution. Distractions seen between begin and end are
+  // credited to the session with the given id.
+  public beginFocusSession(id: string): void {
+    if (this.focusSession?.id === id) return;
+    
+    this.focusSession = { id, distractions: [] };
+    this.persistData();
+  }
+  
+  public endFocusSession(id: string): SessionDistraction[] {
+    if (this.focusSession?.id !== id) return [];
+    
+    const { distractions } = this.focusSession;
+    this.focusSession = null;
+    this.persistData();
+    return distractions;
+  }
+  
+  public getFocusSessionDistractions(): SessionDistraction[] {
+    return this.focusSession ? [...this.focusSession.distractions] : [];
+  }
+  
+  private recordSessionDistraction(kind: SessionDistraction['kind'], appName: string | null): void {
+    if (!this.focusSession) return;
+    
+    this.focusSession.distractions.push({ timestamp: Date.now(), kind, appName });
+  }
+  
   public addFocusModeListener(callback: (isActive: boolean) => void): void {
     this.focusModeListeners.push(callback);
     callback(this.isFocusMode);
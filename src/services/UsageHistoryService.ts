@@ -0,0 +1,189 @@
+// This service keeps a durable per-day history of usage statistics
+import { addProfileChangeListener, profileStorage } from '@/lib/profileStorage';
+
+export interface DailyAppUsage {
+  name: string;
+  time: number;
+  type: string;
+}
+
+// Activity accumulated during one clock hour (times in milliseconds)
+export interface HourlyActivity {
+  hour: number;
+  screenTime: number;
+  productive: number;
+  distraction: number;
+  communication: number;
+  away?: number; // Idle, locked or suspended. Missing from buckets saved before it was tracked
+  focusScore: number | null;
+}
+
+export interface DailyUsageRecord {
+  date: string; // Local calendar day as YYYY-MM-DD
+  screenTime: number;
+  focusScore: number;
+  distractionCount: number;
+  awayTime?: number;
+  appUsage: DailyAppUsage[];
+  hourly?: HourlyActivity[];
+  updatedAt: number;
+}
+
+// Create an empty set of 24 hourly buckets
+export function createEmptyHourlyActivity(): HourlyActivity[] {
+  return Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    screenTime: 0,
+    productive: 0,
+    distraction: 0,
+    communication: 0,
+    away: 0,
+    focusScore: null
+  }));
+}
+
+class UsageHistoryService {
+  private static instance: UsageHistoryService;
+  private storageKey: string = 'usageHistory';
+  private retentionDays: number = 365;
+  private records: Map<string, DailyUsageRecord> = new Map();
+  private listeners: Array<(records: DailyUsageRecord[]) => void> = [];
+
+  private constructor() {
+    this.loadHistory();
+    addProfileChangeListener(() => this.reload());
+  }
+
+  public static getInstance(): UsageHistoryService {
+    if (!UsageHistoryService.instance) {
+      UsageHistoryService.instance = new UsageHistoryService();
+    }
+    return UsageHistoryService.instance;
+  }
+
+  // Build the YYYY-MM-DD key for a date in local time
+  public static getDateKey(date: Date | number = new Date()): string {
+    const d = typeof date === 'number' ? new Date(date) : date;
+    const month = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+    return `${d.getFullYear()}-${month}-${day}`;
+  }
+
+  // Load the stored history from localStorage
+  private loadHistory(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const savedHistory = profileStorage.getItem(this.storageKey);
+      if (!savedHistory) return;
+
+      const parsedHistory = JSON.parse(savedHistory);
+      if (!Array.isArray(parsedHistory)) return;
+
+      parsedHistory.forEach((record: DailyUsageRecord) => {
+        if (record && typeof record.date === 'string') {
+          this.records.set(record.date, {
+            date: record.date,
+            screenTime: record.screenTime || 0,
+            focusScore: record.focusScore ?? 100,
+            distractionCount: record.distractionCount || 0,
+            awayTime: record.awayTime || 0,
+            appUsage: Array.isArray(record.appUsage) ? record.appUsage : [],
+            hourly: Array.isArray(record.hourly) && record.hourly.length === 24 ? record.hourly : undefined,
+            updatedAt: record.updatedAt || 0
+          });
+        }
+      });
+
+      console.log(`Loaded usage history for ${this.records.size} days`);
+    } catch (error) {
+      console.error("Failed to load usage history:", error);
+    }
+  }
+
+  // Write the history back to localStorage, dropping days past retention
+  private saveHistory(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - this.retentionDays);
+      const cutoffKey = UsageHistoryService.getDateKey(cutoff);
+
+      Array.from(this.records.keys()).forEach(date => {
+        if (date < cutoffKey) {
+          this.records.delete(date);
+        }
+      });
+
+      profileStorage.setItem(this.storageKey, JSON.stringify(this.getAllRecords()));
+    } catch (error) {
+      console.error("Failed to save usage history:", error);
+    }
+  }
+
+  // Load the history of the profile that is now signed in. Anything that
+  // archives days calls this first, so a day never lands in the wrong history.
+  public reload(): void {
+    this.records.clear();
+    this.loadHistory();
+    this.notifyListeners();
+  }
+
+  // Insert or replace the record for a single day
+  public saveDay(record: Omit<DailyUsageRecord, 'updatedAt'>): void {
+    this.records.set(record.date, {
+      ...record,
+      appUsage: record.appUsage.map(app => ({ name: app.name, time: app.time, type: app.type })),
+      hourly: record.hourly ? record.hourly.map(bucket => ({ ...bucket })) : undefined,
+      updatedAt: Date.now()
+    });
+
+    this.saveHistory();
+    this.notifyListeners();
+  }
+
+  // Get the record for a single day, if one exists
+  public getDay(date: Date | string): DailyUsageRecord | null {
+    const key = typeof date === 'string' ? date : UsageHistoryService.getDateKey(date);
+    return this.records.get(key) || null;
+  }
+
+  // Get all recorded days between start and end (inclusive), oldest first
+  public getRange(start: Date | string, end: Date | string): DailyUsageRecord[] {
+    const startKey = typeof start === 'string' ? start : UsageHistoryService.getDateKey(start);
+    const endKey = typeof end === 'string' ? end : UsageHistoryService.getDateKey(end);
+
+    return this.getAllRecords().filter(record => record.date >= startKey && record.date <= endKey);
+  }
+
+  // Get the last N days ending today (inclusive)
+  public getRecentDays(days: number): DailyUsageRecord[] {
+    const start = new Date();
+    start.setDate(start.getDate() - (days - 1));
+    return this.getRange(start, new Date());
+  }
+
+  public getAllRecords(): DailyUsageRecord[] {
+    return Array.from(this.records.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  public addHistoryListener(callback: (records: DailyUsageRecord[]) => void): void {
+    this.listeners.push(callback);
+    callback(this.getAllRecords());
+  }
+
+  public removeHistoryListener(callback: (records: DailyUsageRecord[]) => void): void {
+    const index = this.listeners.indexOf(callback);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  private notifyListeners(): void {
+    const records = this.getAllRecords();
+    this.listeners.forEach(listener => listener(records));
+  }
+}
+
+export default UsageHistoryService;